@@ -14,20 +14,34 @@ import {
     GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod'; // For data validation
+import * as os from 'os'; // Locate the per-user queue file
+import * as path from 'path'; // Build file paths
 
 // Import type definitions and validation functions
 import {
     ExecuteTestSuiteArgs,
+    ManageExecutionArgs,
+    QueryExecutionHistoryArgs,
+    CompareExecutionsArgs,
+    ExportReportArgs,
     AnalyzeProjectArgs,
     CreateTestCaseArgs,
     ManageObjectRepositoryArgs,
+    ManageTestSuiteArgs,
+    ManageTestSuiteCollectionArgs,
     ManageKeywordsArgs,
     TestDesignPromptArgs,
     ObjectIdentificationPromptArgs,
     validateExecuteTestSuiteArgs,
+    validateManageExecutionArgs,
+    validateQueryExecutionHistoryArgs,
+    validateCompareExecutionsArgs,
+    validateExportReportArgs,
     validateAnalyzeProjectArgs,
     validateCreateTestCaseArgs,
     validateManageObjectRepositoryArgs,
+    validateManageTestSuiteArgs,
+    validateManageTestSuiteCollectionArgs,
     validateManageKeywordsArgs,
     validateTestDesignPromptArgs,
     validateObjectIdentificationPromptArgs,
@@ -39,6 +53,15 @@ import { createModuleLogger } from './utils/logger.js';
 // Import our custom Katalon integration modules
 import { KatalonProjectManager } from './katalon/project-manager.js';
 import { KatalonTestExecutor } from './katalon/test-executor.js';
+import { KatalonExecutionHistory } from './katalon/execution-history.js';
+import { KatalonProjectLoader } from './katalon/project-loader.js';
+import { KatalonExecutionComparison } from './katalon/execution-comparison.js';
+import { KatalonReportExporter } from './katalon/report-exporter.js';
+import { KatalonTestSuiteManager } from './katalon/test-suite-manager.js';
+import { KatalonExecutionQueue } from './katalon/execution-queue.js';
+import { DockerCliContainerRunner, KatalonDockerRunner } from './katalon/docker-runner.js';
+import { KatalonSimulatedRunner } from './katalon/simulated-runner.js';
+import { RunnerName } from './katalon/execution-runner.js';
 import { KatalonObjectRepository } from './katalon/object-repository.js';
 import { KatalonKeywordManager } from './katalon/keyword-manager.js';
 import { KatalonSmartHealing } from './katalon/smart-healing.js';
@@ -64,6 +87,11 @@ class KatalonMCPServer {
     // Specialized modules for different Katalon operations
     private projectManager: KatalonProjectManager; // Analyzes and manages Katalon projects
     private testExecutor: KatalonTestExecutor; // Runs test suites and monitors execution
+    private executionHistory: KatalonExecutionHistory; // Records and queries past executions
+    private projectLoader: KatalonProjectLoader; // Reads the project model shared by the modules
+    private executionComparison: KatalonExecutionComparison; // Diffs executions against each other or a baseline
+    private reportExporter: KatalonReportExporter; // Writes executions as Allure, HTML, CSV and Markdown
+    private testSuiteManager: KatalonTestSuiteManager; // Creates test suites and edits their test case links
     private objectRepository: KatalonObjectRepository; // Manages UI elements and their selectors
     private keywordManager: KatalonKeywordManager; // Handles custom test keywords/functions
     private smartHealing: KatalonSmartHealing; // Automatically fixes broken test elements
@@ -89,8 +117,34 @@ class KatalonMCPServer {
         );
 
         // Initialize all Katalon components that will handle different operations
-        this.projectManager = new KatalonProjectManager(); // For project analysis
-        this.testExecutor = new KatalonTestExecutor(); // For running tests
+        this.executionHistory = new KatalonExecutionHistory(); // For past execution results
+        this.projectLoader = new KatalonProjectLoader(); // For .prj, settings and profiles
+        this.projectManager = new KatalonProjectManager(this.executionHistory, this.projectLoader); // For project analysis
+        this.testExecutor = new KatalonTestExecutor(
+            this.executionHistory,
+            // One queue per machine: limits concurrent katalonc processes and survives restarts
+            new KatalonExecutionQueue({
+                maxConcurrent: parseInt(process.env.KATALON_MAX_CONCURRENT_EXECUTIONS || '', 10) || 2,
+                queueFile:
+                    process.env.KATALON_MCP_QUEUE_FILE || path.join(os.homedir(), '.katalon-mcp', 'queue.json'),
+            }),
+            {
+                runners: {
+                    docker: new KatalonDockerRunner(
+                        new DockerCliContainerRunner(),
+                        process.env.KATALON_DOCKER_IMAGE || 'katalonstudio/katalon'
+                    ),
+                    simulated: new KatalonSimulatedRunner(process.env.KATALON_SIMULATION_SCRIPT),
+                },
+                defaultRunner: ['docker', 'simulated'].includes(process.env.KATALON_RUNNER || '')
+                    ? (process.env.KATALON_RUNNER as RunnerName)
+                    : 'local',
+            },
+            this.projectLoader
+        ); // For running tests
+        this.executionComparison = new KatalonExecutionComparison(this.testExecutor); // For run-to-run diffs
+        this.reportExporter = new KatalonReportExporter(this.testExecutor); // For sharing results outside Katalon
+        this.testSuiteManager = new KatalonTestSuiteManager(this.projectLoader); // For building test suites
         this.objectRepository = new KatalonObjectRepository(); // For managing UI elements
         this.keywordManager = new KatalonKeywordManager(); // For custom keywords
         this.smartHealing = new KatalonSmartHealing(); // For auto-fixing broken tests
@@ -137,10 +191,308 @@ class KatalonMCPServer {
                                     description: 'Execution profile to use',
                                     default: 'default',
                                 },
+                                globalVariables: {
+                                    type: 'object',
+                                    description:
+                                        'Profile variable overrides for this run (passed as -g_<name>=<value>); names must be declared in the execution profile',
+                                    additionalProperties: { type: ['string', 'number', 'boolean'] },
+                                },
+                                env: {
+                                    type: 'object',
+                                    description:
+                                        'Profile variables to fill from server environment variables, as { variableName: "ENV_VAR_NAME" }',
+                                    additionalProperties: { type: 'string' },
+                                },
+                                remoteWebDriver: {
+                                    type: 'object',
+                                    description:
+                                        'Run on a remote WebDriver endpoint (Selenium Grid, Appium or a cloud provider) with -browserType="Remote"',
+                                    properties: {
+                                        url: {
+                                            type: 'string',
+                                            description: 'WebDriver endpoint, e.g. http://grid:4444/wd/hub',
+                                        },
+                                        type: {
+                                            type: 'string',
+                                            enum: ['Selenium', 'Appium'],
+                                            default: 'Selenium',
+                                        },
+                                        desiredCapabilities: {
+                                            type: 'object',
+                                            description:
+                                                'Capabilities for the new session, e.g. { "browserName": "chrome" }',
+                                        },
+                                    },
+                                    required: ['url'],
+                                },
+                                timeoutMinutes: {
+                                    type: 'number',
+                                    description:
+                                        'Stop the run after this many minutes and return partial results (default: the project setting in .katalon-mcp/settings.json, else 30)',
+                                },
+                                priority: {
+                                    type: 'string',
+                                    enum: ['high', 'normal', 'low'],
+                                    description: 'Queue priority when every execution slot is busy',
+                                    default: 'normal',
+                                },
+                                runner: {
+                                    type: 'string',
+                                    enum: ['local', 'docker', 'simulated'],
+                                    description:
+                                        'Run with the local katalonc, in a katalonstudio/katalon container, or simulated without Katalon (default: KATALON_RUNNER, else local)',
+                                },
+                                screenshotMaxWidth: {
+                                    type: 'number',
+                                    description:
+                                        'Scale the failure screenshots returned as images down to this width in pixels (full size stays available as katalon://executions/... resources)',
+                                },
+                                dryRun: {
+                                    type: 'boolean',
+                                    description:
+                                        'Return the resolved katalonc command, report folder and validation results without running anything',
+                                    default: false,
+                                },
+                                matrix: {
+                                    type: 'object',
+                                    description:
+                                        'Run every browser × profile combination as its own katalonc process and report per-combination results',
+                                    properties: {
+                                        browsers: {
+                                            type: 'array',
+                                            items: { type: 'string' },
+                                            description: 'Browsers to run the suite on',
+                                        },
+                                        executionProfiles: {
+                                            type: 'array',
+                                            items: { type: 'string' },
+                                            description: 'Execution profiles to run the suite with',
+                                        },
+                                        maxConcurrency: {
+                                            type: 'number',
+                                            description: 'Maximum combinations running at the same time',
+                                            default: 2,
+                                        },
+                                    },
+                                    required: ['browsers'],
+                                },
                             },
                             required: ['projectPath', 'testSuitePath'],
                         },
                     },
+                    {
+                        name: 'katalon_manage_execution',
+                        description:
+                            'Start a test suite in the background and check its status, collect its results, cancel it, rerun or triage its failed test cases by executionId, or view the execution queue',
+                        inputSchema: {
+                            type: 'object',
+                            properties: {
+                                action: {
+                                    type: 'string',
+                                    enum: ['start', 'status', 'result', 'cancel', 'list', 'rerun_failed', 'queue', 'triage'],
+                                    description: 'Action to perform on the execution',
+                                },
+                                executionId: {
+                                    type: 'string',
+                                    description:
+                                        'Execution ID of a previous run (for status/result/cancel/rerun_failed/triage)',
+                                },
+                                projectPath: {
+                                    type: 'string',
+                                    description:
+                                        'Full path to the Katalon project folder (for start, or to find rerun_failed/triage runs in the execution history)',
+                                },
+                                testSuitePath: {
+                                    type: 'string',
+                                    description: 'Path to the test suite file to run (for start)',
+                                },
+                                browser: {
+                                    type: 'string',
+                                    description: 'Which web browser to use for testing (for start)',
+                                    default: 'Chrome',
+                                },
+                                executionProfile: {
+                                    type: 'string',
+                                    description: 'Execution profile to use (for start)',
+                                    default: 'default',
+                                },
+                                globalVariables: {
+                                    type: 'object',
+                                    description:
+                                        'Profile variable overrides for this run (for start)',
+                                    additionalProperties: { type: ['string', 'number', 'boolean'] },
+                                },
+                                env: {
+                                    type: 'object',
+                                    description:
+                                        'Profile variables to fill from server environment variables (for start)',
+                                    additionalProperties: { type: 'string' },
+                                },
+                                timeoutMinutes: {
+                                    type: 'number',
+                                    description: 'Stop the run after this many minutes (for start)',
+                                },
+                                priority: {
+                                    type: 'string',
+                                    enum: ['high', 'normal', 'low'],
+                                    description: 'Queue priority when every execution slot is busy (for start)',
+                                    default: 'normal',
+                                },
+                                runner: {
+                                    type: 'string',
+                                    enum: ['local', 'docker', 'simulated'],
+                                    description: 'Run with the local katalonc, in a container, or simulated (for start)',
+                                },
+                                screenshotMaxWidth: {
+                                    type: 'number',
+                                    description: 'Scale the failure screenshots returned as images down to this width (for result)',
+                                },
+                            },
+                            required: ['action'],
+                        },
+                    },
+                    {
+                        name: 'katalon_query_execution_history',
+                        description:
+                            'Search the recorded execution history of a project by suite, date range, status, browser, profile or test case',
+                        inputSchema: {
+                            type: 'object',
+                            properties: {
+                                projectPath: {
+                                    type: 'string',
+                                    description: 'Path to the Katalon project',
+                                },
+                                testSuitePath: {
+                                    type: 'string',
+                                    description: 'Only executions of suites whose path contains this text',
+                                },
+                                from: {
+                                    type: 'string',
+                                    description: 'Only executions started at or after this ISO date/time',
+                                },
+                                to: {
+                                    type: 'string',
+                                    description: 'Only executions started at or before this ISO date/time',
+                                },
+                                status: {
+                                    type: 'string',
+                                    enum: ['PASSED', 'FAILED', 'CANCELLED'],
+                                    description: 'Only executions with this overall outcome',
+                                },
+                                browser: {
+                                    type: 'string',
+                                    description: 'Only executions on this browser',
+                                },
+                                executionProfile: {
+                                    type: 'string',
+                                    description: 'Only executions with this execution profile',
+                                },
+                                testCaseName: {
+                                    type: 'string',
+                                    description: 'Only executions that include a test case whose name contains this text',
+                                },
+                                testCaseStatus: {
+                                    type: 'string',
+                                    enum: ['PASSED', 'FAILED', 'SKIPPED', 'ERROR'],
+                                    description: 'Only executions where the matching test case had this outcome',
+                                },
+                                includeSimulated: {
+                                    type: 'boolean',
+                                    description: 'Also list runs made by the simulated runner (left out by default)',
+                                    default: false,
+                                },
+                                limit: {
+                                    type: 'number',
+                                    description: 'Maximum number of executions to return, newest first',
+                                    default: 20,
+                                },
+                            },
+                            required: ['projectPath'],
+                        },
+                    },
+                    {
+                        name: 'katalon_compare_executions',
+                        description:
+                            'Compare an execution with an earlier one or a saved baseline: newly failing, newly passing, still failing, added and removed test cases, duration regressions and changed errors',
+                        inputSchema: {
+                            type: 'object',
+                            properties: {
+                                projectPath: {
+                                    type: 'string',
+                                    description: 'Path to the Katalon project',
+                                },
+                                action: {
+                                    type: 'string',
+                                    enum: ['compare', 'save_baseline', 'list_baselines'],
+                                    description:
+                                        'compare two runs, save a run as a named baseline, or list saved baselines',
+                                    default: 'compare',
+                                },
+                                executionId: {
+                                    type: 'string',
+                                    description: 'Execution to check (compare) or to save (save_baseline)',
+                                },
+                                baseExecutionId: {
+                                    type: 'string',
+                                    description: 'Earlier execution to compare against',
+                                },
+                                baseline: {
+                                    type: 'string',
+                                    description:
+                                        'Saved baseline to compare against, or the name to save under (letters, digits, ".", "-", "_")',
+                                },
+                                durationThresholdPercent: {
+                                    type: 'number',
+                                    description: 'Report test cases at least this many percent slower',
+                                    default: 50,
+                                },
+                                minDurationIncreaseMs: {
+                                    type: 'number',
+                                    description: 'Ignore slowdowns smaller than this many milliseconds',
+                                    default: 1000,
+                                },
+                            },
+                            required: ['projectPath'],
+                        },
+                    },
+                    {
+                        name: 'katalon_export_report',
+                        description:
+                            'Write one or more executions as Allure results, a standalone HTML report, CSV, GitHub-flavored Markdown or TestRail, Xray and Zephyr Scale import files in a chosen folder',
+                        inputSchema: {
+                            type: 'object',
+                            properties: {
+                                executionIds: {
+                                    type: 'array',
+                                    items: { type: 'string' },
+                                    description: 'Executions to export, in order',
+                                },
+                                outputFolder: {
+                                    type: 'string',
+                                    description: 'Folder to write the reports to (created if missing)',
+                                },
+                                projectPath: {
+                                    type: 'string',
+                                    description: 'Path to the Katalon project, to find executions in its history',
+                                },
+                                formats: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'string',
+                                        enum: ['allure', 'html', 'csv', 'markdown', 'testrail', 'xray', 'zephyr'],
+                                    },
+                                    description:
+                                        'Formats to write (defaults to allure, html, csv and markdown). testrail, xray and zephyr write import files for those test management tools',
+                                },
+                                mappingFile: {
+                                    type: 'string',
+                                    description:
+                                        'JSON file mapping Katalon test case IDs to TestRail/Xray/Zephyr IDs (defaults to .katalon-mcp/test-management.json; test case tags like "xray:PROJ-45" work too)',
+                                },
+                            },
+                            required: ['executionIds', 'outputFolder'],
+                        },
+                    },
                     {
                         name: 'katalon_create_test_case',
                         description: 'Create a new test case with intelligent object identification',
@@ -165,15 +517,220 @@ class KatalonMCPServer {
                                 },
                                 testSteps: {
                                     type: 'array',
-                                    description: 'Array of test steps with descriptions',
+                                    description:
+                                        'Test steps, in plain words (e.g. "Click the login button") or as keyword calls. Plain steps become keyword calls on existing test objects, or TODO comments; keyword calls are checked against the built-in keywords and the Object Repository, and an invalid one fails the request',
                                     items: {
-                                        type: 'string',
+                                        oneOf: [
+                                            { type: 'string' },
+                                            {
+                                                type: 'object',
+                                                properties: {
+                                                    keyword: {
+                                                        type: 'string',
+                                                        description: 'Built-in keyword (e.g. "WebUI.setText")',
+                                                    },
+                                                    object: {
+                                                        type: 'string',
+                                                        description:
+                                                            'Object Repository ID for keywords that take a test object (e.g. "Page_Login/input_username")',
+                                                    },
+                                                    inputs: {
+                                                        type: 'array',
+                                                        description:
+                                                            'Other keyword arguments in order: strings, numbers, booleans, or { "expression": "GlobalVariable.password" } for Groovy',
+                                                        items: {},
+                                                    },
+                                                    failureHandling: {
+                                                        type: 'string',
+                                                        enum: ['STOP_ON_FAILURE', 'CONTINUE_ON_FAILURE', 'OPTIONAL'],
+                                                    },
+                                                    description: {
+                                                        type: 'string',
+                                                        description: 'What the step does, shown in the manual view',
+                                                    },
+                                                },
+                                                required: ['keyword'],
+                                            },
+                                        ],
                                     },
                                 },
+                                testCaseType: {
+                                    type: 'string',
+                                    enum: ['web', 'api', 'mobile'],
+                                    description: 'Which keywords the script uses: WebUI, WS or Mobile',
+                                    default: 'web',
+                                },
                             },
                             required: ['projectPath', 'testCaseName', 'description'],
                         },
                     },
+                    {
+                        name: 'katalon_manage_test_suite',
+                        description:
+                            'Create a test suite (.ts) and edit it: add, remove and reorder existing test cases, set retry and page-load timeout settings, and bind data files to test case variables',
+                        inputSchema: {
+                            type: 'object',
+                            properties: {
+                                projectPath: {
+                                    type: 'string',
+                                    description: 'Path to the Katalon project',
+                                },
+                                action: {
+                                    type: 'string',
+                                    enum: [
+                                        'create',
+                                        'show',
+                                        'update',
+                                        'add_test_cases',
+                                        'remove_test_cases',
+                                        'reorder',
+                                        'bind_data',
+                                    ],
+                                    description:
+                                        'create a suite, show it, update its settings, add/remove/reorder test cases, or bind a data file to a test case',
+                                },
+                                testSuitePath: {
+                                    type: 'string',
+                                    description: 'Suite to work on (e.g. "Test Suites/Regression")',
+                                },
+                                testCaseIds: {
+                                    type: 'array',
+                                    items: { type: 'string' },
+                                    description:
+                                        'Test cases to link, unlink, or put first in this order (e.g. "Test Cases/Login")',
+                                },
+                                position: {
+                                    type: 'number',
+                                    description: 'add_test_cases: insert before this 0-based position instead of at the end',
+                                },
+                                description: {
+                                    type: 'string',
+                                    description: 'Suite description',
+                                },
+                                pageLoadTimeout: {
+                                    type: 'number',
+                                    description: 'Seconds to wait for pages, instead of the project default',
+                                },
+                                numberOfRerun: {
+                                    type: 'number',
+                                    description: 'Retry a failed execution this many times',
+                                },
+                                rerunFailedTestCasesOnly: {
+                                    type: 'boolean',
+                                    description: 'Retries run only the failed test cases',
+                                },
+                                rerunImmediately: {
+                                    type: 'boolean',
+                                    description: 'Retry a failed test case right away instead of after the run',
+                                },
+                                testCaseId: {
+                                    type: 'string',
+                                    description: 'bind_data: linked test case to bind data to',
+                                },
+                                testDataId: {
+                                    type: 'string',
+                                    description: 'bind_data: data file (e.g. "Data Files/Users")',
+                                },
+                                variableBindings: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            variable: { type: 'string' },
+                                            column: {
+                                                type: ['string', 'number'],
+                                                description: 'Column name, or 1-based column index',
+                                            },
+                                        },
+                                        required: ['variable', 'column'],
+                                    },
+                                    description: 'bind_data: which data column feeds which test case variable',
+                                },
+                                iterationType: {
+                                    type: 'string',
+                                    enum: ['ALL', 'RANGE', 'SPECIFIC'],
+                                    description: 'bind_data: run every row, a range ("1-5") or specific rows ("1,3,5")',
+                                    default: 'ALL',
+                                },
+                                iterationValue: {
+                                    type: 'string',
+                                    description: 'bind_data: the rows for RANGE or SPECIFIC iteration',
+                                },
+                            },
+                            required: ['projectPath', 'action', 'testSuitePath'],
+                        },
+                    },
+                    {
+                        name: 'katalon_manage_test_suite_collection',
+                        description:
+                            'Create a test suite collection (.tsc) that runs existing suites in order, each with its own browser and profile, sequentially or in parallel; or show an existing one',
+                        inputSchema: {
+                            type: 'object',
+                            properties: {
+                                projectPath: {
+                                    type: 'string',
+                                    description: 'Path to the Katalon project',
+                                },
+                                action: {
+                                    type: 'string',
+                                    enum: ['create', 'show'],
+                                    description: 'create a collection or show an existing one',
+                                },
+                                collectionPath: {
+                                    type: 'string',
+                                    description: 'Collection to work on (e.g. "Test Suites/Nightly")',
+                                },
+                                description: {
+                                    type: 'string',
+                                    description: 'Collection description',
+                                },
+                                executionMode: {
+                                    type: 'string',
+                                    enum: ['SEQUENTIAL', 'PARALLEL'],
+                                    description: 'Run the suites one by one or side by side',
+                                    default: 'SEQUENTIAL',
+                                },
+                                maxConcurrentInstances: {
+                                    type: 'number',
+                                    description: 'PARALLEL: how many suites may run at once',
+                                    default: 8,
+                                },
+                                members: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            testSuiteId: {
+                                                type: 'string',
+                                                description: 'Existing suite (e.g. "Test Suites/Smoke")',
+                                            },
+                                            browser: {
+                                                type: 'string',
+                                                description: 'Run configuration (e.g. "Chrome", "Firefox", "Remote")',
+                                                default: 'Chrome',
+                                            },
+                                            executionProfile: {
+                                                type: 'string',
+                                                description: 'Execution profile',
+                                                default: 'default',
+                                            },
+                                            groupName: {
+                                                type: 'string',
+                                                description: 'Run configuration group, guessed from the browser if left out',
+                                            },
+                                            runEnabled: {
+                                                type: 'boolean',
+                                                default: true,
+                                            },
+                                        },
+                                        required: ['testSuiteId'],
+                                    },
+                                    description: 'create: suites in run order with their run configurations',
+                                },
+                            },
+                            required: ['projectPath', 'action', 'collectionPath'],
+                        },
+                    },
                     {
                         name: 'katalon_manage_object_repository',
                         description: 'Manage object repository with smart healing capabilities',
@@ -245,7 +802,13 @@ class KatalonMCPServer {
                                 },
                                 analysisType: {
                                     type: 'string',
-                                    enum: ['overview', 'test_coverage', 'object_health', 'keyword_usage'],
+                                    enum: [
+                                        'overview',
+                                        'test_coverage',
+                                        'object_health',
+                                        'keyword_usage',
+                                        'flaky_tests',
+                                    ],
                                     description: 'Type of analysis to perform',
                                 },
                             },
@@ -257,7 +820,7 @@ class KatalonMCPServer {
         });
 
         // Handle tool execution
-        this.server.setRequestHandler(CallToolRequestSchema, async request => {
+        this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
             const { name, arguments: args } = request.params;
 
             try {
@@ -269,16 +832,127 @@ class KatalonMCPServer {
                                 projectPath: validatedArgs.projectPath,
                                 testSuitePath: validatedArgs.testSuitePath,
                             });
-                            return await this.testExecutor.executeTestSuite(validatedArgs);
+                            // Stream test case progress back when the client asked for it
+                            const progressToken = request.params._meta?.progressToken;
+                            return await this.testExecutor.executeTestSuite(
+                                validatedArgs,
+                                progressToken === undefined
+                                    ? undefined
+                                    : (progress, event) => {
+                                          if (event.type !== 'finished') {
+                                              return;
+                                          }
+                                          extra
+                                              .sendNotification({
+                                                  method: 'notifications/progress',
+                                                  params: {
+                                                      progressToken,
+                                                      progress: progress.completed,
+                                                      total: progress.total,
+                                                      message: progress.message,
+                                                  },
+                                              })
+                                              .catch(error =>
+                                                  this.logger.warn('Failed to send progress notification', {
+                                                      error: error instanceof Error ? error.message : String(error),
+                                                  })
+                                              );
+                                      },
+                                // Stop katalonc when the client sends notifications/cancelled
+                                extra.signal
+                            );
                         } catch (error) {
                             const errorMessage = error instanceof Error ? error.message : String(error);
                             this.logger.error('Failed to execute test suite', { error: errorMessage });
                             throw error;
                         }
 
+                    case 'katalon_manage_execution':
+                        try {
+                            const validatedArgs = validateManageExecutionArgs(request.params.arguments);
+                            this.logger.info('Managing execution', {
+                                action: validatedArgs.action,
+                                executionId: validatedArgs.executionId,
+                            });
+                            return await this.testExecutor.manageExecution(validatedArgs);
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            this.logger.error('Failed to manage execution', { error: errorMessage });
+                            throw error;
+                        }
+
+                    case 'katalon_query_execution_history':
+                        try {
+                            const validatedArgs = validateQueryExecutionHistoryArgs(request.params.arguments);
+                            this.logger.info('Querying execution history', {
+                                projectPath: validatedArgs.projectPath,
+                            });
+                            return await this.executionHistory.queryHistory(validatedArgs);
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            this.logger.error('Failed to query execution history', { error: errorMessage });
+                            throw error;
+                        }
+
+                    case 'katalon_compare_executions':
+                        try {
+                            const validatedArgs = validateCompareExecutionsArgs(request.params.arguments);
+                            this.logger.info('Comparing executions', {
+                                action: validatedArgs.action,
+                                executionId: validatedArgs.executionId,
+                            });
+                            return await this.executionComparison.handle(validatedArgs);
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            this.logger.error('Failed to compare executions', { error: errorMessage });
+                            throw error;
+                        }
+
+                    case 'katalon_export_report':
+                        try {
+                            const validatedArgs = validateExportReportArgs(request.params.arguments);
+                            this.logger.info('Exporting execution reports', {
+                                executionIds: validatedArgs.executionIds,
+                                outputFolder: validatedArgs.outputFolder,
+                            });
+                            return await this.reportExporter.exportReports(validatedArgs);
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            this.logger.error('Failed to export reports', { error: errorMessage });
+                            throw error;
+                        }
+
                     case 'katalon_create_test_case':
                         return await this.projectManager.createTestCase(args);
 
+                    case 'katalon_manage_test_suite':
+                        try {
+                            const validatedArgs = validateManageTestSuiteArgs(request.params.arguments);
+                            this.logger.info('Managing test suite', {
+                                action: validatedArgs.action,
+                                testSuitePath: validatedArgs.testSuitePath,
+                            });
+                            return await this.testSuiteManager.manageTestSuite(validatedArgs);
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            this.logger.error('Failed to manage test suite', { error: errorMessage });
+                            throw error;
+                        }
+
+                    case 'katalon_manage_test_suite_collection':
+                        try {
+                            const validatedArgs = validateManageTestSuiteCollectionArgs(request.params.arguments);
+                            this.logger.info('Managing test suite collection', {
+                                action: validatedArgs.action,
+                                collectionPath: validatedArgs.collectionPath,
+                            });
+                            return await this.testSuiteManager.manageTestSuiteCollection(validatedArgs);
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            this.logger.error('Failed to manage test suite collection', { error: errorMessage });
+                            throw error;
+                        }
+
                     case 'katalon_manage_object_repository':
                         return await this.objectRepository.manageObjects(args);
 
@@ -331,6 +1005,8 @@ class KatalonMCPServer {
                         description: 'Comprehensive library of built-in and custom keywords',
                         mimeType: 'application/json',
                     },
+                    // Full-size screenshots of this session's executions
+                    ...this.testExecutor.listScreenshotResources(),
                 ],
             };
         });
@@ -374,6 +1050,16 @@ class KatalonMCPServer {
                     };
 
                 default:
+                    if (uri.startsWith('katalon://executions/')) {
+                        try {
+                            return { contents: [await this.testExecutor.readScreenshotResource(uri)] };
+                        } catch (error) {
+                            throw new McpError(
+                                ErrorCode.InvalidRequest,
+                                error instanceof Error ? error.message : String(error)
+                            );
+                        }
+                    }
                     throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${uri}`);
             }
         });
@@ -538,6 +1224,12 @@ Would you like help implementing object identification for specific ${elementTyp
         const transport = new StdioServerTransport();
         await this.server.connect(transport);
         console.error('Katalon MCP Server running on stdio');
+
+        // Pick up executions that were still queued when the server last stopped
+        const restored = await this.testExecutor.restoreQueuedExecutions();
+        if (restored.length > 0) {
+            this.logger.info('Restored queued executions', { executionIds: restored });
+        }
     }
 }
 
@@ -0,0 +1,115 @@
+/**
+ * 📈 ExecutionProgress Interface
+ * A snapshot of how far a running test suite has got
+ * Like the progress bar on a file download, but counted in test cases
+ */
+export interface ExecutionProgress {
+  completed: number; // Test cases that have finished (any outcome)
+  failed: number; // Finished test cases that FAILED or hit an ERROR
+  total?: number; // Test cases in the suite, when known up front
+  currentTestCase?: string; // Test case that is running right now
+  message: string; // Human-readable summary, e.g. "12/40 test cases done, 2 failed"
+}
+
+/**
+ * 📣 TestCaseEvent Interface
+ * A single start/finish event recognised in katalonc console output
+ */
+export interface TestCaseEvent {
+  type: 'started' | 'finished';
+  testCaseId: string; // Katalon ID of the test case (e.g. "Test Cases/Login")
+  status?: 'PASSED' | 'FAILED' | 'ERROR'; // Outcome, only set on 'finished'
+}
+
+// Patterns for the lines katalonc prints around every test case
+const START_PATTERN = /\bSTART (Test Cases\/.+?)\s*$/;
+const END_PATTERN = /\bEND (Test Cases\/.+?)\s*$/;
+const FAILURE_PATTERN = /(Test Cases\/.+?) (FAILED|ERROR)\b/;
+
+/**
+ * 📟 Katalon Console Progress Parser
+ *
+ * Turns the raw katalonc stdout stream into test case start/finish events.
+ * Output arrives in arbitrary chunks, so partial lines are buffered until
+ * their newline shows up.
+ */
+export class KatalonConsoleProgressParser {
+  private buffer = '';
+  private completed = 0;
+  private failed = 0;
+  private currentTestCase?: string;
+
+  // Failure status seen for the running test case, applied when it ends
+  private pendingStatus?: 'FAILED' | 'ERROR';
+
+  constructor(
+    private onProgress: (progress: ExecutionProgress, event: TestCaseEvent) => void,
+    private total?: number
+  ) {}
+
+  /**
+   * Feed a chunk of console output into the parser
+   */
+  write(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+    lines.forEach(line => this.parseLine(line));
+  }
+
+  /**
+   * Process whatever is left in the buffer once the stream has ended
+   */
+  flush(): void {
+    if (this.buffer) {
+      this.parseLine(this.buffer);
+      this.buffer = '';
+    }
+  }
+
+  /**
+   * Current progress, whether or not any events have been seen yet
+   */
+  getProgress(): ExecutionProgress {
+    const done = this.total ? `${this.completed}/${this.total}` : `${this.completed}`;
+    return {
+      completed: this.completed,
+      failed: this.failed,
+      total: this.total,
+      currentTestCase: this.currentTestCase,
+      message: `${done} test cases done, ${this.failed} failed`,
+    };
+  }
+
+  private parseLine(line: string): void {
+    const startMatch = START_PATTERN.exec(line);
+    if (startMatch) {
+      this.currentTestCase = startMatch[1];
+      this.pendingStatus = undefined;
+      this.emit({ type: 'started', testCaseId: startMatch[1] });
+      return;
+    }
+
+    const endMatch = END_PATTERN.exec(line);
+    if (endMatch) {
+      const status = this.pendingStatus ?? 'PASSED';
+      this.completed++;
+      if (status !== 'PASSED') {
+        this.failed++;
+      }
+      this.currentTestCase = undefined;
+      this.pendingStatus = undefined;
+      this.emit({ type: 'finished', testCaseId: endMatch[1], status });
+      return;
+    }
+
+    const failureMatch = FAILURE_PATTERN.exec(line);
+    if (failureMatch && failureMatch[1] === this.currentTestCase) {
+      this.pendingStatus = failureMatch[2] as 'FAILED' | 'ERROR';
+    }
+  }
+
+  private emit(event: TestCaseEvent): void {
+    this.onProgress(this.getProgress(), event);
+  }
+}
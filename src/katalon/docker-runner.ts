@@ -0,0 +1,184 @@
+// Import necessary libraries for running katalonc inside a container
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import { spawn, ChildProcess } from 'child_process'; // Run the docker CLI
+import { KatalonInvocation, KatalonRunner } from './execution-runner';
+
+/**
+ * 📦 ContainerSpec Interface
+ * One container to start, described independently of the container engine
+ */
+export interface ContainerSpec {
+  name: string; // Container name, used to stop it again
+  image: string; // Image to run (e.g. "katalonstudio/katalon")
+  mounts: { hostPath: string; containerPath: string }[]; // Folders shared with the container
+  env: string[]; // Host environment variables passed in by name, so their values stay off the command line
+  command: string[]; // Command and arguments to run inside the container
+}
+
+/**
+ * 🐳 ContainerRunner Interface
+ * The small slice of a container engine the Docker runner needs
+ * Swapped for a fake in tests, so no Docker daemon is required there
+ */
+export interface ContainerRunner {
+  run(
+    spec: ContainerSpec,
+    onOutput: (chunk: string, stream: 'stdout' | 'stderr') => void
+  ): Promise<number>;
+  stop(name: string, gracePeriodMs: number): Promise<void>;
+  describe(spec: ContainerSpec): string[];
+}
+
+// Where the project and the report folder appear inside the container
+const CONTAINER_PROJECT_PATH = '/tmp/project';
+const CONTAINER_REPORT_PATH = '/tmp/report';
+
+/**
+ * 🖥️ Docker CLI Container Runner Class
+ *
+ * Starts containers with the `docker` command line tool.
+ */
+export class DockerCliContainerRunner implements ContainerRunner {
+  private clients: Map<string, ChildProcess> = new Map();
+
+  run(
+    spec: ContainerSpec,
+    onOutput: (chunk: string, stream: 'stdout' | 'stderr') => void
+  ): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const [command, ...args] = this.describe(spec);
+      const client = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      this.clients.set(spec.name, client);
+
+      client.stdout?.on('data', data => onOutput(data.toString(), 'stdout'));
+      client.stderr?.on('data', data => onOutput(data.toString(), 'stderr'));
+      client.on('close', code => {
+        this.clients.delete(spec.name);
+        resolve(code ?? 1);
+      });
+      client.on('error', error => {
+        this.clients.delete(spec.name);
+        reject(error);
+      });
+    });
+  }
+
+  async stop(name: string, gracePeriodMs: number): Promise<void> {
+    // `docker stop` sends SIGTERM inside the container, then SIGKILL after the timeout
+    await new Promise<void>(resolve => {
+      const stopper = spawn(
+        'docker',
+        ['stop', '-t', String(Math.ceil(gracePeriodMs / 1000)), name],
+        { stdio: 'ignore' }
+      );
+      stopper.on('close', () => resolve());
+      stopper.on('error', () => resolve());
+    });
+
+    // The container is gone; make sure the attached CLI goes with it
+    this.clients.get(name)?.kill();
+  }
+
+  describe(spec: ContainerSpec): string[] {
+    return [
+      'docker',
+      'run',
+      '--rm',
+      '--name',
+      spec.name,
+      ...spec.mounts.flatMap(mount => ['-v', `${mount.hostPath}:${mount.containerPath}`]),
+      // `-e NAME` copies the value from the docker CLI's own environment
+      ...spec.env.flatMap(name => ['-e', name]),
+      spec.image,
+      ...spec.command,
+    ];
+  }
+}
+
+/**
+ * 🐋 Katalon Docker Runner Class
+ *
+ * Runs the suite in a Katalon Runtime Engine container, for machines (such as
+ * Linux CI agents) without a local Katalon install. The project and the report
+ * folder are mounted into the container, so reports land where the executor
+ * expects them.
+ */
+export class KatalonDockerRunner implements KatalonRunner {
+  readonly name = 'docker' as const;
+  private running = new Set<string>();
+
+  constructor(
+    private containers: ContainerRunner = new DockerCliContainerRunner(),
+    private image: string = 'katalonstudio/katalon'
+  ) {}
+
+  async run(invocation: KatalonInvocation): Promise<{ exitCode: number; output: string }> {
+    // Create the report folder up front so the engine doesn't create it owned by root
+    await fs.ensureDir(invocation.reportFolder);
+
+    let output = '';
+    this.running.add(invocation.executionId);
+    try {
+      const exitCode = await this.containers.run(
+        this.toContainerSpec(invocation),
+        (chunk, stream) => {
+          output += chunk;
+          invocation.onOutput(chunk, stream);
+        }
+      );
+      return { exitCode, output };
+    } finally {
+      this.running.delete(invocation.executionId);
+    }
+  }
+
+  async stop(executionId: string, gracePeriodMs: number): Promise<boolean> {
+    if (!this.running.has(executionId)) {
+      return false;
+    }
+    await this.containers.stop(this.getContainerName(executionId), gracePeriodMs);
+    return true;
+  }
+
+  describe(invocation: Omit<KatalonInvocation, 'onOutput'>): string[] {
+    return this.containers.describe(this.toContainerSpec(invocation));
+  }
+
+  getRunning(): string[] {
+    return Array.from(this.running);
+  }
+
+  private toContainerSpec(invocation: Omit<KatalonInvocation, 'onOutput'>): ContainerSpec {
+    // Point the path arguments at the mounted folders
+    const args = invocation.args.map((arg, index) => {
+      const flag = invocation.args[index - 1];
+      if (flag === '-projectPath') {
+        return CONTAINER_PROJECT_PATH;
+      }
+      if (flag === '-reportFolder') {
+        return CONTAINER_REPORT_PATH;
+      }
+      return arg;
+    });
+
+    return {
+      name: this.getContainerName(invocation.executionId),
+      image: this.image,
+      mounts: [
+        { hostPath: invocation.projectPath, containerPath: CONTAINER_PROJECT_PATH },
+        { hostPath: invocation.reportFolder, containerPath: CONTAINER_REPORT_PATH },
+      ],
+      // The image has no license of its own. The key goes in as KATALON_API_KEY, and a
+      // shell inside the container adds the -apiKey argument, so it never appears on
+      // this machine's command lines
+      env: process.env.KATALON_API_KEY ? ['KATALON_API_KEY'] : [],
+      command: process.env.KATALON_API_KEY
+        ? ['sh', '-c', 'exec katalonc.sh "$@" -apiKey="$KATALON_API_KEY"', 'katalonc.sh', ...args]
+        : ['katalonc.sh', ...args],
+    };
+  }
+
+  private getContainerName(executionId: string): string {
+    return `katalon-mcp-${executionId}`;
+  }
+}
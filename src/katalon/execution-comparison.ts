@@ -0,0 +1,360 @@
+// Import necessary libraries for comparing executions and storing baselines
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+import type { ExecutionRecord } from './execution-history'; // Recorded runs
+import type { KatalonTestExecutor, TestResult } from './test-executor';
+
+/**
+ * 🔀 TestCaseChange Interface
+ * One test case as it looked in each of the two compared runs
+ */
+export interface TestCaseChange {
+  testCaseName: string; // Test case (prefixed with its member suite for collection runs)
+  baseStatus?: TestResult['status']; // Outcome in the base run (missing if it wasn't run)
+  targetStatus?: TestResult['status']; // Outcome in the compared run (missing if it wasn't run)
+  baseError?: string; // Failure message in the base run
+  targetError?: string; // Failure message in the compared run
+}
+
+/**
+ * 🐢 DurationRegression Interface
+ * A test case that got noticeably slower
+ */
+export interface DurationRegression {
+  testCaseName: string; // Test case that slowed down
+  baseDuration: number; // Milliseconds in the base run
+  targetDuration: number; // Milliseconds in the compared run
+  increasePercent: number; // How much slower, in percent of the base duration
+}
+
+/**
+ * ⚖️ ExecutionComparison Interface
+ * What changed between a base run and a later run
+ */
+export interface ExecutionComparison {
+  base: { executionId: string; label: string; startTime: string }; // Run (or baseline) compared against
+  target: { executionId: string; label: string; startTime: string }; // Run being checked
+  newlyFailing: TestCaseChange[]; // Passed (or skipped) before, fail now
+  newlyPassing: TestCaseChange[]; // Failed before, pass now
+  stillFailing: TestCaseChange[]; // Failed in both runs
+  changedErrors: TestCaseChange[]; // Still failing, but with a different message
+  added: TestCaseChange[]; // Only in the compared run
+  removed: TestCaseChange[]; // Only in the base run
+  durationRegressions: DurationRegression[]; // Slower than the threshold allows, slowest first
+}
+
+/**
+ * 🎚️ ComparisonOptions Interface
+ * When a slowdown counts as a regression
+ */
+export interface ComparisonOptions {
+  durationThresholdPercent?: number; // Minimum slowdown in percent (default 50)
+  minDurationIncreaseMs?: number; // Minimum slowdown in milliseconds, to ignore noise (default 1000)
+}
+
+/**
+ * 📌 ExecutionBaseline Interface
+ * A run saved under a name, to compare later runs against
+ * Stored as `.katalon-mcp/baselines/<name>.json` in the project
+ */
+export interface ExecutionBaseline {
+  name: string; // Baseline name (e.g. "release-2.3")
+  savedAt: string; // ISO timestamp of when it was saved
+  record: ExecutionRecord; // The execution, as recorded
+}
+
+/**
+ * 🔍 Katalon Execution Comparison Class
+ *
+ * Answers "did this deployment break anything?" by diffing the test results
+ * of two executions, or of an execution and a saved baseline.
+ */
+export class KatalonExecutionComparison {
+  constructor(private executor: Pick<KatalonTestExecutor, 'findExecutionRecord'>) {}
+
+  /**
+   * 🛠️ Handle a Comparison Tool Call
+   * Compares runs, saves a baseline or lists the saved ones
+   */
+  async handle(args: any): Promise<{ content: any[] }> {
+    let text: string;
+
+    switch (args.action ?? 'compare') {
+      case 'compare': {
+        const target = await this.executor.findExecutionRecord(args.executionId, args.projectPath);
+        let base: ExecutionRecord;
+        let baseLabel: string;
+        if (args.baseExecutionId) {
+          base = await this.executor.findExecutionRecord(args.baseExecutionId, args.projectPath);
+          baseLabel = base.executionId;
+        } else if (args.baseline) {
+          base = (await this.loadBaseline(args.projectPath, args.baseline)).record;
+          baseLabel = `baseline "${args.baseline}"`;
+        } else {
+          throw new Error('Either baseExecutionId or baseline is required to compare');
+        }
+        // Scripted outcomes say nothing about a real run
+        if (this.isSimulated(base) !== this.isSimulated(target)) {
+          throw new Error(
+            `Cannot compare a simulated run with a real one (${baseLabel} and ${target.executionId})`
+          );
+        }
+
+        const comparison = this.compare(base, target, args);
+        comparison.base.label = baseLabel;
+        text = this.formatComparison(comparison);
+        break;
+      }
+      case 'save_baseline': {
+        const record = await this.executor.findExecutionRecord(args.executionId, args.projectPath);
+        const baseline = await this.saveBaseline(args.projectPath, args.baseline, record);
+        text = `📌 Saved ${record.executionId} as baseline "${baseline.name}" (${record.testResults.length} test cases)`;
+        break;
+      }
+      case 'list_baselines':
+        text = this.formatBaselines(await this.listBaselines(args.projectPath));
+        break;
+      default:
+        throw new Error(`Unknown comparison action: ${args.action}`);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Diff the test results of two runs
+   */
+  compare(
+    base: ExecutionRecord,
+    target: ExecutionRecord,
+    options: ComparisonOptions = {}
+  ): ExecutionComparison {
+    const thresholdPercent = options.durationThresholdPercent ?? 50;
+    const minIncreaseMs = options.minDurationIncreaseMs ?? 1000;
+    const baseTests = this.indexTestResults(base);
+    const targetTests = this.indexTestResults(target);
+
+    const comparison: ExecutionComparison = {
+      base: { executionId: base.executionId, label: base.executionId, startTime: base.startTime },
+      target: {
+        executionId: target.executionId,
+        label: target.executionId,
+        startTime: target.startTime,
+      },
+      newlyFailing: [],
+      newlyPassing: [],
+      stillFailing: [],
+      changedErrors: [],
+      added: [],
+      removed: [],
+      durationRegressions: [],
+    };
+
+    for (const [testCaseName, after] of targetTests) {
+      const before = baseTests.get(testCaseName);
+      const change: TestCaseChange = {
+        testCaseName,
+        baseStatus: before?.status,
+        targetStatus: after.status,
+        baseError: before?.errorMessage,
+        targetError: after.errorMessage,
+      };
+
+      if (!before) {
+        comparison.added.push(change);
+        continue;
+      }
+
+      const failedBefore = this.isFailure(before);
+      const failedAfter = this.isFailure(after);
+      if (failedAfter && !failedBefore) {
+        comparison.newlyFailing.push(change);
+      } else if (failedBefore && after.status === 'PASSED') {
+        comparison.newlyPassing.push(change);
+      } else if (failedBefore && failedAfter) {
+        comparison.stillFailing.push(change);
+        if ((before.errorMessage ?? '') !== (after.errorMessage ?? '')) {
+          comparison.changedErrors.push(change);
+        }
+      }
+
+      // Only compare durations of runs that went all the way through
+      if (before.status === 'PASSED' && after.status === 'PASSED' && before.duration > 0) {
+        const increase = after.duration - before.duration;
+        const increasePercent = (increase / before.duration) * 100;
+        if (increase >= minIncreaseMs && increasePercent >= thresholdPercent) {
+          comparison.durationRegressions.push({
+            testCaseName,
+            baseDuration: before.duration,
+            targetDuration: after.duration,
+            increasePercent: Math.round(increasePercent),
+          });
+        }
+      }
+    }
+
+    for (const [testCaseName, before] of baseTests) {
+      if (!targetTests.has(testCaseName)) {
+        comparison.removed.push({
+          testCaseName,
+          baseStatus: before.status,
+          baseError: before.errorMessage,
+        });
+      }
+    }
+
+    comparison.durationRegressions.sort((a, b) => b.increasePercent - a.increasePercent);
+    return comparison;
+  }
+
+  /**
+   * Save an execution under a name to compare later runs against
+   */
+  async saveBaseline(
+    projectPath: string,
+    name: string | undefined,
+    record: ExecutionRecord
+  ): Promise<ExecutionBaseline> {
+    if (!name || !/^[\w.-]+$/.test(name)) {
+      throw new Error(
+        'A baseline name made of letters, digits, ".", "-" and "_" is required to save a baseline'
+      );
+    }
+    if (this.isSimulated(record)) {
+      throw new Error(`Execution ${record.executionId} was simulated and cannot be a baseline`);
+    }
+
+    const baseline: ExecutionBaseline = { name, savedAt: new Date().toISOString(), record };
+    await fs.outputFile(this.getBaselinePath(projectPath, name), JSON.stringify(baseline, null, 2));
+    return baseline;
+  }
+
+  /**
+   * Load a saved baseline
+   */
+  async loadBaseline(projectPath: string, name: string): Promise<ExecutionBaseline> {
+    const baselinePath = this.getBaselinePath(projectPath, name);
+    if (!/^[\w.-]+$/.test(name) || !(await fs.pathExists(baselinePath))) {
+      throw new Error(`Baseline not found: ${name}`);
+    }
+    return JSON.parse(await fs.readFile(baselinePath, 'utf-8'));
+  }
+
+  /**
+   * Every saved baseline of a project, newest first
+   */
+  async listBaselines(projectPath: string): Promise<ExecutionBaseline[]> {
+    const folder = path.join(projectPath, '.katalon-mcp', 'baselines');
+    const files = (await fs.readdir(folder).catch(() => [] as string[])).filter(file =>
+      file.endsWith('.json')
+    );
+
+    const baselines: ExecutionBaseline[] = [];
+    for (const file of files) {
+      try {
+        baselines.push(JSON.parse(await fs.readFile(path.join(folder, file), 'utf-8')));
+      } catch {
+        // Skip baselines that can't be read
+      }
+    }
+    return baselines.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  private indexTestResults(record: ExecutionRecord): Map<string, TestResult> {
+    // Collections can run the same test case in several member suites
+    return new Map(
+      record.testResults.map(test => [
+        test.testSuiteId ? `${test.testSuiteId} › ${test.testCaseName}` : test.testCaseName,
+        test,
+      ])
+    );
+  }
+
+  private isFailure(test: TestResult): boolean {
+    return test.status === 'FAILED' || test.status === 'ERROR';
+  }
+
+  private getBaselinePath(projectPath: string, name: string): string {
+    return path.join(projectPath, '.katalon-mcp', 'baselines', `${name}.json`);
+  }
+
+  private formatComparison(comparison: ExecutionComparison): string {
+    const verdict =
+      comparison.newlyFailing.length > 0
+        ? `❌ ${comparison.newlyFailing.length} newly failing test case(s)`
+        : '✅ No new failures';
+
+    const section = (
+      title: string,
+      changes: TestCaseChange[],
+      describe: (c: TestCaseChange) => string
+    ) =>
+      changes.length
+        ? `\n## ${title} (${changes.length})\n${changes.map(c => `- **${c.testCaseName}**${describe(c)}`).join('\n')}\n`
+        : '';
+    const error = (message?: string) => (message ? `: ${message}` : '');
+
+    return `# Katalon Execution Comparison
+
+## Summary
+- **Verdict**: ${verdict}
+- **Base**: ${comparison.base.label} (${comparison.base.startTime})
+- **Compared**: ${comparison.target.label} (${comparison.target.startTime})
+- **Newly Failing**: ${comparison.newlyFailing.length}
+- **Newly Passing**: ${comparison.newlyPassing.length}
+- **Still Failing**: ${comparison.stillFailing.length} (${comparison.changedErrors.length} with a changed error)
+- **Added / Removed**: ${comparison.added.length} / ${comparison.removed.length}
+- **Duration Regressions**: ${comparison.durationRegressions.length}
+${section('🔴 Newly Failing', comparison.newlyFailing, c => ` (was ${c.baseStatus})${error(c.targetError)}`)}${section(
+      '🟢 Newly Passing',
+      comparison.newlyPassing,
+      () => ''
+    )}${section('🟠 Still Failing', comparison.stillFailing, c => error(c.targetError))}${section(
+      '✏️ Changed Errors',
+      comparison.changedErrors,
+      c =>
+        `\n  - Before: ${c.baseError ?? '(no message)'}\n  - Now: ${c.targetError ?? '(no message)'}`
+    )}${section('➕ Added', comparison.added, c => ` (${c.targetStatus})`)}${section(
+      '➖ Removed',
+      comparison.removed,
+      c => ` (was ${c.baseStatus})`
+    )}${
+      comparison.durationRegressions.length
+        ? `\n## 🐢 Duration Regressions (${comparison.durationRegressions.length})\n${comparison.durationRegressions
+            .map(
+              r =>
+                `- **${r.testCaseName}**: ${(r.baseDuration / 1000).toFixed(2)}s → ${(r.targetDuration / 1000).toFixed(2)}s (+${r.increasePercent}%)`
+            )
+            .join('\n')}\n`
+        : ''
+    }`;
+  }
+
+  private isSimulated(record: ExecutionRecord): boolean {
+    return (record.runner ?? record.options?.runner) === 'simulated';
+  }
+
+  private formatBaselines(baselines: ExecutionBaseline[]): string {
+    if (baselines.length === 0) {
+      return `# Saved Baselines
+
+No baselines saved yet. Use the \`save_baseline\` action with an executionId and a baseline name.`;
+    }
+
+    return `# Saved Baselines
+
+${baselines
+  .map(
+    baseline =>
+      `- **${baseline.name}**: ${baseline.record.executionId} (${baseline.record.testSuitePath}, ${baseline.record.status}), saved ${baseline.savedAt}`
+  )
+  .join('\n')}`;
+  }
+}
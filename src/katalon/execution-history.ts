@@ -0,0 +1,288 @@
+// Import necessary libraries for storing execution records on disk
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+import { createHash } from 'crypto'; // Fingerprint project contents
+import { glob } from 'glob'; // Find project files using patterns
+import type { RunnerName } from './execution-runner';
+import type { ExecutionOptions, SuiteResult, TestResult } from './test-executor';
+
+/**
+ * 🗄️ ExecutionRecord Interface
+ * Everything we keep about one finished execution, as stored on disk
+ * Like a logbook entry - written once, read back whenever history is needed
+ */
+export interface ExecutionRecord {
+  executionId: string; // Unique identifier for the test run
+  status: 'PASSED' | 'FAILED' | 'CANCELLED'; // Overall outcome of the run
+  testSuitePath: string; // Which test suite (or collection) was run
+  browser?: string; // Browser the run used
+  executionProfile?: string; // Execution profile the run used
+  runner?: RunnerName; // Backend that ran it; "simulated" runs have scripted outcomes
+  options: ExecutionOptions; // Settings the run was started with (on disk without global variable values)
+  globalVariableNames?: string[]; // Global variables the run overrode; their values can be secrets and are not stored
+  success: boolean; // Did katalonc exit cleanly?
+  exitCode: number; // katalonc exit code
+  startTime: string; // ISO timestamp of when the run started
+  endTime: string; // ISO timestamp of when the run finished
+  duration: number; // How long it took (in milliseconds)
+  testResults: TestResult[]; // Results of individual test cases
+  suiteResults?: SuiteResult[]; // Collection runs: results grouped by member suite
+  reportPath?: string; // Where the report folder was saved
+  logPath?: string; // Where the log file was saved
+  screenshots?: string[]; // Paths to any screenshots taken
+  rerunOf?: string; // Execution whose failed test cases this run repeated
+  projectFingerprint?: string; // Hash of the project's test assets when the run started
+}
+
+// Project folders whose contents change what a test run actually does
+const FINGERPRINT_FOLDERS = [
+  'Test Cases',
+  'Scripts',
+  'Test Suites',
+  'Object Repository',
+  'Keywords',
+  'Profiles',
+  'Data Files',
+  'Include',
+];
+
+/**
+ * 🔎 HistoryFilter Interface
+ * Criteria for narrowing down recorded executions
+ */
+export interface HistoryFilter {
+  testSuitePath?: string; // Part of the test suite path (case-insensitive)
+  from?: Date; // Only runs that started at or after this time
+  to?: Date; // Only runs that started at or before this time
+  status?: ExecutionRecord['status']; // Only runs with this overall outcome
+  browser?: string; // Only runs on this browser (case-insensitive)
+  executionProfile?: string; // Only runs with this profile
+  testCaseName?: string; // Only runs that include this test case (part of its name)
+  testCaseStatus?: TestResult['status']; // ...with this outcome for that test case
+  includeSimulated?: boolean; // Also return simulated runs (left out by default)
+  limit?: number; // Maximum number of records to return (newest first)
+}
+
+/**
+ * 📚 Katalon Execution History Class
+ *
+ * Keeps a record of every execution inside the project itself, so results
+ * outlive the server process and can be queried later.
+ * Each execution is one JSON file under `.katalon-mcp/history`.
+ */
+export class KatalonExecutionHistory {
+  /**
+   * Save a finished execution to the project's history
+   */
+  async record(record: ExecutionRecord): Promise<void> {
+    const recordPath = this.getRecordPath(record.options.projectPath, record.executionId);
+    await fs.outputFile(recordPath, JSON.stringify(this.toStored(record), null, 2));
+  }
+
+  /**
+   * 🧬 Fingerprint the Project
+   * Hashes the path, size and modification time of every test asset, so two
+   * runs with the same fingerprint ran against an unchanged project
+   */
+  async computeProjectFingerprint(projectPath: string): Promise<string> {
+    const hash = createHash('sha1');
+
+    for (const folder of FINGERPRINT_FOLDERS) {
+      const folderPath = path.join(projectPath, folder);
+      if (!(await fs.pathExists(folderPath))) {
+        continue;
+      }
+
+      // Temporary rerun suites come and go without changing the project
+      const files = (await glob('**/*', { cwd: folderPath, nodir: true, ignore: 'MCP Reruns/**' }))
+        .map(file => file.split(path.sep).join('/'))
+        .sort();
+      for (const file of files) {
+        const stats = await fs.stat(path.join(folderPath, file));
+        hash.update(`${folder}/${file}:${stats.size}:${stats.mtimeMs}\n`);
+      }
+    }
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * Load a single recorded execution, if it exists
+   */
+  async getRecord(projectPath: string, executionId: string): Promise<ExecutionRecord | undefined> {
+    const recordPath = this.getRecordPath(projectPath, executionId);
+    if (!(await fs.pathExists(recordPath))) {
+      return undefined;
+    }
+    return JSON.parse(await fs.readFile(recordPath, 'utf-8'));
+  }
+
+  /**
+   * Find recorded executions matching the filter, newest first
+   *
+   * Simulated runs are left out unless asked for: their outcomes are scripted,
+   * so they must not count towards flakiness, coverage or trends.
+   */
+  async query(projectPath: string, filter: HistoryFilter = {}): Promise<ExecutionRecord[]> {
+    const historyPath = this.getHistoryPath(projectPath);
+    const files = (await fs.readdir(historyPath).catch(() => [] as string[])).filter(file =>
+      file.endsWith('.json')
+    );
+
+    const records: ExecutionRecord[] = [];
+    for (const file of files) {
+      try {
+        records.push(JSON.parse(await fs.readFile(path.join(historyPath, file), 'utf-8')));
+      } catch {
+        // Skip records that can't be read
+      }
+    }
+
+    const matching = records
+      .filter(record => this.matches(record, filter))
+      .sort((a, b) => b.startTime.localeCompare(a.startTime));
+
+    return filter.limit ? matching.slice(0, filter.limit) : matching;
+  }
+
+  /**
+   * 🔍 Query History as an MCP Response
+   * Formats matching executions as markdown for the agent to read
+   */
+  async queryHistory(args: any): Promise<{ content: any[] }> {
+    const filter: HistoryFilter = {
+      testSuitePath: args.testSuitePath,
+      from: args.from ? this.parseDate(args.from, 'from') : undefined,
+      to: args.to ? this.parseDate(args.to, 'to') : undefined,
+      status: args.status,
+      browser: args.browser,
+      executionProfile: args.executionProfile,
+      testCaseName: args.testCaseName,
+      testCaseStatus: args.testCaseStatus,
+      includeSimulated: args.includeSimulated,
+      limit: args.limit,
+    };
+
+    const records = await this.query(args.projectPath, filter);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: this.formatHistory(records, filter),
+        },
+      ],
+    };
+  }
+
+  private matches(record: ExecutionRecord, filter: HistoryFilter): boolean {
+    const startTime = new Date(record.startTime);
+
+    if (!filter.includeSimulated && this.isSimulated(record)) {
+      return false;
+    }
+    if (
+      filter.testSuitePath &&
+      !record.testSuitePath.toLowerCase().includes(filter.testSuitePath.toLowerCase())
+    ) {
+      return false;
+    }
+    if (filter.from && startTime < filter.from) {
+      return false;
+    }
+    if (filter.to && startTime > filter.to) {
+      return false;
+    }
+    if (filter.status && record.status !== filter.status) {
+      return false;
+    }
+    if (filter.browser && record.browser?.toLowerCase() !== filter.browser.toLowerCase()) {
+      return false;
+    }
+    if (filter.executionProfile && record.executionProfile !== filter.executionProfile) {
+      return false;
+    }
+    if (filter.testCaseName || filter.testCaseStatus) {
+      return this.getMatchingTestResults(record, filter).length > 0;
+    }
+    return true;
+  }
+
+  /**
+   * Was this execution made up by the simulated runner rather than run by katalonc?
+   */
+  isSimulated(record: ExecutionRecord): boolean {
+    return (record.runner ?? record.options?.runner) === 'simulated';
+  }
+
+  private getMatchingTestResults(record: ExecutionRecord, filter: HistoryFilter): TestResult[] {
+    return record.testResults.filter(
+      test =>
+        (!filter.testCaseName ||
+          test.testCaseName.toLowerCase().includes(filter.testCaseName.toLowerCase())) &&
+        (!filter.testCaseStatus || test.status === filter.testCaseStatus)
+    );
+  }
+
+  private parseDate(value: string, name: string): Date {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid ${name} date: ${value}`);
+    }
+    return date;
+  }
+
+  private formatHistory(records: ExecutionRecord[], filter: HistoryFilter): string {
+    if (records.length === 0) {
+      return `# Katalon Execution History
+
+No recorded executions match the given filters.`;
+    }
+
+    return `# Katalon Execution History
+
+- **Matching Executions**: ${records.length}
+- **Latest**: ${records[0].startTime}
+- **Oldest**: ${records[records.length - 1].startTime}
+
+${records
+  .map(record => {
+    const passed = record.testResults.filter(t => t.status === 'PASSED').length;
+    const testCases =
+      filter.testCaseName || filter.testCaseStatus
+        ? this.getMatchingTestResults(record, filter)
+            .map(test => `  - ${test.testCaseName}: ${test.status}`)
+            .join('\n')
+        : '';
+    return `### ${record.executionId}
+- **Status**: ${record.status}
+- **Test Suite**: ${record.testSuitePath}
+- **Browser**: ${record.browser ?? 'n/a'} | **Profile**: ${record.executionProfile ?? 'n/a'}${this.isSimulated(record) ? ' | **Simulated**' : ''}
+- **Started**: ${record.startTime}
+- **Duration**: ${(record.duration / 1000).toFixed(2)} seconds
+- **Tests**: ${passed}/${record.testResults.length} passed
+${record.reportPath ? `- **Report Path**: ${record.reportPath}\n` : ''}${testCases}`;
+  })
+  .join('\n\n')}`;
+  }
+
+  private toStored(record: ExecutionRecord): ExecutionRecord {
+    // The history folder lives in the project and is often committed
+    const { globalVariables, ...options } = record.options;
+    return globalVariables
+      ? { ...record, options, globalVariableNames: Object.keys(globalVariables) }
+      : record;
+  }
+
+  private getHistoryPath(projectPath: string): string {
+    return path.join(projectPath, '.katalon-mcp', 'history');
+  }
+
+  private getRecordPath(projectPath: string, executionId: string): string {
+    // IDs come from tool calls; "../" in one must not reach files outside the history folder
+    if (!/^[\w.-]+$/.test(executionId)) {
+      throw new Error(`Invalid execution ID: ${executionId}`);
+    }
+    return path.join(this.getHistoryPath(projectPath), `${executionId}.json`);
+  }
+}
@@ -0,0 +1,270 @@
+// Import necessary libraries for queueing executions and persisting the queue
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import { createModuleLogger } from '../utils/logger';
+import type { ExecutionOptions } from './test-executor';
+
+/**
+ * 🚥 ExecutionPriority Type
+ * Which queued executions go first when a slot frees up
+ */
+export type ExecutionPriority = 'high' | 'normal' | 'low';
+
+/**
+ * 🎟️ QueueEntry Interface
+ * One execution waiting for, or holding, a slot on this machine
+ */
+export interface QueueEntry {
+  executionId: string; // Execution the slot is for
+  projectPath: string; // Project the execution belongs to
+  priority: ExecutionPriority; // Higher priorities are started first
+  enqueuedAt: string; // ISO timestamp of when the execution joined the queue
+  state: 'waiting' | 'running'; // Still waiting, or holding a slot
+  projectLimit?: number; // Most executions of this project allowed at once
+  options: ExecutionOptions; // Settings needed to start the execution again after a restart
+}
+
+/**
+ * 💾 PersistedQueueEntry Type
+ * A queue entry as the queue file keeps it: global variable overrides can be
+ * secrets, so only their names are written, and remote WebDriver URLs and
+ * capabilities often carry Grid or cloud credentials, so they are left out
+ * (`env` already holds only the names of environment variables, read again
+ * when the run starts)
+ */
+type PersistedQueueEntry = Omit<QueueEntry, 'options'> & {
+  options: Omit<ExecutionOptions, 'globalVariables' | 'remoteWebDriver'> & {
+    globalVariableNames?: string[];
+    usesRemoteWebDriver?: boolean;
+  };
+};
+
+/**
+ * ⚙️ ExecutionQueueConfig Interface
+ * Machine-wide queue settings, usually taken from the environment
+ */
+export interface ExecutionQueueConfig {
+  maxConcurrent?: number; // Most katalonc processes on this machine at once (default 2)
+  queueFile?: string; // Where to persist the queue; not persisted when omitted
+}
+
+// Order in which priorities are served
+const PRIORITY_RANK: Record<ExecutionPriority, number> = { high: 0, normal: 1, low: 2 };
+
+/**
+ * 🚦 Katalon Execution Queue Class
+ *
+ * Hands out execution slots so concurrent callers don't start unbounded
+ * katalonc processes that fight over browser drivers and licenses.
+ * Slots are limited per machine and, optionally, per project; waiting
+ * executions are served by priority, then in arrival order. An execution
+ * blocked by its project's limit does not hold up other projects.
+ */
+export class KatalonExecutionQueue {
+  private logger = createModuleLogger('KatalonExecutionQueue');
+  private entries: QueueEntry[] = [];
+  private waiters = new Map<string, (acquired: boolean) => void>();
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private config: ExecutionQueueConfig = {}) {}
+
+  get maxConcurrent(): number {
+    return this.config.maxConcurrent ?? 2;
+  }
+
+  /**
+   * Wait for a slot
+   *
+   * @returns true once the execution may start, or false if it was removed from the queue first
+   */
+  acquire(
+    entry: Omit<QueueEntry, 'state' | 'enqueuedAt'> & { enqueuedAt?: string }
+  ): Promise<boolean> {
+    const queued = new Promise<boolean>(resolve => this.waiters.set(entry.executionId, resolve));
+    this.entries.push({
+      ...entry,
+      enqueuedAt: entry.enqueuedAt ?? new Date().toISOString(),
+      state: 'waiting',
+    });
+    this.schedule();
+    return queued;
+  }
+
+  /**
+   * Give a slot back once its execution has finished
+   */
+  release(executionId: string): void {
+    this.entries = this.entries.filter(entry => entry.executionId !== executionId);
+    this.schedule();
+  }
+
+  /**
+   * Take a waiting execution out of the queue
+   *
+   * @returns true if the execution was waiting and has been removed
+   */
+  cancel(executionId: string): boolean {
+    const entry = this.entries.find(e => e.executionId === executionId);
+    if (!entry || entry.state !== 'waiting') {
+      return false;
+    }
+
+    this.entries = this.entries.filter(e => e !== entry);
+    this.waiters.get(executionId)?.(false);
+    this.waiters.delete(executionId);
+    this.schedule();
+    return true;
+  }
+
+  /**
+   * Running executions and the waiting ones in the order they will start
+   */
+  snapshot(): { running: QueueEntry[]; waiting: QueueEntry[] } {
+    return {
+      running: this.entries.filter(entry => entry.state === 'running'),
+      waiting: this.sortWaiting(this.entries.filter(entry => entry.state === 'waiting')),
+    };
+  }
+
+  /**
+   * Position of a waiting execution (1 = next in line), if it is waiting
+   */
+  getPosition(executionId: string): number | undefined {
+    const index = this.snapshot().waiting.findIndex(entry => entry.executionId === executionId);
+    return index >= 0 ? index + 1 : undefined;
+  }
+
+  /**
+   * Read the queue a previous server process left behind
+   *
+   * Waiting executions are returned so they can be queued again. Executions
+   * that were running when the server stopped died with it and are only logged,
+   * and so are waiting ones whose global variable values or remote WebDriver
+   * settings were not saved.
+   */
+  async loadPersisted(): Promise<QueueEntry[]> {
+    if (!this.config.queueFile || !(await fs.pathExists(this.config.queueFile))) {
+      return [];
+    }
+
+    let persisted: PersistedQueueEntry[];
+    try {
+      persisted = JSON.parse(await fs.readFile(this.config.queueFile, 'utf-8')).entries ?? [];
+    } catch (error) {
+      this.logger.warn('Ignoring unreadable execution queue file', {
+        queueFile: this.config.queueFile,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+
+    persisted
+      .filter(entry => entry.state === 'running')
+      .forEach(entry =>
+        this.logger.warn('Execution was interrupted by a server restart', {
+          executionId: entry.executionId,
+        })
+      );
+
+    const restorable: QueueEntry[] = [];
+    for (const entry of persisted.filter(entry => entry.state === 'waiting')) {
+      const { globalVariableNames, usesRemoteWebDriver, ...options } = entry.options;
+      if (globalVariableNames?.length) {
+        this.logger.warn(
+          'Not restoring queued execution: its global variable values were not saved',
+          {
+            executionId: entry.executionId,
+            globalVariables: globalVariableNames,
+          }
+        );
+        continue;
+      }
+      if (usesRemoteWebDriver) {
+        this.logger.warn(
+          'Not restoring queued execution: its remote WebDriver settings were not saved',
+          { executionId: entry.executionId }
+        );
+        continue;
+      }
+      restorable.push({ ...entry, options });
+    }
+    return this.sortWaiting(restorable);
+  }
+
+  private schedule(): void {
+    const running = this.entries.filter(entry => entry.state === 'running');
+
+    for (const entry of this.sortWaiting(this.entries.filter(e => e.state === 'waiting'))) {
+      if (running.length >= this.maxConcurrent) {
+        break;
+      }
+
+      const runningInProject = running.filter(r => r.projectPath === entry.projectPath).length;
+      if (entry.projectLimit !== undefined && runningInProject >= entry.projectLimit) {
+        continue;
+      }
+
+      entry.state = 'running';
+      running.push(entry);
+      this.waiters.get(entry.executionId)?.(true);
+      this.waiters.delete(entry.executionId);
+    }
+
+    this.persist();
+  }
+
+  private sortWaiting(entries: QueueEntry[]): QueueEntry[] {
+    // Array.prototype.sort is stable, so equal entries keep their arrival order
+    return [...entries].sort(
+      (a, b) =>
+        PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+        a.enqueuedAt.localeCompare(b.enqueuedAt)
+    );
+  }
+
+  private persist(): void {
+    const queueFile = this.config.queueFile;
+    if (!queueFile) {
+      return;
+    }
+
+    // Serialize writes so an older snapshot never overwrites a newer one
+    const snapshot = JSON.stringify(
+      { entries: this.entries.map(entry => this.toPersisted(entry)) },
+      null,
+      2
+    );
+    this.writeChain = this.writeChain
+      .then(async () => {
+        const tempFile = `${queueFile}.${process.pid}.tmp`;
+        // Readable by the server's own user only
+        await fs.outputFile(tempFile, snapshot, { mode: 0o600 });
+        await fs.chmod(tempFile, 0o600);
+        await fs.move(tempFile, queueFile, { overwrite: true });
+      })
+      .catch(error =>
+        this.logger.warn('Failed to persist execution queue', {
+          queueFile,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+  }
+
+  private toPersisted(entry: QueueEntry): PersistedQueueEntry {
+    const { globalVariables, remoteWebDriver, ...options } = entry.options;
+    return {
+      ...entry,
+      options: {
+        ...options,
+        ...(globalVariables && { globalVariableNames: Object.keys(globalVariables) }),
+        ...(remoteWebDriver && { usesRemoteWebDriver: true }),
+      },
+    };
+  }
+
+  /**
+   * Resolves once every pending write of the queue file has finished
+   */
+  async flush(): Promise<void> {
+    await this.writeChain;
+  }
+}
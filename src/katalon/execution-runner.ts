@@ -0,0 +1,129 @@
+// Import necessary libraries for running katalonc as a local process
+import { spawn, ChildProcess } from 'child_process'; // Run external programs (Katalon)
+import { terminateProcessTree } from '../utils/process-tree'; // Stop katalonc and its browsers
+
+/**
+ * 🏷️ RunnerName Type
+ * The execution backends a run can be sent to
+ */
+export type RunnerName = 'local' | 'docker' | 'simulated';
+
+/**
+ * 📨 KatalonInvocation Interface
+ * Everything a runner needs to start one katalonc run
+ */
+export interface KatalonInvocation {
+  executionId: string; // Identifies the run, e.g. for stopping it later
+  command: string; // Local katalonc binary (runners with their own binary ignore it)
+  args: string[]; // Arguments built for a local katalonc
+  projectPath: string; // Katalon project on this machine
+  testSuitePath: string; // Suite or collection being run, relative to the project
+  reportFolder: string; // Where the reports must end up on this machine
+  onOutput: (chunk: string, stream: 'stdout' | 'stderr') => void; // Console output as it arrives
+}
+
+/**
+ * 🏃 KatalonRunner Interface
+ * An execution backend: something that can run katalonc and stop it again
+ *
+ * The executor owns everything around a run (validation, queueing, timeouts,
+ * parsing the reports); a runner only has to start the run, stream its output
+ * and leave JUnit reports in the requested report folder.
+ */
+export interface KatalonRunner {
+  readonly name: RunnerName;
+
+  /**
+   * Run katalonc and resolve with its exit code once it has finished
+   */
+  run(invocation: KatalonInvocation): Promise<{ exitCode: number; output: string }>;
+
+  /**
+   * Stop a run, giving it the grace period to shut down cleanly
+   *
+   * @returns true if the run was still going
+   */
+  stop(executionId: string, gracePeriodMs: number): Promise<boolean>;
+
+  /**
+   * The full command line this runner would start, for dry runs
+   */
+  describe(invocation: Omit<KatalonInvocation, 'onOutput'>): string[];
+
+  /**
+   * IDs of the runs currently going
+   */
+  getRunning(): string[];
+}
+
+/**
+ * 💻 Local Katalon Runner Class
+ *
+ * Runs katalonc installed on this machine as a child process.
+ */
+export class LocalKatalonRunner implements KatalonRunner {
+  readonly name = 'local' as const;
+  private runningProcesses: Map<string, ChildProcess> = new Map();
+
+  run(invocation: KatalonInvocation): Promise<{ exitCode: number; output: string }> {
+    const { executionId } = invocation;
+
+    return new Promise((resolve, reject) => {
+      let output = '';
+
+      // No shell: paths and variable values are passed to katalonc exactly as given.
+      // Detached on POSIX so katalonc leads a process group that can be stopped as a whole.
+      const child = spawn(invocation.command, invocation.args, {
+        stdio: ['pipe', 'pipe', 'pipe'],
+        detached: process.platform !== 'win32',
+      });
+
+      this.runningProcesses.set(executionId, child);
+
+      child.stdout?.on('data', data => {
+        const chunk = data.toString();
+        output += chunk;
+        invocation.onOutput(chunk, 'stdout');
+      });
+
+      child.stderr?.on('data', data => {
+        const chunk = data.toString();
+        output += chunk;
+        invocation.onOutput(chunk, 'stderr');
+      });
+
+      child.on('close', (code, signal) => {
+        this.runningProcesses.delete(executionId);
+        resolve({
+          // A process ended by a signal has no exit code, but it certainly did not pass
+          exitCode: code ?? (signal ? 1 : 0),
+          output,
+        });
+      });
+
+      child.on('error', error => {
+        this.runningProcesses.delete(executionId);
+        reject(error);
+      });
+    });
+  }
+
+  async stop(executionId: string, gracePeriodMs: number): Promise<boolean> {
+    const child = this.runningProcesses.get(executionId);
+    if (!child) {
+      return false;
+    }
+
+    // SIGTERM first so katalonc can write its reports, then SIGKILL the whole tree
+    await terminateProcessTree(child, gracePeriodMs);
+    return true;
+  }
+
+  describe(invocation: Omit<KatalonInvocation, 'onOutput'>): string[] {
+    return [invocation.command, ...invocation.args];
+  }
+
+  getRunning(): string[] {
+    return Array.from(this.runningProcesses.keys());
+  }
+}
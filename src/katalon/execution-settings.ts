@@ -0,0 +1,67 @@
+// Import necessary libraries for reading per-project execution settings
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+
+/**
+ * ⚙️ ProjectExecutionSettings Interface
+ * Execution defaults a project can set for every run started through the server
+ * Stored as `.katalon-mcp/settings.json` next to the execution history
+ */
+export interface ProjectExecutionSettings {
+  timeoutMinutes?: number; // Stop runs that take longer than this (default 30)
+  maxConcurrentExecutions?: number; // Most runs of this project at once (default: only the machine limit)
+}
+
+/**
+ * 🗂️ Katalon Execution Settings Class
+ *
+ * Reads the per-project settings file. A missing file means "use the
+ * server's defaults"; a broken one is reported instead of silently ignored,
+ * since a typo there would otherwise change how every run behaves.
+ */
+export class KatalonExecutionSettings {
+  /**
+   * Load a project's execution settings
+   */
+  async load(projectPath: string): Promise<ProjectExecutionSettings> {
+    const settingsPath = this.getSettingsPath(projectPath);
+    if (!(await fs.pathExists(settingsPath))) {
+      return {};
+    }
+
+    let settings: any;
+    try {
+      settings = JSON.parse(await fs.readFile(settingsPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Invalid execution settings in ${settingsPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (
+      settings?.timeoutMinutes !== undefined &&
+      !(typeof settings.timeoutMinutes === 'number' && settings.timeoutMinutes > 0)
+    ) {
+      throw new Error(
+        `Invalid execution settings in ${settingsPath}: timeoutMinutes must be a positive number`
+      );
+    }
+    if (
+      settings?.maxConcurrentExecutions !== undefined &&
+      !(Number.isInteger(settings.maxConcurrentExecutions) && settings.maxConcurrentExecutions > 0)
+    ) {
+      throw new Error(
+        `Invalid execution settings in ${settingsPath}: maxConcurrentExecutions must be a positive whole number`
+      );
+    }
+
+    return {
+      timeoutMinutes: settings?.timeoutMinutes,
+      maxConcurrentExecutions: settings?.maxConcurrentExecutions,
+    };
+  }
+
+  getSettingsPath(projectPath: string): string {
+    return path.join(projectPath, '.katalon-mcp', 'settings.json');
+  }
+}
@@ -0,0 +1,250 @@
+// Import necessary libraries for grouping failures by root cause
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+import { getFailedStep, getTestObjectReference } from './report-parser'; // Step-level results
+import type { TestResult } from './test-executor';
+
+/**
+ * 🏷️ FailureCategory Type
+ * Best guess at what kind of problem a group of failures is
+ */
+export type FailureCategory =
+  | 'locator'
+  | 'timeout'
+  | 'assertion'
+  | 'environment'
+  | 'data'
+  | 'unknown';
+
+/**
+ * 🧬 FailureSignature Interface
+ * The parts of a failure that stay the same when the same problem hits several test cases
+ */
+export interface FailureSignature {
+  exceptionType?: string; // Simple exception class name (e.g. "StepFailedException")
+  object?: string; // Test object the failing step acted on
+  frame?: string; // First stack frame outside Katalon, Selenium and generated test case scripts
+  httpStatus?: number; // HTTP status code mentioned in the failure
+  message: string; // First line of the message with numbers and quoted values blanked out
+}
+
+/**
+ * 🧩 FailureCluster Interface
+ * Failed test cases that share one failure signature
+ */
+export interface FailureCluster {
+  key: string; // Normalized signature the failures were grouped by
+  signature: FailureSignature; // What the failures have in common
+  category: FailureCategory; // Guessed kind of problem
+  testCases: TestResult[]; // Failed test cases in this cluster
+  sampleMessage?: string; // Error message of the first failure, as reported
+  objectPath?: string; // Locator problems: the object's .rs file in the Object Repository
+  objectExists?: boolean; // Whether that file is there (only known after `triage`)
+}
+
+// Packages whose frames say nothing about the project's own code
+const FRAMEWORK_FRAME =
+  /^(com\.kms\.|org\.codehaus\.|groovy\.|java\.|javax\.|jdk\.|sun\.|org\.openqa\.|org\.junit\.|Script\d+)/;
+
+// Checked in order; the first category whose pattern matches wins
+const CATEGORY_PATTERNS: [FailureCategory, RegExp][] = [
+  [
+    'environment',
+    /connection refused|unknownhost|unreachable|econnrefused|sessionnotcreated|no such session|chrome not reachable|browser (has )?(crashed|closed)|webdriverexception|driver executable|out of memory|certificate/i,
+  ],
+  [
+    'locator',
+    /nosuchelement|staleelement|elementnotinteractable|elementclickintercepted|webelementnotfound|unable to (find|locate|click|set|select)|not (present|visible|clickable|found)|cannot find (element|object)/i,
+  ],
+  ['timeout', /timeout|timed out|after waiting/i],
+  [
+    'assertion',
+    /assert|comparisonfailure|verif(y|ication)|expected .* but|are not matched|does not match|not equal/i,
+  ],
+  [
+    'data',
+    /numberformat|nullpointer|indexoutofbounds|missingproperty|no such property|test data|invalid (value|input|data)|duplicate|parse/i,
+  ],
+];
+
+// How each category is shown in reports
+const CATEGORY_LABELS: Record<FailureCategory, string> = {
+  locator: '🎯 Locator broken',
+  timeout: '⏱️ Timeout',
+  assertion: '❗ Assertion',
+  environment: '🌐 Environment',
+  data: '🗃️ Data',
+  unknown: '❓ Unknown',
+};
+
+/**
+ * 🩺 Katalon Failure Triage Class
+ *
+ * Groups failed test cases by a normalized error signature, so thirty failures
+ * caused by one broken button read as one problem, and guesses what kind of
+ * problem each group is. Locator problems point at the object in the Object
+ * Repository that needs fixing.
+ */
+export class KatalonFailureTriage {
+  /**
+   * Group the failed test cases of a run, largest cluster first
+   *
+   * @param projectPath - Used to link locator clusters to their Object Repository file
+   */
+  cluster(testResults: TestResult[], projectPath?: string): FailureCluster[] {
+    const clusters = new Map<string, FailureCluster>();
+
+    for (const test of testResults) {
+      if (test.status !== 'FAILED' && test.status !== 'ERROR') {
+        continue;
+      }
+
+      const signature = this.getSignature(test);
+      const key = [
+        signature.exceptionType,
+        signature.object,
+        signature.frame,
+        signature.httpStatus,
+        // The message only tells failures apart when nothing more specific does
+        signature.exceptionType || signature.object || signature.frame ? '' : signature.message,
+      ].join('|');
+
+      const existing = clusters.get(key);
+      if (existing) {
+        existing.testCases.push(test);
+        continue;
+      }
+
+      const category = this.getCategory(signature, test);
+      clusters.set(key, {
+        key,
+        signature,
+        category,
+        testCases: [test],
+        sampleMessage: test.errorMessage,
+        objectPath:
+          category === 'locator' && signature.object && projectPath
+            ? path.join(projectPath, `${signature.object}.rs`)
+            : undefined,
+      });
+    }
+
+    return [...clusters.values()].sort((a, b) => b.testCases.length - a.testCases.length);
+  }
+
+  /**
+   * Cluster the failures and check that linked objects still exist
+   */
+  async triage(testResults: TestResult[], projectPath: string): Promise<FailureCluster[]> {
+    const clusters = this.cluster(testResults, projectPath);
+    for (const cluster of clusters) {
+      if (cluster.objectPath) {
+        cluster.objectExists = await fs.pathExists(cluster.objectPath);
+      }
+    }
+    return clusters;
+  }
+
+  /**
+   * The normalized signature of one failed test case
+   */
+  getSignature(test: TestResult): FailureSignature {
+    const step = getFailedStep(test.steps);
+    const message = step?.message || test.errorMessage || '';
+    const stackTrace = step?.stackTrace || test.stackTrace || '';
+    const text = `${message}\n${stackTrace}`;
+
+    return {
+      exceptionType: this.getExceptionType(text),
+      object: step?.object ?? getTestObjectReference(message),
+      frame: this.getFrame(stackTrace),
+      httpStatus: this.getHttpStatus(message),
+      message: this.normalizeMessage(message),
+    };
+  }
+
+  /**
+   * Markdown for a list of clusters
+   *
+   * @param heading - Markdown heading level for each cluster (e.g. "###")
+   */
+  formatClusters(clusters: FailureCluster[], heading: string): string {
+    return clusters
+      .map((cluster, index) => {
+        const { signature } = cluster;
+        const lines = [
+          `${heading} ${index + 1}. ${CATEGORY_LABELS[cluster.category]} - ${cluster.testCases.length} test case(s)`,
+        ];
+        if (signature.exceptionType) lines.push(`- **Exception**: ${signature.exceptionType}`);
+        if (signature.object) lines.push(`- **Object**: ${signature.object}`);
+        if (signature.frame) lines.push(`- **Frame**: ${signature.frame}`);
+        if (signature.httpStatus) lines.push(`- **HTTP Status**: ${signature.httpStatus}`);
+        if (cluster.sampleMessage) {
+          lines.push(`- **Error**: ${cluster.sampleMessage.split(/\r?\n/)[0]}`);
+        }
+        if (cluster.objectPath) {
+          const missing =
+            cluster.objectExists === false ? ' (⚠️ not in the Object Repository)' : '';
+          lines.push(`- **Object File**: ${cluster.objectPath}${missing}`);
+        }
+        lines.push(
+          `- **Test Cases**: ${cluster.testCases.map(test => test.testCaseName).join(', ')}`
+        );
+        return lines.join('\n');
+      })
+      .join('\n\n');
+  }
+
+  private getCategory(signature: FailureSignature, test: TestResult): FailureCategory {
+    if (signature.httpStatus && signature.httpStatus >= 500) {
+      return 'environment';
+    }
+
+    const text = `${signature.exceptionType ?? ''} ${test.errorMessage ?? ''} ${getFailedStep(test.steps)?.message ?? ''}`;
+    for (const [category, pattern] of CATEGORY_PATTERNS) {
+      // Without an object there is no locator to blame
+      if (category === 'locator' && !signature.object) continue;
+      if (pattern.test(text)) {
+        return category;
+      }
+    }
+
+    if (signature.httpStatus && signature.httpStatus >= 400) {
+      return 'data';
+    }
+    return 'unknown';
+  }
+
+  private getExceptionType(text: string): string | undefined {
+    const found = /\b(?:[a-z_$][\w$]*\.)*([A-Z][\w$]*(?:Exception|Error|Failure))\b/.exec(text);
+    return found?.[1];
+  }
+
+  private getFrame(stackTrace: string): string | undefined {
+    for (const line of stackTrace.split(/\r?\n/)) {
+      const frame = /^\s*at\s+(\S+)/.exec(line)?.[1];
+      if (frame && !FRAMEWORK_FRAME.test(frame)) {
+        return frame;
+      }
+    }
+    return undefined;
+  }
+
+  private getHttpStatus(message: string): number | undefined {
+    const statuses = [
+      ...message.matchAll(
+        /\b(?:status(?:\s+code)?|HTTP(?:\/\d(?:\.\d)?)?)\s*[:=]?\s*([1-5]\d\d)\b/gi
+      ),
+    ].map(match => Number(match[1]));
+    // "Expected status 200 but got 503": the error status is the one that matters
+    return statuses.find(status => status >= 400) ?? statuses[0];
+  }
+
+  private normalizeMessage(message: string): string {
+    return message
+      .split(/\r?\n/)[0]
+      .replace(/'[^']*'|"[^"]*"/g, "'…'")
+      .replace(/\d+/g, 'N')
+      .trim();
+  }
+}
@@ -0,0 +1,182 @@
+import { ExecutionRecord, KatalonExecutionHistory } from './execution-history'; // Recorded runs
+import type { TestResult } from './test-executor';
+
+/**
+ * 🎲 FlakyTestReport Interface
+ * How unstable a single test case has been across recorded runs
+ * Like a weather report for one test - sunny, stormy, or can't make up its mind
+ */
+export interface FlakyTestReport {
+  testCaseName: string; // Test case that flipped between outcomes
+  testSuitePath: string; // Suite the test case was run in
+  browser?: string; // Browser the runs used; each browser gets its own report
+  executionProfile?: string; // Profile the runs used; each profile gets its own report
+  runs: number; // How many recorded runs included this test case
+  passed: number; // Runs where it PASSED
+  failed: number; // Runs where it FAILED or hit an ERROR
+  flips: number; // Times the outcome changed from one run to the next
+  flakinessScore: number; // flips / comparable run pairs (0 = stable, 1 = flips every run)
+  lastStatus: 'PASSED' | 'FAILED'; // Outcome of the most recent run
+  errorMessages: { message: string; count: number }[]; // Distinct failure messages, most frequent first
+}
+
+/**
+ * ⚙️ FlakyAnalysisOptions Interface
+ * Settings for which history to look at and what counts as flaky
+ */
+export interface FlakyAnalysisOptions {
+  testSuitePath?: string; // Only suites whose path contains this text
+  minRuns?: number; // Ignore test cases with fewer recorded runs than this
+  since?: Date; // Only runs that started at or after this time
+}
+
+type Outcome = 'PASSED' | 'FAILED';
+
+interface TestCaseTimeline {
+  testCaseName: string;
+  testSuitePath: string;
+  browser?: string;
+  executionProfile?: string;
+  outcomes: { outcome: Outcome; fingerprint?: string; errorMessage?: string }[];
+}
+
+/**
+ * 🔬 Katalon Flaky Test Analyzer Class
+ *
+ * Looks through the recorded execution history for test cases that pass on
+ * one run and fail on the next while nothing in the project has changed.
+ * Runs are compared only when their project fingerprints match, so a test
+ * that broke (or was fixed) by an edit is not reported as flaky.
+ */
+export class KatalonFlakyTestAnalyzer {
+  constructor(private history: KatalonExecutionHistory) {}
+
+  /**
+   * Find flaky test cases in a project's history, most flaky first
+   */
+  async analyze(
+    projectPath: string,
+    options: FlakyAnalysisOptions = {}
+  ): Promise<FlakyTestReport[]> {
+    const records = (await this.history.query(projectPath, { from: options.since }))
+      .filter(record => record.status !== 'CANCELLED')
+      .reverse(); // Oldest first, so outcomes line up in the order they happened
+
+    const timelines = this.buildTimelines(records, options.testSuitePath);
+
+    return Array.from(timelines.values())
+      .filter(timeline => timeline.outcomes.length >= (options.minRuns ?? 2))
+      .map(timeline => this.scoreTimeline(timeline))
+      .filter(report => report.flips > 0)
+      .sort((a, b) => b.flakinessScore - a.flakinessScore || b.flips - a.flips);
+  }
+
+  private buildTimelines(
+    records: ExecutionRecord[],
+    testSuiteFilter?: string
+  ): Map<string, TestCaseTimeline> {
+    const byId = new Map(records.map(record => [record.executionId, record]));
+    const timelines = new Map<string, TestCaseTimeline>();
+
+    for (const record of records) {
+      const testSuitePath = this.getOriginalSuitePath(record, byId);
+      if (testSuiteFilter && !testSuitePath.toLowerCase().includes(testSuiteFilter.toLowerCase())) {
+        continue;
+      }
+
+      for (const test of record.testResults) {
+        // Skipped test cases say nothing about stability
+        if (test.status === 'SKIPPED') {
+          continue;
+        }
+
+        // A test that always fails on one browser and passes on another is broken, not flaky
+        const { browser, executionProfile } = this.getRunConfiguration(record, test);
+        const key = `${testSuitePath}::${browser}::${executionProfile}::${test.testCaseName}`;
+        const timeline = timelines.get(key) ?? {
+          testCaseName: test.testCaseName,
+          testSuitePath,
+          browser,
+          executionProfile,
+          outcomes: [],
+        };
+        timeline.outcomes.push({
+          outcome: test.status === 'PASSED' ? 'PASSED' : 'FAILED',
+          fingerprint: record.projectFingerprint,
+          errorMessage: test.errorMessage,
+        });
+        timelines.set(key, timeline);
+      }
+    }
+
+    return timelines;
+  }
+
+  private getRunConfiguration(
+    record: ExecutionRecord,
+    test: TestResult
+  ): { browser?: string; executionProfile?: string } {
+    // Collection members each run with their own browser and profile
+    const suite = record.suiteResults?.find(result => result.testSuiteId === test.testSuiteId);
+    return {
+      browser: suite?.browser ?? record.options?.browser,
+      executionProfile: suite?.executionProfile ?? record.options?.executionProfile,
+    };
+  }
+
+  private getOriginalSuitePath(
+    record: ExecutionRecord,
+    byId: Map<string, ExecutionRecord>
+  ): string {
+    // Reruns of failed test cases count towards the suite they were taken from
+    let current = record;
+    const seen = new Set<string>();
+    while (current.rerunOf && byId.has(current.rerunOf) && !seen.has(current.rerunOf)) {
+      seen.add(current.rerunOf);
+      current = byId.get(current.rerunOf)!;
+    }
+    return current.testSuitePath;
+  }
+
+  private scoreTimeline(timeline: TestCaseTimeline): FlakyTestReport {
+    let flips = 0;
+    let comparablePairs = 0;
+
+    for (let i = 1; i < timeline.outcomes.length; i++) {
+      const previous = timeline.outcomes[i - 1];
+      const current = timeline.outcomes[i];
+
+      // A changed project explains a changed outcome; only compare like with like
+      if (previous.fingerprint !== current.fingerprint) {
+        continue;
+      }
+      comparablePairs++;
+      if (previous.outcome !== current.outcome) {
+        flips++;
+      }
+    }
+
+    const messageCounts = new Map<string, number>();
+    timeline.outcomes
+      .filter(o => o.outcome === 'FAILED' && o.errorMessage)
+      .forEach(o =>
+        messageCounts.set(o.errorMessage!, (messageCounts.get(o.errorMessage!) ?? 0) + 1)
+      );
+
+    return {
+      testCaseName: timeline.testCaseName,
+      testSuitePath: timeline.testSuitePath,
+      browser: timeline.browser,
+      executionProfile: timeline.executionProfile,
+      runs: timeline.outcomes.length,
+      passed: timeline.outcomes.filter(o => o.outcome === 'PASSED').length,
+      failed: timeline.outcomes.filter(o => o.outcome === 'FAILED').length,
+      flips,
+      flakinessScore: comparablePairs ? Number((flips / comparablePairs).toFixed(2)) : 0,
+      lastStatus: timeline.outcomes[timeline.outcomes.length - 1].outcome,
+      errorMessages: Array.from(messageCounts.entries())
+        .map(([message, count]) => ({ message, count }))
+        .sort((a, b) => b.count - a.count),
+    };
+  }
+}
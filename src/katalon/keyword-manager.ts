@@ -28,7 +28,7 @@ export interface KeywordParameter {
   type: string; // Data type (String, Integer, Boolean, WebElement, etc.)
   description: string; // What this parameter is used for
   required: boolean; // Must this parameter always be provided?
-  defaultValue?: string; // Default value if not provided
+  defaultValue?: string; // Groovy expression used when not provided
 }
 
 /**
@@ -426,7 +426,10 @@ def ${keyword.name}(${parameterList}) {
     return updatedContent;
   }
 
-  private getBuiltInKeywords(): KeywordInfo[] {
+  /**
+   * The built-in keyword catalog; test steps are checked against it
+   */
+  getBuiltInKeywords(): KeywordInfo[] {
     return [
       // WebUI Keywords
       {
@@ -434,7 +437,13 @@ def ${keyword.name}(${parameterList}) {
         description: 'Open a new browser instance',
         category: 'WebUI',
         parameters: [
-          { name: 'url', type: 'String', description: 'URL to navigate to', required: false },
+          {
+            name: 'url',
+            type: 'String',
+            description: 'URL to navigate to',
+            required: false,
+            defaultValue: "''",
+          },
         ],
         returnType: 'void',
         usage: 'WebUI.openBrowser(url)',
@@ -498,6 +507,94 @@ def ${keyword.name}(${parameterList}) {
           'WebUI.navigateToUrl(GlobalVariable.baseUrl + "/login")',
         ],
       },
+      {
+        name: 'WebUI.closeBrowser',
+        description: 'Close the browser',
+        category: 'WebUI',
+        parameters: [],
+        returnType: 'void',
+        usage: 'WebUI.closeBrowser()',
+        examples: ['WebUI.closeBrowser()'],
+      },
+      {
+        name: 'WebUI.selectOptionByLabel',
+        description: 'Select the option of a dropdown with the given label',
+        category: 'WebUI',
+        parameters: [
+          { name: 'to', type: 'TestObject', description: 'Target test object', required: true },
+          { name: 'labelText', type: 'String', description: 'Label to select', required: true },
+          {
+            name: 'isRegex',
+            type: 'boolean',
+            description: 'Treat the label as a regular expression',
+            required: true,
+          },
+        ],
+        returnType: 'void',
+        usage: 'WebUI.selectOptionByLabel(to, labelText, isRegex)',
+        examples: ['WebUI.selectOptionByLabel(findTestObject("select_country"), "Canada", false)'],
+      },
+      {
+        name: 'WebUI.verifyTextPresent',
+        description: 'Verify that a text is present on the page',
+        category: 'WebUI',
+        parameters: [
+          { name: 'text', type: 'String', description: 'Text to look for', required: true },
+          {
+            name: 'isRegex',
+            type: 'boolean',
+            description: 'Treat the text as a regular expression',
+            required: true,
+          },
+        ],
+        returnType: 'boolean',
+        usage: 'WebUI.verifyTextPresent(text, isRegex)',
+        examples: ['WebUI.verifyTextPresent("Welcome back", false)'],
+      },
+      {
+        name: 'WebUI.verifyElementText',
+        description: 'Verify the text of an element',
+        category: 'WebUI',
+        parameters: [
+          { name: 'to', type: 'TestObject', description: 'Target test object', required: true },
+          { name: 'expectedText', type: 'String', description: 'Expected text', required: true },
+        ],
+        returnType: 'boolean',
+        usage: 'WebUI.verifyElementText(to, expectedText)',
+        examples: ['WebUI.verifyElementText(findTestObject("div_total"), "$42.00")'],
+      },
+      {
+        name: 'WebUI.waitForElementVisible',
+        description: 'Wait until an element is visible',
+        category: 'WebUI',
+        parameters: [
+          { name: 'to', type: 'TestObject', description: 'Target test object', required: true },
+          { name: 'timeout', type: 'int', description: 'Timeout in seconds', required: true },
+        ],
+        returnType: 'boolean',
+        usage: 'WebUI.waitForElementVisible(to, timeout)',
+        examples: ['WebUI.waitForElementVisible(findTestObject("div_results"), 10)'],
+      },
+      {
+        name: 'WebUI.takeScreenshot',
+        description: 'Take a screenshot of the browser',
+        category: 'WebUI',
+        parameters: [],
+        returnType: 'String',
+        usage: 'WebUI.takeScreenshot()',
+        examples: ['WebUI.takeScreenshot()'],
+      },
+      {
+        name: 'WebUI.delay',
+        description: 'Pause the test for a number of seconds',
+        category: 'WebUI',
+        parameters: [
+          { name: 'second', type: 'int', description: 'Seconds to wait', required: true },
+        ],
+        returnType: 'void',
+        usage: 'WebUI.delay(second)',
+        examples: ['WebUI.delay(2)'],
+      },
 
       // API/Web Service Keywords
       {
@@ -562,6 +659,7 @@ def ${keyword.name}(${parameterList}) {
             type: 'boolean',
             description: 'Uninstall app after closing',
             required: false,
+            defaultValue: 'false',
           },
         ],
         returnType: 'void',
@@ -586,6 +684,40 @@ def ${keyword.name}(${parameterList}) {
           'Mobile.tap(findTestObject("menu_item"), 5)',
         ],
       },
+      {
+        name: 'Mobile.setText',
+        description: 'Set text to a mobile input element',
+        category: 'Mobile',
+        parameters: [
+          { name: 'to', type: 'TestObject', description: 'Target test object', required: true },
+          { name: 'text', type: 'String', description: 'Text to set', required: true },
+          { name: 'timeout', type: 'int', description: 'Timeout in seconds', required: true },
+        ],
+        returnType: 'void',
+        usage: 'Mobile.setText(to, text, timeout)',
+        examples: ['Mobile.setText(findTestObject("input_email"), "john@example.com", 10)'],
+      },
+      {
+        name: 'Mobile.verifyElementExist',
+        description: 'Verify that a mobile element exists',
+        category: 'Mobile',
+        parameters: [
+          { name: 'to', type: 'TestObject', description: 'Target test object', required: true },
+          { name: 'timeout', type: 'int', description: 'Timeout in seconds', required: true },
+        ],
+        returnType: 'boolean',
+        usage: 'Mobile.verifyElementExist(to, timeout)',
+        examples: ['Mobile.verifyElementExist(findTestObject("text_welcome"), 10)'],
+      },
+      {
+        name: 'Mobile.closeApplication',
+        description: 'Close the mobile application',
+        category: 'Mobile',
+        parameters: [],
+        returnType: 'void',
+        usage: 'Mobile.closeApplication()',
+        examples: ['Mobile.closeApplication()'],
+      },
 
       // Database Keywords
       {
@@ -0,0 +1,144 @@
+// Import necessary libraries for reading and writing PNG images
+import * as zlib from 'zlib'; // PNG image data is zlib-compressed
+
+/**
+ * 🧩 DecodedPng Interface
+ * Raw pixels of a PNG, one byte per channel
+ */
+export interface DecodedPng {
+  width: number;
+  height: number;
+  colorType: number; // PNG color type: 0 gray, 2 RGB, 4 gray + alpha, 6 RGBA
+  channels: number; // Bytes per pixel
+  pixels: Buffer; // Rows of width × channels bytes, top to bottom
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Channels per pixel for the 8-bit, non-palette color types we can decode
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+let crcTable: number[] | undefined;
+
+/**
+ * Read the pixels of a PNG
+ *
+ * Only 8-bit, non-interlaced gray, RGB and RGBA images are decoded; anything
+ * else (palette, 16-bit or interlaced) gives undefined.
+ */
+export function decodePng(png: Buffer): DecodedPng | undefined {
+  if (png.length < 8 || !png.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return undefined;
+  }
+
+  let header: Buffer | undefined;
+  const idat: Buffer[] = [];
+  for (let offset = 8; offset + 8 <= png.length; ) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('ascii', offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') header = data;
+    if (type === 'IDAT') idat.push(data);
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  if (!header) {
+    return undefined;
+  }
+
+  const width = header.readUInt32BE(0);
+  const height = header.readUInt32BE(4);
+  const bitDepth = header[8];
+  const colorType = header[9];
+  const interlace = header[12];
+  const channels = CHANNELS[colorType];
+  if (bitDepth !== 8 || !channels || interlace !== 0) {
+    return undefined;
+  }
+
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    const previous = out - stride;
+
+    for (let i = 0; i < stride; i++) {
+      const left = i >= channels ? pixels[out + i - channels] : 0;
+      const up = y > 0 ? pixels[previous + i] : 0;
+      const upLeft = y > 0 && i >= channels ? pixels[previous + i - channels] : 0;
+      let value = line[i];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += (left + up) >> 1;
+      else if (filter === 4) value += paeth(left, up, upLeft);
+      pixels[out + i] = value & 0xff;
+    }
+  }
+
+  return { width, height, colorType, channels, pixels };
+}
+
+/**
+ * Write pixels as a PNG, without row filters
+ */
+export function encodePng(image: DecodedPng): Buffer {
+  const stride = image.width * image.channels;
+  // Filter type 0 (none) on every row
+  const raw = Buffer.alloc((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    image.pixels.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = image.colorType;
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      return c >>> 0;
+    });
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
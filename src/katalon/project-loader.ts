@@ -0,0 +1,331 @@
+// Import necessary libraries for reading a Katalon project's own files
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+import * as xml2js from 'xml2js'; // Convert XML files to JavaScript objects
+import { glob } from 'glob'; // Find project files using patterns
+
+/**
+ * 📁 KatalonProject Interface
+ * Defines what information we store about a Katalon project
+ * Think of this as a "business card" for each project
+ */
+export interface KatalonProject {
+  name: string; // Project name (e.g., "E-commerce Tests")
+  path: string; // Where the project is stored on disk
+  version: string; // Katalon version used
+  type: ProjectType; // What kind of testing the project was created for
+  description?: string; // Description from the .prj file
+  testCases: string[]; // List of all test case files
+  testSuites: string[]; // List of all test suite files
+  objectRepositories: string[]; // List of UI element definition files
+  profiles: string[]; // List of execution profiles (dev, staging, prod)
+  defaultProfile?: string; // Profile marked as the default one
+  globalVariables: Record<string, GlobalVariable[]>; // Variables declared in each profile
+  settings: Record<string, Record<string, string>>; // settings/ properties files, by path without extension
+  entities: ProjectEntity[]; // Every test artifact in the project
+}
+
+/**
+ * 🧭 ProjectType Type
+ * Project types, from the `<type>` of the .prj file
+ */
+export type ProjectType = 'web' | 'mobile' | 'api' | 'windows' | 'generic';
+
+/**
+ * 🌍 GlobalVariable Interface
+ * One variable declared in an execution profile
+ */
+export interface GlobalVariable {
+  name: string; // Variable name (e.g. "baseUrl")
+  initValue: string; // Groovy expression for its value (e.g. "'https://staging.example.com'")
+  description?: string; // What the variable is for
+}
+
+/**
+ * 📦 ProjectEntity Interface
+ * A test artifact of the project and the folder it lives in
+ */
+export interface ProjectEntity {
+  type: EntityType; // What kind of artifact it is
+  id: string; // Katalon ID: path from the project root without extension (e.g. "Test Cases/Login")
+  folder: string; // ID of the folder it is in (e.g. "Test Cases/Checkout")
+  path: string; // Absolute path of the file
+}
+
+/**
+ * 🏷️ EntityType Type
+ * Kinds of artifacts a Katalon project is made of
+ */
+export type EntityType =
+  | 'testCase'
+  | 'testSuite'
+  | 'testSuiteCollection'
+  | 'testObject'
+  | 'keyword'
+  | 'testData'
+  | 'checkpoint'
+  | 'testListener'
+  | 'profile';
+
+// Where each kind of entity lives, and how its files are named
+const ENTITY_LOCATIONS: { type: EntityType; folder: string; pattern: string; ignore?: string }[] = [
+  { type: 'testCase', folder: 'Test Cases', pattern: '**/*.tc' },
+  // Rerun suites are generated by the executor, not written by the team
+  { type: 'testSuite', folder: 'Test Suites', pattern: '**/*.ts', ignore: 'MCP Reruns/**' },
+  { type: 'testSuiteCollection', folder: 'Test Suites', pattern: '**/*.tsc' },
+  { type: 'testObject', folder: 'Object Repository', pattern: '**/*.rs' },
+  { type: 'keyword', folder: 'Keywords', pattern: '**/*.groovy' },
+  { type: 'testData', folder: 'Data Files', pattern: '**/*.dat' },
+  { type: 'checkpoint', folder: 'Checkpoints', pattern: '**/*.cpt' },
+  { type: 'testListener', folder: 'Test Listeners', pattern: '**/*.groovy' },
+  { type: 'profile', folder: 'Profiles', pattern: '*.glbl' },
+];
+
+/**
+ * The Katalon ID of a test case, from the name a report or caller gives it
+ *
+ * IDs are paths from the project root with forward slashes and no extension;
+ * JUnit reports may leave out the `Test Cases/` folder or use backslashes.
+ */
+export function toTestCaseId(name: string): string {
+  const id = name.replace(/\\/g, '/').replace(/\.tc$/, '');
+  return id.startsWith('Test Cases/') ? id : `Test Cases/${id}`;
+}
+
+// Katalon's names for project types
+const PROJECT_TYPES: Record<string, ProjectType> = {
+  WEBUI: 'web',
+  MOBILE: 'mobile',
+  WEBSERVICE: 'api',
+  WINDOWS: 'windows',
+  GENERIC: 'generic',
+};
+
+/**
+ * 🗂️ Katalon Project Loader Class
+ *
+ * Reads a project the way Katalon Studio sees it: the `.prj` file (name,
+ * version, type), the `settings/` properties, the execution profiles and
+ * every test artifact with its folder. One loader is shared by the server's
+ * modules; loaded projects are kept for a few seconds so a burst of tool
+ * calls doesn't re-read the whole tree, and modules that write project
+ * files drop the cached copy with `invalidate`.
+ */
+export class KatalonProjectLoader {
+  private parser = new xml2js.Parser();
+  private cache = new Map<string, { project: KatalonProject; loadedAt: number }>();
+
+  /**
+   * @param maxAgeMs - How long a loaded project is reused before it is read again
+   */
+  constructor(private maxAgeMs = 5000) {}
+
+  /**
+   * Is this folder a Katalon project? (It has a `.prj` file, or an Eclipse
+   * `.project` file next to a `settings/` folder.)
+   */
+  async isKatalonProject(projectPath: string): Promise<boolean> {
+    try {
+      if ((await this.findPrjFile(projectPath)) !== undefined) {
+        return true;
+      }
+      return (
+        (await fs.pathExists(path.join(projectPath, '.project'))) &&
+        (await fs.pathExists(path.join(projectPath, 'settings')))
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 📂 Load a Project
+   * Reads the project model, or returns the recently loaded one
+   */
+  async load(projectPath: string): Promise<KatalonProject> {
+    const resolved = path.resolve(projectPath);
+    const cached = this.cache.get(resolved);
+    if (cached && Date.now() - cached.loadedAt < this.maxAgeMs) {
+      return cached.project;
+    }
+
+    if (!(await this.isKatalonProject(resolved))) {
+      throw new Error(`Invalid Katalon project: ${projectPath}`);
+    }
+
+    const project = await this.readProject(resolved);
+    this.cache.set(resolved, { project, loadedAt: Date.now() });
+    return project;
+  }
+
+  /**
+   * Forget a loaded project, after its files were changed
+   */
+  invalidate(projectPath: string): void {
+    this.cache.delete(path.resolve(projectPath));
+  }
+
+  private async readProject(projectPath: string): Promise<KatalonProject> {
+    const prj = await this.readPrjFile(projectPath);
+    const entities = await this.readEntities(projectPath);
+    const ids = (type: EntityType) =>
+      entities.filter(entity => entity.type === type).map(entity => entity.id);
+
+    const globalVariables: Record<string, GlobalVariable[]> = {};
+    let defaultProfile: string | undefined;
+    for (const entity of entities.filter(entity => entity.type === 'profile')) {
+      const profile = await this.readProfile(entity.path);
+      globalVariables[path.basename(entity.id)] = profile.variables;
+      if (profile.isDefault) {
+        defaultProfile = path.basename(entity.id);
+      }
+    }
+    const profiles = Object.keys(globalVariables);
+
+    return {
+      name: prj.name || path.basename(projectPath),
+      path: projectPath,
+      version: prj.version || 'unknown',
+      type: prj.type,
+      description: prj.description,
+      testCases: ids('testCase'),
+      testSuites: ids('testSuite'),
+      objectRepositories: ids('testObject'),
+      profiles,
+      // Katalon falls back to the profile named "default"
+      defaultProfile: defaultProfile ?? (profiles.includes('default') ? 'default' : undefined),
+      globalVariables,
+      settings: await this.readSettings(projectPath),
+      entities,
+    };
+  }
+
+  private async findPrjFile(projectPath: string): Promise<string | undefined> {
+    const files = await fs.readdir(projectPath).catch(() => [] as string[]);
+    const prjFile = files.find(file => file.endsWith('.prj'));
+    return prjFile ? path.join(projectPath, prjFile) : undefined;
+  }
+
+  private async readPrjFile(projectPath: string): Promise<{
+    name?: string;
+    version?: string;
+    type: ProjectType;
+    description?: string;
+  }> {
+    const prjPath = await this.findPrjFile(projectPath);
+    if (!prjPath) {
+      return { type: 'generic' };
+    }
+
+    let project: any;
+    try {
+      project = (await this.parser.parseStringPromise(await fs.readFile(prjPath, 'utf-8')))
+        ?.Project;
+    } catch (error) {
+      throw new Error(
+        `Invalid project file ${prjPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const text = (value: any): string | undefined =>
+      typeof value?.[0] === 'string' && value[0].trim() ? value[0].trim() : undefined;
+    return {
+      name: text(project?.name),
+      version: text(project?.migratedVersion),
+      type: PROJECT_TYPES[text(project?.type)?.toUpperCase() ?? ''] ?? 'generic',
+      description: text(project?.description),
+    };
+  }
+
+  private async readEntities(projectPath: string): Promise<ProjectEntity[]> {
+    const entities: ProjectEntity[] = [];
+
+    for (const location of ENTITY_LOCATIONS) {
+      const root = path.join(projectPath, location.folder);
+      if (!(await fs.pathExists(root))) {
+        continue;
+      }
+
+      const files = (
+        await glob(location.pattern, { cwd: root, posix: true, ignore: location.ignore })
+      ).sort();
+      for (const file of files) {
+        // Katalon IDs use forward slashes on every platform
+        const id = `${location.folder}/${file.replace(/\.[^./]+$/, '')}`;
+        entities.push({
+          type: location.type,
+          id,
+          folder: id.slice(0, id.lastIndexOf('/')),
+          path: path.join(root, file),
+        });
+      }
+    }
+
+    return entities;
+  }
+
+  private async readProfile(
+    profilePath: string
+  ): Promise<{ isDefault: boolean; variables: GlobalVariable[] }> {
+    try {
+      const result = await this.parser.parseStringPromise(await fs.readFile(profilePath, 'utf-8'));
+      const profile = result?.GlobalVariableEntities;
+      const variables: any[] = profile?.GlobalVariableEntity || [];
+
+      return {
+        isDefault: profile?.defaultProfile?.[0] === 'true',
+        variables: variables
+          .filter(variable => variable.name?.[0])
+          .map(variable => ({
+            name: variable.name[0],
+            initValue: typeof variable.initValue?.[0] === 'string' ? variable.initValue[0] : '',
+            description:
+              typeof variable.description?.[0] === 'string' && variable.description[0]
+                ? variable.description[0]
+                : undefined,
+          })),
+      };
+    } catch {
+      return { isDefault: false, variables: [] }; // An unreadable profile declares nothing
+    }
+  }
+
+  private async readSettings(projectPath: string): Promise<Record<string, Record<string, string>>> {
+    const settingsPath = path.join(projectPath, 'settings');
+    if (!(await fs.pathExists(settingsPath))) {
+      return {};
+    }
+
+    const settings: Record<string, Record<string, string>> = {};
+    const files = await glob('**/*.properties', { cwd: settingsPath, posix: true });
+    for (const file of files.sort()) {
+      const content = await fs.readFile(path.join(settingsPath, file), 'utf-8');
+      settings[file.replace(/\.properties$/, '')] = this.parseProperties(content);
+    }
+    return settings;
+  }
+
+  /**
+   * Java .properties: `key=value` or `key: value`, `#` and `!` comments, `\` line continuations
+   */
+  private parseProperties(content: string): Record<string, string> {
+    const properties: Record<string, string> = {};
+    const lines = content.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length; i++) {
+      let line = lines[i].trim();
+      if (!line || line.startsWith('#') || line.startsWith('!')) {
+        continue;
+      }
+      while (line.endsWith('\\') && i + 1 < lines.length) {
+        line = line.slice(0, -1) + lines[++i].trim();
+      }
+
+      const separator = /(?<!\\)[=:]/.exec(line);
+      const key = separator ? line.slice(0, separator.index).trim() : line;
+      const value = separator ? line.slice(separator.index + 1).trim() : '';
+      properties[key.replace(/\\(.)/g, '$1')] = value.replace(/\\(.)/g, '$1');
+    }
+    return properties;
+  }
+}
@@ -2,22 +2,13 @@
 import * as fs from 'fs-extra'; // Enhanced file system operations
 import * as path from 'path'; // File path manipulation
 import * as xml2js from 'xml2js'; // Convert XML files to JavaScript objects
-import { glob } from 'glob'; // Find files using patterns (like *.tc, *.ts)
+import { KatalonExecutionHistory } from './execution-history'; // Recorded test runs
+import { FlakyTestReport, KatalonFlakyTestAnalyzer } from './flaky-analyzer'; // Flakiness scoring
+import { KatalonProject, KatalonProjectLoader, ProjectType, toTestCaseId } from './project-loader'; // Project model
+import { KatalonScriptGenerator, ScriptStep, ScriptType } from './script-generator'; // Groovy for test case steps
+import type { TestResult } from './test-executor';
 
-/**
- * 📁 KatalonProject Interface
- * Defines what information we store about a Katalon project
- * Think of this as a "business card" for each project
- */
-export interface KatalonProject {
-  name: string; // Project name (e.g., "E-commerce Tests")
-  path: string; // Where the project is stored on disk
-  version: string; // Katalon version used
-  testCases: string[]; // List of all test case files
-  testSuites: string[]; // List of all test suite files
-  objectRepositories: string[]; // List of UI element definition files
-  profiles: string[]; // List of execution profiles (dev, staging, prod)
-}
+export type { KatalonProject } from './project-loader';
 
 /**
  * 📋 TestCaseTemplate Interface
@@ -42,6 +33,7 @@ export interface AnalysisResult {
   testCoverage?: TestCoverage; // How well tests cover the application
   objectHealth?: ObjectHealth; // Status of UI elements
   keywordUsage?: KeywordUsage; // Which keywords are being used
+  flakyTests?: FlakyTestReport[]; // Test cases that flip between passing and failing
 }
 
 /**
@@ -49,6 +41,10 @@ export interface AnalysisResult {
  * Basic statistics about the project - the "at a glance" view
  */
 interface ProjectOverview {
+  name: string; // Project name from the .prj file
+  version: string; // Katalon version the project was last saved with
+  type: ProjectType; // Web, mobile, API, ...
+  profiles: string[]; // Execution profiles
   totalTestCases: number; // How many test cases exist
   totalTestSuites: number; // How many test suites exist
   totalObjects: number; // How many UI elements are defined
@@ -65,6 +61,8 @@ interface TestCoverage {
   passedTests: number; // How many tests succeeded
   failedTests: number; // How many tests failed
   coverage: number; // Percentage of application covered by tests
+  flakyTests: number; // How many executed tests have flipped between runs
+  recordedExecutions: number; // How many recorded runs the numbers are based on
 }
 
 /**
@@ -91,6 +89,19 @@ interface KeywordUsage {
 export class KatalonProjectManager {
   private parser = new xml2js.Parser();
   private builder = new xml2js.Builder();
+  private flakyAnalyzer: KatalonFlakyTestAnalyzer;
+  private scriptGenerator = new KatalonScriptGenerator();
+
+  /**
+   * @param history - Recorded executions that coverage and flakiness are computed from
+   * @param projectLoader - Reads the project model, shared with the other modules
+   */
+  constructor(
+    private history: KatalonExecutionHistory = new KatalonExecutionHistory(),
+    private projectLoader: KatalonProjectLoader = new KatalonProjectLoader()
+  ) {
+    this.flakyAnalyzer = new KatalonFlakyTestAnalyzer(history);
+  }
 
   /**
    * Analyze a Katalon project and return insights
@@ -98,23 +109,27 @@ export class KatalonProjectManager {
   async analyzeProject(args: any): Promise<{ content: any[] }> {
     const { projectPath, analysisType = 'overview' } = args;
 
-    if (!(await this.isKatalonProject(projectPath))) {
+    if (!(await this.projectLoader.isKatalonProject(projectPath))) {
       throw new Error('Invalid Katalon project path');
     }
 
+    const project = await this.projectLoader.load(projectPath);
     const analysis: AnalysisResult = {
-      overview: await this.getProjectOverview(projectPath),
+      overview: this.getProjectOverview(project),
     };
 
     switch (analysisType) {
       case 'test_coverage':
-        analysis.testCoverage = await this.getTestCoverage(projectPath);
+        analysis.testCoverage = await this.getTestCoverage(project);
         break;
       case 'object_health':
-        analysis.objectHealth = await this.getObjectHealth(projectPath);
+        analysis.objectHealth = this.getObjectHealth(project);
         break;
       case 'keyword_usage':
-        analysis.keywordUsage = await this.getKeywordUsage(projectPath);
+        analysis.keywordUsage = this.getKeywordUsage(project);
+        break;
+      case 'flaky_tests':
+        analysis.flakyTests = await this.flakyAnalyzer.analyze(projectPath);
         break;
     }
 
@@ -130,35 +145,57 @@ export class KatalonProjectManager {
 
   /**
    * Create a new test case with intelligent suggestions
+   *
+   * Writes the `.tc` metadata and the `Scripts/<name>/Script<timestamp>.groovy`
+   * file Katalon runs, with the steps as keyword calls on existing test objects
    */
   async createTestCase(args: any): Promise<{ content: any[] }> {
-    const { projectPath, testCaseName, description, targetUrl, testSteps = [] } = args;
+    const {
+      projectPath,
+      testCaseName,
+      description,
+      targetUrl,
+      testSteps = [],
+      testCaseType = 'web',
+    } = args;
 
-    if (!(await this.isKatalonProject(projectPath))) {
+    if (!(await this.projectLoader.isKatalonProject(projectPath))) {
       throw new Error('Invalid Katalon project path');
     }
 
+    // Test objects may have been added moments ago by other tools; read them fresh
+    this.projectLoader.invalidate(projectPath);
+    const project = await this.projectLoader.load(projectPath);
+    // Throws on unknown keywords or missing objects, before anything is written
+    const { script, steps, todos } = this.scriptGenerator.generate(testSteps, {
+      type: (['web', 'api', 'mobile'].includes(testCaseType) ? testCaseType : 'web') as ScriptType,
+      targetUrl,
+      objects: project.objectRepositories,
+    });
     const testCaseContent = await this.generateTestCaseContent({
       name: testCaseName,
       description,
-      targetUrl,
-      steps: testSteps,
+      steps,
     });
 
-    const testCasePath = path.join(
-      projectPath,
-      'Test Cases',
-      `${testCaseName.replace(/[^a-zA-Z0-9]/g, '_')}.tc`
-    );
+    const fileName = testCaseName.replace(/[^a-zA-Z0-9]/g, '_');
+    const testCasePath = path.join(projectPath, 'Test Cases', `${fileName}.tc`);
+    const scriptPath = await this.getScriptPath(projectPath, fileName);
 
     await fs.ensureDir(path.dirname(testCasePath));
     await fs.writeFile(testCasePath, testCaseContent);
+    await fs.outputFile(scriptPath, script);
+    this.projectLoader.invalidate(projectPath);
+
+    const todoNote = todos.length
+      ? `\n\n⚠️ ${todos.length} step(s) could not be mapped to a keyword and an existing test object, and were left as TODO comments:\n${todos.map(step => `- ${step}`).join('\n')}`
+      : '';
 
     return {
       content: [
         {
           type: 'text',
-          text: `Test case "${testCaseName}" created successfully at: ${testCasePath}\n\nGenerated content:\n\`\`\`xml\n${testCaseContent}\n\`\`\``,
+          text: `Test case "${testCaseName}" created successfully at: ${testCasePath}\nScript: ${scriptPath}${todoNote}\n\nGenerated content:\n\`\`\`xml\n${testCaseContent}\n\`\`\`\n\n\`\`\`groovy\n${script}\`\`\``,
         },
       ],
     };
@@ -205,53 +242,57 @@ export class KatalonProjectManager {
     ];
   }
 
-  private async isKatalonProject(projectPath: string): Promise<boolean> {
-    try {
-      const katalonProjectFile = path.join(projectPath, '.project');
-      const settingsFolder = path.join(projectPath, 'settings');
-
-      return (await fs.pathExists(katalonProjectFile)) && (await fs.pathExists(settingsFolder));
-    } catch {
-      return false;
-    }
-  }
-
-  private async getProjectOverview(projectPath: string): Promise<ProjectOverview> {
-    const testCasesPath = path.join(projectPath, 'Test Cases');
-    const testSuitesPath = path.join(projectPath, 'Test Suites');
-    const objectRepoPath = path.join(projectPath, 'Object Repository');
-    const keywordsPath = path.join(projectPath, 'Keywords');
-
-    const [testCases, testSuites, objects, keywords] = await Promise.all([
-      this.countFiles(testCasesPath, '**/*.tc'),
-      this.countFiles(testSuitesPath, '**/*.ts'),
-      this.countFiles(objectRepoPath, '**/*.rs'),
-      this.countFiles(keywordsPath, '**/*.groovy'),
-    ]);
+  private getProjectOverview(project: KatalonProject): ProjectOverview {
+    const count = (type: string) => project.entities.filter(entity => entity.type === type).length;
 
     return {
-      totalTestCases: testCases,
-      totalTestSuites: testSuites,
-      totalObjects: objects,
-      totalKeywords: keywords,
+      name: project.name,
+      version: project.version,
+      type: project.type,
+      profiles: project.profiles,
+      totalTestCases: project.testCases.length,
+      totalTestSuites: project.testSuites.length,
+      totalObjects: project.objectRepositories.length,
+      totalKeywords: count('keyword'),
       lastModified: new Date(),
     };
   }
 
-  private async getTestCoverage(projectPath: string): Promise<TestCoverage> {
-    // This would integrate with Katalon's reporting system
-    // For now, return mock data
+  private async getTestCoverage(project: KatalonProject): Promise<TestCoverage> {
+    // Newest first, so the first outcome seen for a test case is its latest one
+    const records = (await this.history.query(project.path)).filter(
+      record => record.status !== 'CANCELLED'
+    );
+
+    // Test cases deleted since they ran no longer count as covered
+    const testCases = new Set(project.testCases);
+    const latestStatus = new Map<string, TestResult['status']>();
+    for (const record of records) {
+      for (const test of record.testResults) {
+        const testCaseId = toTestCaseId(test.testCaseName);
+        if (testCases.has(testCaseId) && !latestStatus.has(testCaseId)) {
+          latestStatus.set(testCaseId, test.status);
+        }
+      }
+    }
+
+    const statuses = Array.from(latestStatus.values());
+    const totalTestCases = testCases.size;
+
     return {
-      executedTests: 85,
-      passedTests: 78,
-      failedTests: 7,
-      coverage: 91.8,
+      executedTests: latestStatus.size,
+      passedTests: statuses.filter(status => status === 'PASSED').length,
+      failedTests: statuses.filter(status => status === 'FAILED' || status === 'ERROR').length,
+      coverage: totalTestCases
+        ? Number(((latestStatus.size / totalTestCases) * 100).toFixed(1))
+        : 0,
+      flakyTests: (await this.flakyAnalyzer.analyze(project.path)).length,
+      recordedExecutions: records.length,
     };
   }
 
-  private async getObjectHealth(projectPath: string): Promise<ObjectHealth> {
-    const objectRepoPath = path.join(projectPath, 'Object Repository');
-    const totalObjects = await this.countFiles(objectRepoPath, '**/*.rs');
+  private getObjectHealth(project: KatalonProject): ObjectHealth {
+    const totalObjects = project.objectRepositories.length;
 
     // This would analyze object repository files for health status
     return {
@@ -262,9 +303,8 @@ export class KatalonProjectManager {
     };
   }
 
-  private async getKeywordUsage(projectPath: string): Promise<KeywordUsage> {
-    const keywordsPath = path.join(projectPath, 'Keywords');
-    const customKeywords = await this.countFiles(keywordsPath, '**/*.groovy');
+  private getKeywordUsage(project: KatalonProject): KeywordUsage {
+    const customKeywords = project.entities.filter(entity => entity.type === 'keyword').length;
 
     return {
       builtInKeywords: 150, // Katalon has around 150+ built-in keywords
@@ -279,21 +319,26 @@ export class KatalonProjectManager {
     };
   }
 
-  private async countFiles(dirPath: string, pattern: string): Promise<number> {
-    try {
-      if (!(await fs.pathExists(dirPath))) return 0;
-      const files = await glob(pattern, { cwd: dirPath });
-      return files.length;
-    } catch {
-      return 0;
+  /**
+   * Where a test case's script goes: Katalon runs the one `Script*.groovy` of its
+   * folder, so a recreated test case keeps its script's name and loses any extras
+   */
+  private async getScriptPath(projectPath: string, fileName: string): Promise<string> {
+    const scriptFolder = path.join(projectPath, 'Scripts', fileName);
+    const scripts = (await fs.readdir(scriptFolder).catch(() => [] as string[]))
+      .filter(file => /^Script.*\.groovy$/.test(file))
+      .sort();
+
+    for (const extra of scripts.slice(1)) {
+      await fs.remove(path.join(scriptFolder, extra));
     }
+    return path.join(scriptFolder, scripts[0] ?? `Script${Date.now()}.groovy`);
   }
 
   private async generateTestCaseContent(testCase: {
     name: string;
     description: string;
-    targetUrl?: string;
-    steps: string[];
+    steps: ScriptStep[];
   }): Promise<string> {
     const testCaseXml = {
       TestCaseEntity: {
@@ -308,19 +353,18 @@ export class KatalonProjectManager {
         variableLinks: '',
         variable: '',
         defaultProfile: 'default',
+        // Manual view of the script's keyword calls
         TestStep: testCase.steps.map((step, index) => ({
           $: { runmode: 'true' },
           TestStepEntity: {
             $: { id: (index + 1).toString() },
-            description: step,
+            description: step.description,
             name: `Step ${index + 1}`,
             runmode: 'true',
             CommandEntity: {
-              CommandName: 'comment',
+              CommandName: step.keyword,
               CommandParameters: {
-                CommandParameter: {
-                  $: { expression: step },
-                },
+                CommandParameter: step.parameters.map(expression => ({ $: { expression } })),
               },
             },
           },
@@ -0,0 +1,169 @@
+// Import necessary libraries for configuring remote WebDriver runs
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+import * as http from 'http'; // Reach plain-HTTP WebDriver endpoints
+import * as https from 'https'; // Reach HTTPS WebDriver endpoints
+
+/**
+ * 🛰️ RemoteWebDriverConfig Interface
+ * Where a remote run's browser lives and what it should look like
+ * Like booking a browser on someone else's machine (a Selenium Grid, a cloud provider...)
+ */
+export interface RemoteWebDriverConfig {
+  url: string; // WebDriver endpoint (e.g. "http://grid:4444/wd/hub")
+  type?: 'Selenium' | 'Appium'; // Kind of remote server Katalon talks to
+  desiredCapabilities?: Record<string, unknown>; // Capabilities sent when the session is created
+}
+
+// Where Katalon keeps the remote WebDriver settings of a project
+const REMOTE_SETTINGS_FILE = path.join(
+  'settings',
+  'internal',
+  'com.kms.katalon.core.webui.remote.properties'
+);
+
+// How long to wait for the endpoint to answer a status check
+const STATUS_TIMEOUT_MS = 5000;
+
+/**
+ * 🌐 Katalon Remote WebDriver Configurator
+ *
+ * Checks that a remote WebDriver endpoint is up and writes the project
+ * settings katalonc reads when it is started with `-browserType="Remote"`.
+ * The project's own settings are put back once the run is over. A project
+ * has a single settings file, so only one remote execution may claim it at
+ * a time, from the moment it is queued until it is over.
+ */
+export class KatalonRemoteWebDriverConfigurator {
+  // Projects whose remote settings belong to a queued or running execution
+  private reservedProjects = new Set<string>();
+
+  /**
+   * Ask the endpoint's WebDriver `/status` whether it can take new sessions
+   *
+   * @returns An error message, or undefined when the endpoint is ready
+   */
+  async checkEndpoint(config: RemoteWebDriverConfig): Promise<string | undefined> {
+    const statusUrl = `${config.url.replace(/\/+$/, '')}/status`;
+
+    try {
+      const { statusCode, body } = await this.get(statusUrl);
+      if (statusCode !== 200) {
+        return `Remote WebDriver at ${config.url} answered ${statusCode} to a status check`;
+      }
+
+      const ready = this.parseReady(body);
+      return ready === false
+        ? `Remote WebDriver at ${config.url} is not ready for new sessions`
+        : undefined;
+    } catch (error) {
+      return `Remote WebDriver not reachable at ${config.url}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  /**
+   * Does the project already have remote settings saved from Katalon Studio?
+   */
+  async hasProjectSettings(projectPath: string): Promise<boolean> {
+    return fs.pathExists(path.join(projectPath, REMOTE_SETTINGS_FILE));
+  }
+
+  /**
+   * Why the project's remote settings can't be claimed, if another execution holds them
+   */
+  getReservationError(projectPath: string): string | undefined {
+    return this.reservedProjects.has(path.resolve(projectPath))
+      ? `A remote WebDriver execution is already queued or running for ${projectPath}; wait for it to finish`
+      : undefined;
+  }
+
+  /**
+   * Claim the project's remote settings for one execution
+   *
+   * @returns A function that gives the claim up
+   */
+  reserve(projectPath: string): () => void {
+    const error = this.getReservationError(projectPath);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const key = path.resolve(projectPath);
+    this.reservedProjects.add(key);
+    return () => {
+      this.reservedProjects.delete(key);
+    };
+  }
+
+  /**
+   * Write the remote settings for one run of an execution that has reserved the project
+   *
+   * @returns A function that puts the project's previous settings back
+   */
+  async apply(projectPath: string, config: RemoteWebDriverConfig): Promise<() => Promise<void>> {
+    const settingsPath = path.join(projectPath, REMOTE_SETTINGS_FILE);
+    const previous = (await fs.pathExists(settingsPath))
+      ? await fs.readFile(settingsPath, 'utf-8')
+      : undefined;
+
+    await fs.outputFile(settingsPath, this.toProperties(config));
+
+    return async () => {
+      if (previous === undefined) {
+        await fs.remove(settingsPath);
+      } else {
+        await fs.outputFile(settingsPath, previous);
+      }
+    };
+  }
+
+  /**
+   * Render the settings in the `.properties` layout Katalon Studio writes
+   */
+  toProperties(config: RemoteWebDriverConfig): string {
+    const type = config.type || 'Selenium';
+    const driver = {
+      REMOTE_WEB_DRIVER: {
+        remoteWebDriverUrl: config.url,
+        remoteWebDriverType: type,
+        ...(config.desiredCapabilities ?? {}),
+      },
+    };
+
+    return [
+      `REMOTE_WEB_DRIVER=${this.escapeValue(JSON.stringify(driver))}`,
+      `remoteWebDriverType=${this.escapeValue(type)}`,
+      `remoteWebDriverUrl=${this.escapeValue(config.url)}`,
+      '',
+    ].join('\n');
+  }
+
+  private escapeValue(value: string): string {
+    // Java properties treat these characters specially
+    return value.replace(/[\\:=!#]/g, char => `\\${char}`);
+  }
+
+  private parseReady(body: string): boolean | undefined {
+    try {
+      const status = JSON.parse(body);
+      return typeof status?.value?.ready === 'boolean' ? status.value.ready : undefined;
+    } catch {
+      // Older hubs answer with something other than W3C JSON; a 200 is good enough
+      return undefined;
+    }
+  }
+
+  private get(url: string): Promise<{ statusCode: number; body: string }> {
+    return new Promise((resolve, reject) => {
+      const client = url.startsWith('https:') ? https : http;
+      const request = client.get(url, { timeout: STATUS_TIMEOUT_MS }, response => {
+        let body = '';
+        response.setEncoding('utf-8');
+        response.on('data', chunk => (body += chunk));
+        response.on('end', () => resolve({ statusCode: response.statusCode ?? 0, body }));
+      });
+      request.on('timeout', () => request.destroy(new Error('status check timed out')));
+      request.on('error', reject);
+    });
+  }
+}
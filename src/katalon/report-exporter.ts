@@ -0,0 +1,481 @@
+// Import necessary libraries for writing execution results in other report formats
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+import { createHash, randomUUID } from 'crypto'; // Allure result IDs
+import type { ExecutionRecord } from './execution-history'; // Recorded runs
+import { getFailedStep, StepRecord, StepStatus } from './report-parser'; // Step-level results
+import { KatalonScreenshotContent } from './screenshot-content'; // Embed screenshots in HTML
+import { KatalonTestManagementExport } from './test-management-export'; // TestRail, Xray, Zephyr
+import type { KatalonTestExecutor, TestResult } from './test-executor';
+
+/**
+ * 📤 ExportFormat Type
+ * Report formats an execution can be written as
+ */
+export type ExportFormat = 'allure' | 'html' | 'csv' | 'markdown' | 'testrail' | 'xray' | 'zephyr';
+
+/**
+ * 📦 ExportOptions Interface
+ * Which executions to export, how, and where to
+ */
+export interface ExportOptions {
+  executionIds: string[]; // Executions to include, in this order
+  projectPath?: string; // Project whose history holds executions no longer in memory
+  outputFolder: string; // Folder the reports are written to (created if missing)
+  formats: ExportFormat[]; // Formats to write
+  mappingFile?: string; // Katalon → external test case IDs (default `.katalon-mcp/test-management.json`)
+}
+
+/**
+ * 📄 ExportedFile Interface
+ * A file (or folder) the export wrote
+ */
+export interface ExportedFile {
+  format: ExportFormat; // Format it is in
+  path: string; // Where it was written
+  unmapped?: string[]; // Test management formats: test cases left out for lack of an external ID
+}
+
+// Allure's names for Katalon's test case outcomes
+const ALLURE_STATUS: Record<TestResult['status'], string> = {
+  PASSED: 'passed',
+  FAILED: 'failed',
+  ERROR: 'broken',
+  SKIPPED: 'skipped',
+};
+
+// Warnings don't fail a step in Allure either
+const ALLURE_STEP_STATUS: Record<StepStatus, string> = {
+  PASSED: 'passed',
+  WARNING: 'passed',
+  FAILED: 'failed',
+  ERROR: 'broken',
+  NOT_RUN: 'skipped',
+};
+
+// One step of an Allure result, with the steps it ran nested inside
+interface AllureStep {
+  name: string;
+  status: string;
+  statusDetails?: { message: string; trace?: string };
+  stage: 'finished';
+  start: number;
+  stop: number;
+  steps: AllureStep[];
+}
+
+// Widest screenshot embedded in the HTML report, to keep the file a reasonable size
+const HTML_SCREENSHOT_WIDTH = 800;
+
+// Header row of the CSV export
+const CSV_COLUMNS = [
+  'executionId',
+  'testSuite',
+  'browser',
+  'executionProfile',
+  'testCase',
+  'status',
+  'durationSeconds',
+  'errorMessage',
+  'failedStep',
+  'failedObject',
+];
+
+/**
+ * 📤 Katalon Report Exporter Class
+ *
+ * Writes recorded executions as Allure results, a standalone HTML page, CSV
+ * and GitHub-flavored Markdown, so results can be attached to pull requests
+ * and wikis without opening Katalon.
+ */
+export class KatalonReportExporter {
+  private screenshotContent = new KatalonScreenshotContent();
+  private testManagement = new KatalonTestManagementExport();
+
+  constructor(private executor: Pick<KatalonTestExecutor, 'findExecutionRecord'>) {}
+
+  /**
+   * 📤 Export Executions
+   * Handles the export tool call and lists the files it wrote
+   */
+  async exportReports(args: any): Promise<{ content: any[] }> {
+    const options: ExportOptions = {
+      executionIds: args.executionIds,
+      projectPath: args.projectPath,
+      outputFolder: path.resolve(args.outputFolder),
+      formats: args.formats ?? ['allure', 'html', 'csv', 'markdown'],
+      mappingFile: args.mappingFile,
+    };
+
+    const records: ExecutionRecord[] = [];
+    for (const executionId of options.executionIds) {
+      records.push(await this.executor.findExecutionRecord(executionId, options.projectPath));
+    }
+
+    const files = await this.writeReports(records, options);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `# Katalon Report Export
+
+- **Executions**: ${records.map(record => record.executionId).join(', ')}
+- **Test Cases**: ${records.reduce((count, record) => count + record.testResults.length, 0)}
+- **Output Folder**: ${options.outputFolder}
+
+## Files
+${files
+  .map(file =>
+    file.unmapped?.length
+      ? `- ${file.path}\n  - ⚠️ No ${file.format} ID for: ${file.unmapped.join(', ')}`
+      : `- ${file.path}`
+  )
+  .join('\n')}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Write the requested formats and return the paths written
+   */
+  async writeReports(records: ExecutionRecord[], options: ExportOptions): Promise<ExportedFile[]> {
+    await fs.ensureDir(options.outputFolder);
+    const files: ExportedFile[] = [];
+
+    for (const format of options.formats) {
+      switch (format) {
+        case 'allure':
+          files.push({
+            format,
+            path: await this.writeAllureResults(records, options.outputFolder),
+          });
+          break;
+        case 'html': {
+          const htmlPath = path.join(options.outputFolder, 'katalon-report.html');
+          await fs.writeFile(htmlPath, await this.toHtml(records));
+          files.push({ format, path: htmlPath });
+          break;
+        }
+        case 'csv': {
+          const csvPath = path.join(options.outputFolder, 'katalon-results.csv');
+          await fs.writeFile(csvPath, this.toCsv(records));
+          files.push({ format, path: csvPath });
+          break;
+        }
+        case 'markdown': {
+          const markdownPath = path.join(options.outputFolder, 'katalon-report.md');
+          await fs.writeFile(markdownPath, this.toMarkdown(records));
+          files.push({ format, path: markdownPath });
+          break;
+        }
+        case 'testrail':
+        case 'xray':
+        case 'zephyr': {
+          const projectPath = options.projectPath ?? records[0]?.options.projectPath;
+          const mapping = projectPath
+            ? await this.testManagement.loadMapping(projectPath, options.mappingFile)
+            : {};
+          const { payload, unmapped } = await this.testManagement.build(format, records, mapping);
+          const importPath = path.join(options.outputFolder, `${format}-import.json`);
+          await fs.writeFile(importPath, JSON.stringify(payload, null, 2));
+          files.push({ format, path: importPath, unmapped });
+          break;
+        }
+        default:
+          throw new Error(`Unknown export format: ${format}`);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Write one Allure result file per test case, with steps and screenshots
+   *
+   * @returns The `allure-results` folder, ready for `allure generate`
+   */
+  async writeAllureResults(records: ExecutionRecord[], outputFolder: string): Promise<string> {
+    const resultsFolder = path.join(outputFolder, 'allure-results');
+    // Start clean, so a repeated export doesn't mix its results with the last one's
+    await fs.emptyDir(resultsFolder);
+
+    for (const record of records) {
+      // Katalon only reports durations, so test cases are laid out back to back
+      let start = new Date(record.startTime).getTime();
+
+      for (const test of record.testResults) {
+        const uuid = randomUUID();
+        const suite = test.testSuiteId ?? record.testSuitePath;
+        const stop = start + test.duration;
+
+        const attachments = [];
+        for (const screenshot of test.screenshots ?? []) {
+          if (!(await fs.pathExists(screenshot))) continue;
+          const source = `${randomUUID()}-attachment${path.extname(screenshot)}`;
+          await fs.copy(screenshot, path.join(resultsFolder, source));
+          attachments.push({
+            name: path.basename(screenshot),
+            source,
+            type: this.screenshotContent.getMimeType(screenshot),
+          });
+        }
+
+        const result = {
+          uuid,
+          historyId: createHash('md5').update(`${suite}#${test.testCaseName}`).digest('hex'),
+          name: test.testCaseName.replace(/^Test Cases\//, ''),
+          fullName: test.testCaseName,
+          status: ALLURE_STATUS[test.status],
+          statusDetails: test.errorMessage
+            ? { message: test.errorMessage, trace: test.stackTrace }
+            : undefined,
+          stage: 'finished',
+          start,
+          stop,
+          labels: [
+            { name: 'framework', value: 'katalon' },
+            { name: 'suite', value: suite },
+            ...(record.browser ? [{ name: 'browser', value: record.browser }] : []),
+            ...(record.executionProfile
+              ? [{ name: 'executionProfile', value: record.executionProfile }]
+              : []),
+            { name: 'executionId', value: record.executionId },
+          ],
+          steps: this.toAllureSteps(test.steps ?? [], start),
+          attachments,
+        };
+
+        await fs.writeFile(
+          path.join(resultsFolder, `${uuid}-result.json`),
+          JSON.stringify(result, null, 2)
+        );
+        start = stop;
+      }
+    }
+
+    // Every suite, browser and profile of the exported executions
+    const distinct = (values: (string | undefined)[]): string =>
+      Array.from(new Set(values.filter(Boolean))).join(', ');
+    const environment = {
+      testSuite: distinct(records.map(record => record.testSuitePath)),
+      browser: distinct(records.map(record => record.browser)),
+      executionProfile: distinct(records.map(record => record.executionProfile)),
+    };
+    if (records.length) {
+      await fs.writeFile(
+        path.join(resultsFolder, 'environment.properties'),
+        Object.entries(environment)
+          .filter(([, value]) => value)
+          .map(([name, value]) => `${name}=${value}`)
+          .join('\n') + '\n'
+      );
+    }
+
+    return resultsFolder;
+  }
+
+  /**
+   * A standalone HTML page, with failure screenshots embedded
+   */
+  async toHtml(records: ExecutionRecord[]): Promise<string> {
+    const sections: string[] = [];
+
+    for (const record of records) {
+      const rows: string[] = [];
+      for (const test of record.testResults) {
+        const step = getFailedStep(test.steps);
+        const images: string[] = [];
+        if (test.status === 'FAILED' || test.status === 'ERROR') {
+          for (const screenshot of test.screenshots ?? []) {
+            const image = await this.screenshotContent
+              .toImageContent(screenshot, HTML_SCREENSHOT_WIDTH)
+              .catch(() => undefined);
+            if (image) {
+              images.push(
+                `<img src="data:${image.mimeType};base64,${image.data}" alt="${this.escapeHtml(path.basename(screenshot))}">`
+              );
+            }
+          }
+        }
+
+        rows.push(`<tr class="${test.status.toLowerCase()}">
+<td>${this.escapeHtml(test.testCaseName)}</td>
+<td>${test.status}</td>
+<td>${(test.duration / 1000).toFixed(2)}s</td>
+<td>${test.errorMessage ? `<pre>${this.escapeHtml(test.errorMessage)}</pre>` : ''}${step ? `<div>Step #${step.index} <code>${this.escapeHtml(step.keyword)}</code>${step.object ? ` on <code>${this.escapeHtml(step.object)}</code>` : ''}</div>` : ''}${images.join('')}</td>
+</tr>`);
+      }
+
+      const counts = this.countStatuses(record.testResults);
+      sections.push(`<section>
+<h2>${this.escapeHtml(record.testSuitePath)} <span class="${record.status.toLowerCase()}">${record.status}</span></h2>
+<p>${this.escapeHtml(record.executionId)} · ${this.escapeHtml(record.startTime)} · ${(record.duration / 1000).toFixed(2)}s${record.browser ? ` · ${this.escapeHtml(record.browser)}` : ''}${record.executionProfile ? ` · ${this.escapeHtml(record.executionProfile)}` : ''}</p>
+<p>Passed ${counts.PASSED} · Failed ${counts.FAILED} · Errors ${counts.ERROR} · Skipped ${counts.SKIPPED}</p>
+<table>
+<thead><tr><th>Test Case</th><th>Status</th><th>Duration</th><th>Details</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</section>`);
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Katalon Test Execution Report</title>
+<style>
+body { font-family: -apple-system, 'Segoe UI', sans-serif; margin: 2em; color: #24292f; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #d0d7de; padding: 6px 10px; text-align: left; vertical-align: top; }
+pre { white-space: pre-wrap; margin: 0; }
+img { display: block; max-width: 100%; margin-top: 6px; }
+.passed { color: #1a7f37; } .failed, .error { color: #cf222e; } .skipped, .cancelled { color: #9a6700; }
+</style>
+</head>
+<body>
+<h1>Katalon Test Execution Report</h1>
+${sections.join('\n')}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * One row per test case of every execution
+   */
+  toCsv(records: ExecutionRecord[]): string {
+    const rows = [CSV_COLUMNS.join(',')];
+    for (const record of records) {
+      for (const test of record.testResults) {
+        const step = getFailedStep(test.steps);
+        rows.push(
+          [
+            record.executionId,
+            test.testSuiteId ?? record.testSuitePath,
+            record.browser ?? '',
+            record.executionProfile ?? '',
+            test.testCaseName,
+            test.status,
+            (test.duration / 1000).toFixed(2),
+            test.errorMessage ?? '',
+            step ? `#${step.index} ${step.keyword}` : '',
+            step?.object ?? '',
+          ]
+            .map(value => this.escapeCsv(value))
+            .join(',')
+        );
+      }
+    }
+    return `${rows.join('\r\n')}\r\n`;
+  }
+
+  /**
+   * GitHub-flavored Markdown: a summary table, then the failures of each execution
+   */
+  toMarkdown(records: ExecutionRecord[]): string {
+    const summary = records.map(record => {
+      const counts = this.countStatuses(record.testResults);
+      return `| ${this.escapeTableCell(record.executionId)} | ${this.escapeTableCell(record.testSuitePath)} | ${record.status === 'PASSED' ? '✅' : '❌'} ${record.status} | ${counts.PASSED} | ${counts.FAILED + counts.ERROR} | ${counts.SKIPPED} | ${(record.duration / 1000).toFixed(2)}s |`;
+    });
+
+    const details = records.map(record => {
+      const failures = record.testResults.filter(
+        test => test.status === 'FAILED' || test.status === 'ERROR'
+      );
+      const failureRows = failures.map(test => {
+        const step = getFailedStep(test.steps);
+        return `| ${this.escapeTableCell(test.testCaseName)} | ${test.status} | ${this.escapeTableCell(test.errorMessage ?? '')} | ${step ? this.formatStep(step) : ''} |`;
+      });
+
+      return `## ${record.testSuitePath} (${record.executionId})
+
+${
+  failures.length
+    ? `<details>
+<summary>${failures.length} failed test case(s)</summary>
+
+| Test Case | Status | Error | Failed Step |
+| --- | --- | --- | --- |
+${failureRows.join('\n')}
+
+</details>`
+    : 'All test cases passed.'
+}`;
+    });
+
+    return `# Katalon Test Execution Report
+
+| Execution | Test Suite | Status | Passed | Failed | Skipped | Duration |
+| --- | --- | --- | ---: | ---: | ---: | ---: |
+${summary.join('\n')}
+
+${details.join('\n\n')}
+`;
+  }
+
+  /**
+   * Nest the flat step list back into Allure's step tree
+   */
+  private toAllureSteps(steps: StepRecord[], start: number): AllureStep[] {
+    const root: AllureStep[] = [];
+    // Innermost open step last, with where its next child starts
+    const open: { depth: number; children: AllureStep[]; cursor: number }[] = [
+      { depth: -1, children: root, cursor: start },
+    ];
+
+    for (const step of steps) {
+      while (open[open.length - 1].depth >= step.depth) {
+        open.pop();
+      }
+      const parent = open[open.length - 1];
+      const stepStart = parent.cursor;
+      const allureStep: AllureStep = {
+        name: step.description || step.keyword,
+        status: ALLURE_STEP_STATUS[step.status],
+        statusDetails: step.message ? { message: step.message, trace: step.stackTrace } : undefined,
+        stage: 'finished',
+        start: stepStart,
+        stop: stepStart + (step.durationMs ?? 0),
+        steps: [],
+      };
+      parent.children.push(allureStep);
+      parent.cursor = allureStep.stop;
+      open.push({ depth: step.depth, children: allureStep.steps, cursor: stepStart });
+    }
+
+    return root;
+  }
+
+  private formatStep(step: StepRecord): string {
+    return `#${step.index} \`${step.keyword}\`${step.object ? ` on \`${this.escapeTableCell(step.object)}\`` : ''}`;
+  }
+
+  private countStatuses(testResults: TestResult[]): Record<TestResult['status'], number> {
+    const counts = { PASSED: 0, FAILED: 0, ERROR: 0, SKIPPED: 0 };
+    for (const test of testResults) {
+      counts[test.status]++;
+    }
+    return counts;
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private escapeTableCell(text: string): string {
+    // Table rows can't span lines, and a bare pipe would end the cell
+    return text.split(/\r?\n/)[0].replace(/\|/g, '\\|');
+  }
+}
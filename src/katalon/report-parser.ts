@@ -0,0 +1,306 @@
+// Import necessary libraries for reading Katalon's step-level reports
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+import * as xml2js from 'xml2js'; // Convert XML to JavaScript objects
+
+/**
+ * 👣 StepRecord Interface
+ * One executed step of a test case, as Katalon logged it
+ */
+export interface StepRecord {
+  index: number; // Position in the test case, counting nested steps (1 = first)
+  depth: number; // 0 for steps of the test case itself, deeper for steps of called keywords
+  keyword: string; // Keyword that ran (e.g. "click")
+  object?: string; // Test object it acted on (e.g. "Object Repository/Page_Login/btn_Login")
+  description?: string; // The statement as Katalon logged it
+  status: StepStatus; // How the step ended
+  durationMs?: number; // How long the step took
+  message?: string; // Failure or warning message
+  stackTrace?: string; // Stack trace of the failure, when logged
+  screenshot?: string; // Screenshot attached to the step
+}
+
+/**
+ * 🚦 StepStatus Type
+ * Step outcomes, as Katalon names them
+ */
+export type StepStatus = 'PASSED' | 'FAILED' | 'ERROR' | 'WARNING' | 'NOT_RUN';
+
+// Result levels, from best to worst, so a step keeps its worst outcome
+const STATUS_SEVERITY: StepStatus[] = ['NOT_RUN', 'PASSED', 'WARNING', 'FAILED', 'ERROR'];
+
+/**
+ * The step a test case actually failed on
+ *
+ * A step that calls a keyword or test case fails together with the step inside
+ * it, so the deepest failed step is the one that tells what went wrong.
+ */
+export function getFailedStep(steps: StepRecord[] | undefined): StepRecord | undefined {
+  return (steps ?? [])
+    .filter(step => step.status === 'FAILED' || step.status === 'ERROR')
+    .reduce<
+      StepRecord | undefined
+    >((deepest, step) => (!deepest || step.depth > deepest.depth ? step : deepest), undefined);
+}
+
+/**
+ * The Object Repository path a step or failure message refers to
+ *
+ * Statements use `findTestObject('Page/obj')`; failure messages quote the full path.
+ */
+export function getTestObjectReference(text: string): string | undefined {
+  const found = /findTestObject\(\s*['"]([^'"]+)['"]/.exec(text);
+  if (found) {
+    return found[1].startsWith('Object Repository/') ? found[1] : `Object Repository/${found[1]}`;
+  }
+  return /'(Object Repository\/[^']+)'/.exec(text)?.[1];
+}
+
+/**
+ * 📖 Katalon Report Parser Class
+ *
+ * Reads the step-level reports Katalon writes next to its JUnit report:
+ * the `execution0.log` XML log and, when present, the JSON report. JUnit
+ * only says which test case failed; these say which step, on which object,
+ * and with what stack trace and screenshot.
+ */
+export class KatalonReportParser {
+  private parser = new xml2js.Parser();
+
+  /**
+   * Steps per test case ID from the reports in one report folder
+   *
+   * The JSON report is preferred when it has steps; `execution0.log` fills in the rest.
+   */
+  async parseFolder(folder: string): Promise<Map<string, StepRecord[]>> {
+    const steps = new Map<string, StepRecord[]>();
+
+    const logPath = path.join(folder, 'execution0.log');
+    if (await fs.pathExists(logPath)) {
+      for (const [testCaseId, records] of await this.parseExecutionLog(logPath)) {
+        steps.set(testCaseId, records);
+      }
+    }
+
+    const jsonFiles = (await fs.readdir(folder).catch(() => [] as string[])).filter(file =>
+      file.toLowerCase().endsWith('.json')
+    );
+    for (const jsonFile of jsonFiles.sort()) {
+      for (const [testCaseId, records] of await this.parseJsonReport(path.join(folder, jsonFile))) {
+        if (records.length > 0) {
+          steps.set(testCaseId, records);
+        }
+      }
+    }
+
+    return steps;
+  }
+
+  /**
+   * Parse Katalon's `execution0.log` (java.util.logging XML) into steps per test case
+   */
+  async parseExecutionLog(logPath: string): Promise<Map<string, StepRecord[]>> {
+    // The log references a DTD that isn't shipped next to it
+    const xmlContent = (await fs.readFile(logPath, 'utf-8')).replace(/<!DOCTYPE[^>]*>/, '');
+    const result = await this.parser.parseStringPromise(xmlContent);
+    const records: any[] = result?.log?.record || [];
+
+    const testCases = new Map<string, StepRecord[]>();
+    let testCaseId: string | undefined;
+    let steps: StepRecord[] = [];
+    // Steps that have started but not ended yet, innermost last
+    const open: { step: StepRecord; startMillis: number }[] = [];
+
+    for (const record of records) {
+      const level: string = record.level?.[0] ?? '';
+      const message: string = record.message?.[0] ?? '';
+      const millis = Number(record.millis?.[0]);
+      const properties = this.getProperties(record);
+
+      if (level === 'START') {
+        const testCaseStart = /^Start Test Case : (.+)$/.exec(message);
+        if (testCaseStart && !testCaseId) {
+          testCaseId = properties.id || testCaseStart[1].trim();
+          steps = [];
+          open.length = 0;
+          continue;
+        }
+        if (!testCaseId) {
+          continue; // Suite-level records
+        }
+
+        // Actions, and test cases called from this one, are steps
+        const description = testCaseStart
+          ? `callTestCase ${testCaseStart[1].trim()}`
+          : message.replace(/^Start (listener )?action : /, '');
+        const step: StepRecord = {
+          index: steps.length + 1,
+          depth: open.length,
+          keyword: testCaseStart ? 'callTestCase' : this.getKeyword(description),
+          object: testCaseStart ? testCaseStart[1].trim() : getTestObjectReference(description),
+          description,
+          status: 'PASSED',
+        };
+        steps.push(step);
+        open.push({ step, startMillis: millis });
+        continue;
+      }
+
+      if (level === 'END') {
+        const current = open.pop();
+        if (current) {
+          if (Number.isFinite(millis) && Number.isFinite(current.startMillis)) {
+            current.step.durationMs = millis - current.startMillis;
+          }
+        } else if (testCaseId && /^End Test Case : /.test(message)) {
+          testCases.set(testCaseId, steps);
+          testCaseId = undefined;
+        }
+        continue;
+      }
+
+      // A result record belongs to the innermost step that is still running
+      const step = open[open.length - 1]?.step;
+      if (!step || !STATUS_SEVERITY.includes(level as StepStatus)) {
+        continue;
+      }
+      this.applyResult(step, level as StepStatus, message, properties.attachment, logPath);
+    }
+
+    // A log cut short by a stopped run still tells us how far the test case got
+    if (testCaseId) {
+      testCases.set(testCaseId, steps);
+    }
+    return testCases;
+  }
+
+  /**
+   * Parse a Katalon JSON report into steps per test case
+   *
+   * Reports without a `testCases` list (other JSON files in the folder) are ignored.
+   */
+  async parseJsonReport(jsonPath: string): Promise<Map<string, StepRecord[]>> {
+    const testCases = new Map<string, StepRecord[]>();
+    let report: any;
+    try {
+      report = JSON.parse(await fs.readFile(jsonPath, 'utf-8'));
+    } catch {
+      return testCases;
+    }
+
+    const suites: any[] = Array.isArray(report?.testSuites) ? report.testSuites : [report];
+    for (const suite of suites) {
+      if (!Array.isArray(suite?.testCases)) {
+        continue;
+      }
+      for (const testCase of suite.testCases) {
+        const testCaseId = testCase.id || testCase.name;
+        if (!testCaseId) {
+          continue;
+        }
+        const steps: StepRecord[] = [];
+        this.collectJsonSteps(testCase.steps || testCase.children || [], 0, steps, jsonPath);
+        testCases.set(testCaseId, steps);
+      }
+    }
+    return testCases;
+  }
+
+  private collectJsonSteps(
+    jsonSteps: any[],
+    depth: number,
+    steps: StepRecord[],
+    jsonPath: string
+  ): void {
+    for (const jsonStep of jsonSteps) {
+      const description: string | undefined = jsonStep.description || jsonStep.name;
+      const step: StepRecord = {
+        index: steps.length + 1,
+        depth,
+        keyword: jsonStep.keyword || this.getKeyword(description ?? ''),
+        object: jsonStep.testObject || jsonStep.object || getTestObjectReference(description ?? ''),
+        description,
+        status: 'PASSED',
+        durationMs:
+          jsonStep.duration ??
+          (jsonStep.startTime !== undefined && jsonStep.endTime !== undefined
+            ? Number(jsonStep.endTime) - Number(jsonStep.startTime)
+            : undefined),
+      };
+      steps.push(step);
+
+      const status = String(jsonStep.status || 'PASSED').toUpperCase() as StepStatus;
+      this.applyResult(
+        step,
+        STATUS_SEVERITY.includes(status) ? status : 'PASSED',
+        jsonStep.message || '',
+        jsonStep.attachment || jsonStep.screenshot,
+        jsonPath
+      );
+      if (jsonStep.stackTrace) {
+        step.stackTrace = jsonStep.stackTrace;
+      }
+
+      this.collectJsonSteps(jsonStep.steps || jsonStep.children || [], depth + 1, steps, jsonPath);
+    }
+  }
+
+  private applyResult(
+    step: StepRecord,
+    status: StepStatus,
+    message: string,
+    attachment: string | undefined,
+    reportPath: string
+  ): void {
+    if (STATUS_SEVERITY.indexOf(status) > STATUS_SEVERITY.indexOf(step.status)) {
+      step.status = status;
+    }
+
+    if (status !== 'PASSED' && status !== 'NOT_RUN' && message) {
+      const { summary, stackTrace } = this.splitStackTrace(message);
+      step.message = summary;
+      step.stackTrace = stackTrace ?? step.stackTrace;
+      step.object = step.object ?? getTestObjectReference(summary);
+    }
+
+    if (attachment) {
+      step.screenshot = path.resolve(path.dirname(reportPath), attachment);
+    }
+  }
+
+  /**
+   * Katalon puts the stack trace into the failure message; split them up again
+   */
+  private splitStackTrace(message: string): { summary: string; stackTrace?: string } {
+    const lines = message.split(/\r?\n/);
+    const traceStart = lines.findIndex(
+      (line, index) => index > 0 && (/^\s+at /.test(line) || /^Caused by:/.test(line))
+    );
+    if (traceStart < 0) {
+      return { summary: message.trim() };
+    }
+
+    // The exception line just before the first "at" belongs to the trace
+    const exceptionLine = traceStart > 1 ? traceStart - 1 : traceStart;
+    return {
+      summary: lines.slice(0, exceptionLine).join('\n').trim() || lines[0].trim(),
+      stackTrace: lines.slice(exceptionLine).join('\n').trim(),
+    };
+  }
+
+  private getKeyword(description: string): string {
+    // "WebUI.click(findTestObject('Page_Login/btn_Login'))" or just "click"
+    const call = /(?:^|\.)(\w+)\s*\(/.exec(description);
+    return call ? call[1] : description.trim().split(/\s+/)[0] || 'unknown';
+  }
+
+  private getProperties(record: any): Record<string, string> {
+    const properties: Record<string, string> = {};
+    for (const property of record.property || []) {
+      if (property?.$?.name) {
+        properties[property.$.name] = property._ ?? '';
+      }
+    }
+    return properties;
+  }
+}
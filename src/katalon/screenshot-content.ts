@@ -0,0 +1,88 @@
+// Import necessary libraries for turning screenshots into MCP image content
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+import { decodePng, encodePng } from './png-codec'; // Read and write PNG pixels
+
+/**
+ * 🖼️ ImageContent Interface
+ * An MCP `image` content block
+ */
+export interface ImageContent {
+  type: 'image';
+  data: string; // Base64-encoded image bytes
+  mimeType: string; // e.g. "image/png"
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+/**
+ * 📸 Katalon Screenshot Content Class
+ *
+ * Reads screenshots from a report folder as MCP image content, so a remote
+ * client can see them instead of a path on the server's disk. PNGs wider
+ * than the requested width are scaled down to keep responses small; other
+ * formats are sent as they are.
+ */
+export class KatalonScreenshotContent {
+  /**
+   * Read a screenshot as an MCP image content block
+   *
+   * @param maxWidth - Scale PNGs down to at most this many pixels wide
+   */
+  async toImageContent(filePath: string, maxWidth?: number): Promise<ImageContent> {
+    let data: Buffer = await fs.readFile(filePath);
+    const mimeType = this.getMimeType(filePath);
+
+    if (maxWidth && mimeType === 'image/png') {
+      data = this.downscalePng(data, maxWidth);
+    }
+
+    return { type: 'image', data: data.toString('base64'), mimeType };
+  }
+
+  getMimeType(filePath: string): string {
+    return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+  }
+
+  /**
+   * Shrink a PNG by averaging blocks of pixels
+   *
+   * PNGs we can't resample (palette, 16-bit or interlaced) come back unchanged.
+   */
+  downscalePng(png: Buffer, maxWidth: number): Buffer {
+    const decoded = decodePng(png);
+    if (!decoded || decoded.width <= maxWidth) {
+      return png;
+    }
+
+    // Whole-pixel blocks keep the averaging simple and the result sharp enough to read
+    const factor = Math.ceil(decoded.width / maxWidth);
+    const width = Math.max(1, Math.floor(decoded.width / factor));
+    const height = Math.max(1, Math.floor(decoded.height / factor));
+    const { channels } = decoded;
+    const pixels = Buffer.alloc(width * height * channels);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < channels; c++) {
+          let sum = 0;
+          for (let dy = 0; dy < factor; dy++) {
+            const row = (y * factor + dy) * decoded.width * channels;
+            for (let dx = 0; dx < factor; dx++) {
+              sum += decoded.pixels[row + (x * factor + dx) * channels + c];
+            }
+          }
+          pixels[(y * width + x) * channels + c] = Math.round(sum / (factor * factor));
+        }
+      }
+    }
+
+    return encodePng({ ...decoded, width, height, pixels });
+  }
+}
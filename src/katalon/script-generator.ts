@@ -0,0 +1,460 @@
+import { KatalonKeywordManager, KeywordInfo, KeywordParameter } from './keyword-manager'; // Built-in keyword catalog
+
+/**
+ * 🧭 ScriptType Type
+ * Which built-in keyword class a test case script is written against
+ */
+export type ScriptType = 'web' | 'api' | 'mobile';
+
+/**
+ * 🪜 TestStep Interface
+ * A step written as the keyword call to make rather than as a sentence
+ */
+export interface TestStep {
+  keyword: string; // Built-in keyword (e.g. "WebUI.setText")
+  object?: string; // Object Repository ID for keywords that take a test object (e.g. "Page_Login/input_username")
+  inputs?: StepInput[]; // The keyword's other arguments, in order
+  failureHandling?: FailureHandling; // What a failing step does to the test case
+  description?: string; // Shown in the manual view and above the call in the script
+}
+
+/**
+ * 🔣 StepInput Type
+ * A literal argument, or `{ expression }` for Groovy passed as is (e.g. "GlobalVariable.password")
+ */
+export type StepInput = string | number | boolean | { expression: string };
+
+/**
+ * 🚦 FailureHandling Type
+ * Katalon's `FailureHandling` options
+ */
+export type FailureHandling = 'STOP_ON_FAILURE' | 'CONTINUE_ON_FAILURE' | 'OPTIONAL';
+
+/**
+ * 🔗 ScriptStep Interface
+ * A keyword call of the script, as the .tc manual view records it
+ */
+export interface ScriptStep {
+  keyword: string; // Keyword called (e.g. "WebUI.click")
+  parameters: string[]; // Groovy expression of each argument
+  description: string; // What the step does
+}
+
+/**
+ * 📝 GeneratedScript Interface
+ * A test case script and the steps it couldn't turn into keyword calls
+ */
+export interface GeneratedScript {
+  script: string; // Groovy source for Scripts/<test case>/Script<timestamp>.groovy
+  steps: ScriptStep[]; // Keyword calls, in script order
+  todos: string[]; // Steps left as TODO comments
+}
+
+/**
+ * 🎯 ScriptContext Interface
+ * What the generator knows about the test case and its project
+ */
+export interface ScriptContext {
+  type: ScriptType; // Web, API or mobile keywords
+  targetUrl?: string; // Web: page to open first
+  objects: string[]; // Object Repository IDs (e.g. "Object Repository/Page_Login/btn_Login")
+}
+
+// The import block Katalon Studio puts at the top of every new test case script
+const SCRIPT_IMPORTS = `import static com.kms.katalon.core.checkpoint.CheckpointFactory.findCheckpoint
+import static com.kms.katalon.core.testcase.TestCaseFactory.findTestCase
+import static com.kms.katalon.core.testdata.TestDataFactory.findTestData
+import static com.kms.katalon.core.testobject.ObjectRepository.findTestObject
+import static com.kms.katalon.core.testobject.ObjectRepository.findWindowsObject
+import com.kms.katalon.core.checkpoint.Checkpoint as Checkpoint
+import com.kms.katalon.core.cucumber.keyword.CucumberBuiltinKeywords as CucumberKW
+import com.kms.katalon.core.mobile.keyword.MobileBuiltInKeywords as Mobile
+import com.kms.katalon.core.model.FailureHandling as FailureHandling
+import com.kms.katalon.core.testcase.TestCase as TestCase
+import com.kms.katalon.core.testdata.TestData as TestData
+import com.kms.katalon.core.testng.keyword.TestNGBuiltinKeywords as TestNGKW
+import com.kms.katalon.core.testobject.TestObject as TestObject
+import com.kms.katalon.core.webservice.keyword.WSBuiltInKeywords as WS
+import com.kms.katalon.core.webui.keyword.WebUiBuiltInKeywords as WebUI
+import com.kms.katalon.core.windows.keyword.WindowsBuiltinKeywords as Windows
+import internal.GlobalVariable as GlobalVariable
+import org.openqa.selenium.Keys as Keys`;
+
+// Words that describe an element's role or glue a sentence together, not which element it is
+const NOISE_WORDS = new Set([
+  'a',
+  'an',
+  'the',
+  'on',
+  'in',
+  'into',
+  'to',
+  'of',
+  'for',
+  'is',
+  'and',
+  'with',
+  'btn',
+  'button',
+  'input',
+  'txt',
+  'textbox',
+  'field',
+  'lnk',
+  'link',
+  'lbl',
+  'label',
+  'div',
+  'span',
+  'page',
+]);
+
+// Seconds keyword calls that take a timeout wait for
+const DEFAULT_TIMEOUT = 10;
+
+// Keyword categories a test step can call; the others are helpers used inside arguments
+const STEP_CATEGORIES = ['WebUI', 'WebService', 'Mobile'];
+
+// Parameter types filled from the step's `object`
+const OBJECT_TYPES = ['TestObject', 'RequestObject'];
+
+// Values accepted for `failureHandling`
+const FAILURE_HANDLING: FailureHandling[] = ['STOP_ON_FAILURE', 'CONTINUE_ON_FAILURE', 'OPTIONAL'];
+
+/**
+ * 🧱 Katalon Script Generator Class
+ *
+ * Turns test steps into the Groovy script Katalon actually runs, with
+ * `WebUI`, `WS` or `Mobile` calls on Object Repository items that exist in
+ * the project. Steps are either plain language ("Click the login button",
+ * "Enter 'john' into the username field") or structured keyword calls.
+ * Plain-language steps it can't map confidently are kept as `// TODO`
+ * comments rather than guessed; structured steps naming an unknown keyword
+ * or a missing object are rejected, so nothing is written for them.
+ */
+export class KatalonScriptGenerator {
+  /**
+   * @param keywords - Keyword catalog that steps are checked against
+   */
+  constructor(private keywords: KeywordInfo[] = new KatalonKeywordManager().getBuiltInKeywords()) {}
+
+  /**
+   * Write the script for a list of steps
+   */
+  generate(steps: (string | TestStep)[], context: ScriptContext): GeneratedScript {
+    const calls: ScriptStep[] = [];
+    const statements: string[] = [];
+    const todos: string[] = [];
+    const errors: string[] = [];
+
+    const addCall = (step: TestStep, description = '') => {
+      const call = this.compileStep(step, context);
+      calls.push({ ...call.step, description: step.description ?? description });
+      statements.push(
+        step.description ? `${this.quote(step.description)}\n${call.statement}` : call.statement
+      );
+    };
+
+    const opensBrowser = steps.some(step =>
+      typeof step === 'string'
+        ? /^\s*(open|launch)\b.*\bbrowser\b/i.test(step)
+        : step.keyword === 'WebUI.openBrowser'
+    );
+    const wrapsBrowser = context.type === 'web' && !!context.targetUrl && !opensBrowser;
+    if (wrapsBrowser) {
+      addCall({ keyword: 'WebUI.openBrowser' });
+      addCall({ keyword: 'WebUI.navigateToUrl', inputs: [context.targetUrl!] });
+    }
+
+    steps.forEach((step, index) => {
+      if (typeof step !== 'string') {
+        try {
+          addCall(step);
+        } catch (error) {
+          errors.push(
+            `Step ${index + 1}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+        return;
+      }
+
+      const text = step.trim();
+      if (!text) {
+        return;
+      }
+      const mapped = this.mapStep(text, context);
+      if (mapped) {
+        mapped.forEach(call => addCall(call, text));
+      } else {
+        statements.push(`// TODO: ${text.replace(/\r?\n/g, ' ')}`);
+        todos.push(text);
+      }
+    });
+
+    if (errors.length) {
+      throw new Error(`Invalid test steps:\n${errors.map(error => `- ${error}`).join('\n')}`);
+    }
+
+    if (wrapsBrowser && !calls.some(call => call.keyword === 'WebUI.closeBrowser')) {
+      addCall({ keyword: 'WebUI.closeBrowser' });
+    }
+
+    return {
+      script: `${SCRIPT_IMPORTS}\n\n${statements.join('\n\n')}\n`,
+      steps: calls,
+      todos,
+    };
+  }
+
+  /**
+   * Check a step against the keyword catalog and the project's objects, and write its call
+   */
+  private compileStep(
+    step: TestStep,
+    context: ScriptContext
+  ): { step: Omit<ScriptStep, 'description'>; statement: string } {
+    const keyword = this.keywords.find(keyword => keyword.name === step.keyword);
+    if (!keyword || !STEP_CATEGORIES.includes(keyword.category)) {
+      throw new Error(`Unknown keyword "${step.keyword}"`);
+    }
+
+    const inputs = [...(step.inputs ?? [])];
+    const parameters: string[] = [];
+    let takesObject = false;
+
+    for (const parameter of keyword.parameters) {
+      if (OBJECT_TYPES.includes(parameter.type)) {
+        takesObject = true;
+        parameters.push(
+          `findTestObject(${this.quote(this.resolveObject(step, keyword, context))})`
+        );
+      } else if (parameter.type === 'ResponseObject') {
+        parameters.push('response'); // Set by the WS.sendRequest step before it
+      } else if (inputs.length) {
+        parameters.push(this.toExpression(inputs.shift()!, parameter));
+      } else if (parameter.defaultValue !== undefined) {
+        parameters.push(parameter.defaultValue);
+      } else if (parameter.required) {
+        throw new Error(`${keyword.name} needs a value for "${parameter.name}"`);
+      }
+    }
+
+    if (inputs.length) {
+      const accepted = keyword.parameters.filter(
+        parameter => !OBJECT_TYPES.includes(parameter.type) && parameter.type !== 'ResponseObject'
+      ).length;
+      throw new Error(`${keyword.name} takes ${accepted} input(s), got ${step.inputs!.length}`);
+    }
+    if (step.object !== undefined && !takesObject) {
+      throw new Error(`${keyword.name} does not take a test object`);
+    }
+    if (step.failureHandling !== undefined) {
+      if (!FAILURE_HANDLING.includes(step.failureHandling)) {
+        throw new Error(`Unknown failure handling "${step.failureHandling}"`);
+      }
+      parameters.push(`FailureHandling.${step.failureHandling}`);
+    }
+
+    const assignment = keyword.returnType === 'ResponseObject' ? 'response = ' : '';
+    return {
+      step: { keyword: keyword.name, parameters },
+      statement: `${assignment}${keyword.name}(${parameters.join(', ')})`,
+    };
+  }
+
+  /**
+   * Object Repository ID (without the folder prefix) of the step's object, which has to exist
+   */
+  private resolveObject(step: TestStep, keyword: KeywordInfo, context: ScriptContext): string {
+    if (!step.object) {
+      throw new Error(`${keyword.name} needs a test object`);
+    }
+
+    const id = step.object.replace(/^\/+|\/+$/g, '').replace(/^Object Repository\//, '');
+    if (!context.objects.includes(`Object Repository/${id}`)) {
+      throw new Error(`Test object "${id}" not found in the Object Repository`);
+    }
+    return id;
+  }
+
+  private toExpression(input: StepInput, parameter: KeywordParameter): string {
+    if (typeof input === 'object' && input !== null) {
+      if (typeof input.expression !== 'string' || !input.expression.trim()) {
+        throw new Error(`"${parameter.name}" needs a Groovy expression`);
+      }
+      return input.expression;
+    }
+    if (parameter.type === 'int' && !Number.isInteger(input)) {
+      throw new Error(`"${parameter.name}" must be a whole number`);
+    }
+    if (parameter.type === 'boolean' && typeof input !== 'boolean') {
+      throw new Error(`"${parameter.name}" must be true or false`);
+    }
+    return typeof input === 'string' ? this.quote(input) : String(input);
+  }
+
+  private mapStep(step: string, context: ScriptContext): TestStep[] | undefined {
+    switch (context.type) {
+      case 'web':
+        return this.mapWebStep(step, context);
+      case 'api':
+        return this.mapApiStep(step, context);
+      case 'mobile':
+        return this.mapMobileStep(step, context);
+    }
+  }
+
+  private mapWebStep(step: string, context: ScriptContext): TestStep[] | undefined {
+    const verb = this.getVerb(step);
+    const value = this.getQuotedValue(step);
+    const url = this.getUrl(step);
+
+    if (/^(open|launch)$/.test(verb) && /\bbrowser\b/i.test(step)) {
+      return [
+        { keyword: 'WebUI.openBrowser' },
+        ...(url ? [{ keyword: 'WebUI.navigateToUrl', inputs: [url] }] : []),
+      ];
+    }
+    if (/^(close|quit)$/.test(verb) && /\bbrowser\b/i.test(step)) {
+      return [{ keyword: 'WebUI.closeBrowser' }];
+    }
+    if (/^(navigate|go|browse|open|visit)$/.test(verb) && url) {
+      return [{ keyword: 'WebUI.navigateToUrl', inputs: [url] }];
+    }
+    if (/screenshot/i.test(step)) {
+      return [{ keyword: 'WebUI.takeScreenshot' }];
+    }
+    if (/^(verify|check|assert|ensure|confirm)$/.test(verb) && value && /\btext\b/i.test(step)) {
+      return [{ keyword: 'WebUI.verifyTextPresent', inputs: [value, false] }];
+    }
+
+    const object = this.findObject(step, context.objects, value);
+    if (!object) {
+      return undefined;
+    }
+    if (/^(click|press|tap|submit)$/.test(verb)) {
+      return [{ keyword: 'WebUI.click', object }];
+    }
+    if (/^(enter|type|input|fill|set)$/.test(verb) && value !== undefined) {
+      return [{ keyword: 'WebUI.setText', object, inputs: [value] }];
+    }
+    if (/^(select|choose|pick)$/.test(verb) && value !== undefined) {
+      return [{ keyword: 'WebUI.selectOptionByLabel', object, inputs: [value, false] }];
+    }
+    if (/^(verify|check|assert|ensure|confirm)$/.test(verb)) {
+      return [{ keyword: 'WebUI.verifyElementPresent', object, inputs: [DEFAULT_TIMEOUT] }];
+    }
+    if (verb === 'wait') {
+      return [{ keyword: 'WebUI.waitForElementVisible', object, inputs: [DEFAULT_TIMEOUT] }];
+    }
+    return undefined;
+  }
+
+  private mapApiStep(step: string, context: ScriptContext): TestStep[] | undefined {
+    const verb = this.getVerb(step);
+    const status = /\bstatus(?: code)?\D{0,10}(\d{3})\b/i.exec(step);
+
+    if (/^(verify|check|assert|ensure|expect)$/.test(verb) && status) {
+      return [{ keyword: 'WS.verifyResponseStatusCode', inputs: [Number(status[1])] }];
+    }
+    if (/^(send|call|request|invoke|execute|get|post|put|delete|patch)$/.test(verb)) {
+      const object = this.findObject(step, context.objects);
+      return object ? [{ keyword: 'WS.sendRequest', object }] : undefined;
+    }
+    return undefined;
+  }
+
+  private mapMobileStep(step: string, context: ScriptContext): TestStep[] | undefined {
+    const verb = this.getVerb(step);
+    const value = this.getQuotedValue(step);
+
+    if (/^(start|launch|open)$/.test(verb) && /\b(app|application)\b/i.test(step)) {
+      return value ? [{ keyword: 'Mobile.startApplication', inputs: [value] }] : undefined;
+    }
+    if (/^(close|quit|stop)$/.test(verb) && /\b(app|application)\b/i.test(step)) {
+      return [{ keyword: 'Mobile.closeApplication' }];
+    }
+
+    const object = this.findObject(step, context.objects, value);
+    if (!object) {
+      return undefined;
+    }
+    if (/^(tap|click|press)$/.test(verb)) {
+      return [{ keyword: 'Mobile.tap', object, inputs: [DEFAULT_TIMEOUT] }];
+    }
+    if (/^(enter|type|input|fill|set)$/.test(verb) && value !== undefined) {
+      return [{ keyword: 'Mobile.setText', object, inputs: [value, DEFAULT_TIMEOUT] }];
+    }
+    if (/^(verify|check|assert|ensure|confirm)$/.test(verb)) {
+      return [{ keyword: 'Mobile.verifyElementExist', object, inputs: [DEFAULT_TIMEOUT] }];
+    }
+    return undefined;
+  }
+
+  /**
+   * ID of the one Object Repository item the step names, if any
+   *
+   * Every word of an item's name (roles like "btn" aside) has to appear in the
+   * step; the item matching the most words wins, and a tie maps nothing.
+   */
+  private findObject(step: string, objects: string[], value?: string): string | undefined {
+    // A typed value ("Enter 'login' into ...") must not pick the element
+    const words = new Set(this.getWords(value ? step.replace(value, ' ') : step));
+    let best: { id: string; score: number }[] = [];
+
+    for (const id of objects) {
+      const name = this.getWords(id.split('/').pop() ?? '');
+      if (!name.length || !name.every(word => words.has(word))) {
+        continue;
+      }
+
+      // Folder names (e.g. "Page_Login") break ties between same-named items
+      const folder = this.getWords(id.split('/').slice(1, -1).join(' '));
+      const score = name.length * 10 + folder.filter(word => words.has(word)).length;
+      if (!best.length || score > best[0].score) {
+        best = [{ id, score }];
+      } else if (score === best[0].score) {
+        best.push({ id, score });
+      }
+    }
+
+    if (best.length !== 1) {
+      return undefined;
+    }
+    return best[0].id.replace(/^Object Repository\//, '');
+  }
+
+  private getWords(text: string): string[] {
+    return text
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word && !NOISE_WORDS.has(word));
+  }
+
+  private getVerb(step: string): string {
+    return (/^[a-z]+/i.exec(step)?.[0] ?? '').toLowerCase();
+  }
+
+  private getQuotedValue(step: string): string | undefined {
+    return /'([^']*)'|"([^"]*)"/
+      .exec(step)
+      ?.slice(1)
+      .find(group => group !== undefined);
+  }
+
+  private getUrl(step: string): string | undefined {
+    return /https?:\/\/[^\s'"]+/i.exec(step)?.[0];
+  }
+
+  /**
+   * Groovy single-quoted string literal; it can't span lines, so line breaks are escaped too
+   */
+  private quote(value: string): string {
+    const escapes: Record<string, string> = { '\n': '\\n', '\r': '\\r', '\t': '\\t' };
+    const escaped = value
+      .replace(/[\\']/g, char => `\\${char}`)
+      .replace(/[\n\r\t]/g, char => escapes[char]);
+    return `'${escaped}'`;
+  }
+}
@@ -0,0 +1,406 @@
+// Import necessary libraries for simulating katalonc runs
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+import * as xml2js from 'xml2js'; // Convert between XML and JavaScript objects
+import { KatalonInvocation, KatalonRunner } from './execution-runner';
+import { KatalonTestSuiteCollectionParser } from './test-suite-collection';
+
+/**
+ * 🎲 SimulatedOutcome Type
+ * What a simulated test case should end with
+ */
+export type SimulatedOutcome = 'passed' | 'failed' | 'error' | 'skipped';
+
+/**
+ * 📜 SimulationScript Interface
+ * The pass/fail script a simulated run follows
+ * Read from `.katalon-mcp/simulation.json` in the project, or the server's script file
+ */
+export interface SimulationScript {
+  defaultOutcome?: SimulatedOutcome; // Outcome of test cases the script doesn't mention (default passed)
+  testCases?: Record<string, SimulatedOutcome>; // Outcome per test case ID; `*` matches anything
+  failureMessage?: string; // Message reported for failed and errored test cases
+  testCaseDurationMs?: number; // How long each test case "runs" (default 0)
+}
+
+/**
+ * 🧾 SimulatedSuite Interface
+ * One suite the simulated run goes through, with the test cases it runs
+ */
+interface SimulatedSuite {
+  testSuiteId: string; // Katalon ID of the suite (e.g. "Test Suites/Smoke")
+  name: string; // Suite name used for the report
+  browser?: string; // Browser the suite "runs" in
+  testCaseIds: string[]; // Enabled test cases in run order
+  reportFolder: string; // Where this suite's reports go
+}
+
+/**
+ * 🧪 SimulatedTestCase Interface
+ * How one simulated test case went
+ */
+interface SimulatedTestCase {
+  id: string; // Test case ID (e.g. "Test Cases/Login")
+  outcome: SimulatedOutcome; // What the script said should happen
+  startedAt: number; // Epoch milliseconds when it started
+  durationMs: number; // How long it took
+  screenshot?: string; // Failure screenshot, relative to the suite's report folder
+}
+
+const OUTCOMES: SimulatedOutcome[] = ['passed', 'failed', 'error', 'skipped'];
+
+// A 1×1 grey PNG standing in for a failure screenshot
+const PLACEHOLDER_SCREENSHOT = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+/**
+ * 🎭 Katalon Simulated Runner Class
+ *
+ * Pretends to be katalonc so prompts and workflows can be developed on a
+ * machine without Katalon. It reads the suite's test cases, prints the
+ * console lines katalonc would print and leaves a report folder with JUnit
+ * XML, `execution.log` and placeholder screenshots, so the executor's real
+ * parsing and formatting run end to end.
+ */
+export class KatalonSimulatedRunner implements KatalonRunner {
+  readonly name = 'simulated' as const;
+  private parser = new xml2js.Parser();
+  private builder = new xml2js.Builder();
+  private collectionParser = new KatalonTestSuiteCollectionParser();
+
+  // Runs currently going, with a way to cut their current test case short
+  private running: Map<string, { stopped: boolean; wake?: () => void }> = new Map();
+
+  /**
+   * @param scriptFile - Server-wide script used when a project has none of its own
+   */
+  constructor(private scriptFile?: string) {}
+
+  async run(invocation: KatalonInvocation): Promise<{ exitCode: number; output: string }> {
+    const { executionId, reportFolder } = invocation;
+    const state: { stopped: boolean; wake?: () => void } = { stopped: false };
+    this.running.set(executionId, state);
+
+    let output = '';
+    const log = (level: 'INFO' | 'ERROR', message: string) => {
+      const timestamp = new Date().toISOString().replace('T', ' ').replace('Z', '');
+      const line = `${timestamp} ${level.padEnd(5)} c.k.katalon.core.main.TestCaseExecutor   - ${message}\n`;
+      output += line;
+      invocation.onOutput(line, 'stdout');
+    };
+
+    try {
+      const script = await this.loadScript(invocation.projectPath);
+      const suites = await this.getSuites(invocation);
+      await fs.ensureDir(reportFolder);
+
+      const outcomes: SimulatedOutcome[] = [];
+      for (const suite of suites) {
+        const testCases: SimulatedTestCase[] = [];
+
+        for (const testCaseId of suite.testCaseIds) {
+          if (state.stopped) {
+            break;
+          }
+
+          const started = Date.now();
+          log('INFO', `START ${testCaseId}`);
+          await this.sleep(script.testCaseDurationMs ?? 0, state);
+          if (state.stopped) {
+            // Killed halfway through a test case: katalonc never reports it
+            break;
+          }
+
+          const outcome = this.getOutcome(script, testCaseId);
+          let screenshot: string | undefined;
+          if (outcome === 'failed' || outcome === 'error') {
+            log('ERROR', `❌ ${testCaseId} ${outcome === 'failed' ? 'FAILED' : 'ERROR'}.`);
+            screenshot = `${path.basename(testCaseId)}_failure.png`;
+            await fs.outputFile(path.join(suite.reportFolder, screenshot), PLACEHOLDER_SCREENSHOT);
+          }
+          log('INFO', `END ${testCaseId}`);
+
+          testCases.push({
+            id: testCaseId,
+            outcome,
+            startedAt: started,
+            durationMs: Date.now() - started,
+            screenshot,
+          });
+          outcomes.push(outcome);
+        }
+
+        // The step log is written as the run goes, so even a stopped run has one
+        await fs.outputFile(
+          path.join(suite.reportFolder, 'execution0.log'),
+          this.buildExecutionLog(suite, testCases, script)
+        );
+
+        // Like katalonc, a run that is stopped early never gets to write its JUnit report
+        if (!state.stopped) {
+          await fs.outputFile(
+            path.join(suite.reportFolder, 'JUnit_Report.xml'),
+            this.buildJUnitReport(suite, testCases, script)
+          );
+        }
+      }
+
+      await fs.outputFile(path.join(reportFolder, 'execution.log'), output);
+
+      // katalonc exit codes: 0 passed, 1 failed test cases, 2 errored test cases
+      let exitCode = 0;
+      if (state.stopped) {
+        exitCode = 1;
+      } else if (outcomes.includes('error')) {
+        exitCode = 2;
+      } else if (outcomes.includes('failed')) {
+        exitCode = 1;
+      }
+      return { exitCode, output };
+    } finally {
+      this.running.delete(executionId);
+    }
+  }
+
+  async stop(executionId: string): Promise<boolean> {
+    const state = this.running.get(executionId);
+    if (!state) {
+      return false;
+    }
+    state.stopped = true;
+    state.wake?.();
+    return true;
+  }
+
+  describe(invocation: Omit<KatalonInvocation, 'onOutput'>): string[] {
+    // Nothing is started; show what a real katalonc would have been given
+    return ['(simulated) katalonc', ...invocation.args];
+  }
+
+  getRunning(): string[] {
+    return Array.from(this.running.keys());
+  }
+
+  /**
+   * Load the script a project's simulated runs follow
+   *
+   * The project's own script wins over the server's; with neither, every test case passes.
+   */
+  async loadScript(projectPath: string): Promise<SimulationScript> {
+    const projectScript = path.join(projectPath, '.katalon-mcp', 'simulation.json');
+    for (const scriptPath of [projectScript, this.scriptFile]) {
+      if (scriptPath && (await fs.pathExists(scriptPath))) {
+        return this.readScript(scriptPath);
+      }
+    }
+    return {};
+  }
+
+  private async readScript(scriptPath: string): Promise<SimulationScript> {
+    let script: any;
+    try {
+      script = JSON.parse(await fs.readFile(scriptPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Invalid simulation script in ${scriptPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const outcomes = [script?.defaultOutcome, ...Object.values(script?.testCases ?? {})];
+    const unknown = outcomes.find(
+      outcome => outcome !== undefined && !OUTCOMES.includes(outcome as SimulatedOutcome)
+    );
+    if (unknown !== undefined) {
+      throw new Error(
+        `Invalid simulation script in ${scriptPath}: unknown outcome "${unknown}" (use ${OUTCOMES.join(', ')})`
+      );
+    }
+    if (
+      script.testCaseDurationMs !== undefined &&
+      !(typeof script.testCaseDurationMs === 'number' && script.testCaseDurationMs >= 0)
+    ) {
+      throw new Error(
+        `Invalid simulation script in ${scriptPath}: testCaseDurationMs must be a number of milliseconds`
+      );
+    }
+
+    return script;
+  }
+
+  private getOutcome(script: SimulationScript, testCaseId: string): SimulatedOutcome {
+    const testCases = script.testCases ?? {};
+    if (testCases[testCaseId]) {
+      return testCases[testCaseId];
+    }
+
+    // Fall back to the first wildcard pattern that matches
+    for (const [pattern, outcome] of Object.entries(testCases)) {
+      if (pattern.includes('*') && this.toPattern(pattern).test(testCaseId)) {
+        return outcome;
+      }
+    }
+    return script.defaultOutcome ?? 'passed';
+  }
+
+  private toPattern(wildcard: string): RegExp {
+    const escaped = wildcard
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${escaped}$`);
+  }
+
+  private async getSuites(invocation: KatalonInvocation): Promise<SimulatedSuite[]> {
+    const { projectPath, testSuitePath, reportFolder } = invocation;
+    const browserIndex = invocation.args.indexOf('-browserType');
+    const browser = browserIndex >= 0 ? invocation.args[browserIndex + 1] : undefined;
+
+    if (!testSuitePath.endsWith('.tsc')) {
+      return [
+        {
+          ...(await this.readSuite(projectPath, testSuitePath)),
+          browser,
+          reportFolder,
+        },
+      ];
+    }
+
+    // A collection writes one report folder per member suite, like katalonc does
+    const collection = await this.collectionParser.parse(projectPath, testSuitePath);
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '_').slice(0, 15);
+    const suites: SimulatedSuite[] = [];
+    for (const member of collection.runConfigurations.filter(c => c.runEnabled)) {
+      const suite = await this.readSuite(projectPath, member.testSuitePath);
+      suites.push({
+        ...suite,
+        browser: member.browser,
+        reportFolder: path.join(reportFolder, suite.name, `${timestamp}_${suites.length}`),
+      });
+    }
+    return suites;
+  }
+
+  private async readSuite(
+    projectPath: string,
+    testSuitePath: string
+  ): Promise<Pick<SimulatedSuite, 'testSuiteId' | 'name' | 'testCaseIds'>> {
+    const suiteXml = await fs.readFile(path.join(projectPath, testSuitePath), 'utf-8');
+    const suite = suiteXml.trim() ? await this.parser.parseStringPromise(suiteXml) : undefined;
+    const links: any[] = suite?.TestSuiteEntity?.testCaseLink || [];
+
+    return {
+      testSuiteId: testSuitePath.replace(/\.ts$/, ''),
+      name: suite?.TestSuiteEntity?.name?.[0] || path.basename(testSuitePath, '.ts'),
+      testCaseIds: links
+        .filter(link => link.isRun?.[0] !== 'false' && link.testCaseId?.[0])
+        .map(link => link.testCaseId[0]),
+    };
+  }
+
+  /**
+   * Katalon's XML step log, with one step per test case carrying the failure and screenshot
+   */
+  private buildExecutionLog(
+    suite: SimulatedSuite,
+    testCases: SimulatedTestCase[],
+    script: SimulationScript
+  ): string {
+    const record = (millis: number, level: string, message: string, attachment?: string) => ({
+      millis,
+      level,
+      message,
+      ...(attachment && { property: { $: { name: 'attachment' }, _: attachment } }),
+    });
+    const message = script.failureMessage || 'Simulated failure';
+
+    const now = Date.now();
+    return this.builder.buildObject({
+      log: {
+        record: [
+          record(
+            testCases[0]?.startedAt ?? now,
+            'START',
+            `Start Test Suite : ${suite.testSuiteId}`
+          ),
+          ...testCases.flatMap(testCase => {
+            const end = testCase.startedAt + testCase.durationMs;
+            const result =
+              testCase.outcome === 'failed' || testCase.outcome === 'error'
+                ? record(end, testCase.outcome.toUpperCase(), message, testCase.screenshot)
+                : record(end, testCase.outcome === 'skipped' ? 'NOT_RUN' : 'PASSED', 'Simulated');
+            return [
+              record(testCase.startedAt, 'START', `Start Test Case : ${testCase.id}`),
+              record(testCase.startedAt, 'START', 'Start action : simulateTestCase'),
+              result,
+              record(end, 'END', 'End action : simulateTestCase'),
+              record(end, 'END', `End Test Case : ${testCase.id}`),
+            ];
+          }),
+          record(now, 'END', `End Test Suite : ${suite.testSuiteId}`),
+        ],
+      },
+    });
+  }
+
+  private buildJUnitReport(
+    suite: SimulatedSuite,
+    testCases: SimulatedTestCase[],
+    script: SimulationScript
+  ): string {
+    const count = (outcome: SimulatedOutcome) =>
+      testCases.filter(t => t.outcome === outcome).length;
+    const seconds = (ms: number) => (ms / 1000).toFixed(3);
+    const message = script.failureMessage || 'Simulated failure';
+
+    return this.builder.buildObject({
+      testsuites: {
+        $: { name: suite.name, tests: testCases.length },
+        testsuite: {
+          $: {
+            name: suite.name,
+            id: suite.testSuiteId,
+            tests: testCases.length,
+            failures: count('failed'),
+            errors: count('error'),
+            skipped: count('skipped'),
+            time: seconds(testCases.reduce((total, t) => total + t.durationMs, 0)),
+            timestamp: new Date().toISOString(),
+            hostname: 'simulated',
+          },
+          properties: {
+            property: [
+              { $: { name: 'browser', value: suite.browser ?? '' } },
+              { $: { name: 'simulated', value: 'true' } },
+            ],
+          },
+          testcase: testCases.map(testCase => ({
+            $: {
+              name: testCase.id,
+              classname: testCase.id,
+              time: seconds(testCase.durationMs),
+              status: testCase.outcome.toUpperCase(),
+            },
+            ...(testCase.outcome === 'failed' && { failure: { $: { message, type: 'FAILED' } } }),
+            ...(testCase.outcome === 'error' && { error: { $: { message, type: 'ERROR' } } }),
+            ...(testCase.outcome === 'skipped' && { skipped: '' }),
+          })),
+        },
+      },
+    });
+  }
+
+  private sleep(ms: number, state: { wake?: () => void }): Promise<void> {
+    if (ms <= 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+      state.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
@@ -1,8 +1,24 @@
 // Import necessary libraries for running tests and handling files
 import * as fs from 'fs-extra'; // File system operations
 import * as path from 'path'; // File path manipulation
-import { spawn, ChildProcess } from 'child_process'; // Run external programs (Katalon)
+import { randomUUID } from 'crypto'; // GUIDs for generated test suites
+import { ExecutionRecord, KatalonExecutionHistory } from './execution-history'; // Persisted runs
+import { KatalonTestSuiteCollectionParser } from './test-suite-collection'; // Read .tsc files
+import { KatalonRemoteWebDriverConfigurator, RemoteWebDriverConfig } from './remote-webdriver'; // Grid runs
+import { KatalonExecutionSettings } from './execution-settings'; // Per-project execution defaults
+import { ExecutionPriority, KatalonExecutionQueue } from './execution-queue'; // Concurrency limits
+import { KatalonRunner, LocalKatalonRunner, RunnerName } from './execution-runner'; // Backends
+import { KatalonDockerRunner } from './docker-runner'; // Katalon Runtime Engine in a container
+import { KatalonSimulatedRunner } from './simulated-runner'; // Fake katalonc for offline use
+import { getFailedStep, KatalonReportParser, StepRecord } from './report-parser'; // Step-level logs
+import { ImageContent, KatalonScreenshotContent } from './screenshot-content'; // Images for clients
+import { KatalonFailureTriage } from './failure-triage'; // Group failures by root cause
+import { KatalonProjectLoader, toTestCaseId } from './project-loader'; // Shared project model
 import * as xml2js from 'xml2js'; // Parse XML test reports
+import { glob } from 'glob'; // Find report files in nested report folders
+import { createModuleLogger } from '../utils/logger'; // Structured logging (never to stdout)
+// Live progress from katalonc console output
+import { ExecutionProgress, KatalonConsoleProgressParser, TestCaseEvent } from './console-progress';
 
 /**
  * 🎯 ExecutionResult Interface
@@ -17,11 +33,25 @@ export interface ExecutionResult {
   endTime: Date; // When the test finished
   duration: number; // How long it took (in milliseconds)
   testResults: TestResult[]; // Results of individual test cases
+  suiteResults?: SuiteResult[]; // Collection runs: the same results grouped by member suite
   reportPath?: string; // Where the HTML report was saved
   logPath?: string; // Where the log file was saved
   screenshots?: string[]; // Paths to any screenshots taken
+  stoppedReason?: StopReason; // Set when the run was cut short; results are partial
 }
 
+/**
+ * 🛑 StopReason Type
+ * Why a run was stopped before katalonc finished on its own
+ */
+export type StopReason = 'timeout' | 'cancelled';
+
+// Default time a run may take when neither the call nor the project sets one
+const DEFAULT_TIMEOUT_MINUTES = 30;
+
+// Most failure screenshots attached to one response; the rest stay readable as resources
+const MAX_SCREENSHOT_IMAGES = 5;
+
 /**
  * 📝 TestResult Interface
  * Information about a single test case within a test suite
@@ -31,7 +61,43 @@ export interface TestResult {
   status: 'PASSED' | 'FAILED' | 'SKIPPED' | 'ERROR'; // What happened to this test
   duration: number; // How long this test took
   errorMessage?: string; // Error details if test failed
+  stackTrace?: string; // Stack trace of the failure, when Katalon reported one
+  steps?: StepRecord[]; // Step-by-step log from execution0.log or the JSON report
   screenshots?: string[]; // Screenshots for this specific test
+  testSuiteId?: string; // Collection runs: member suite the test case ran in
+}
+
+/**
+ * 🗂️ SuiteResult Interface
+ * Results of one member suite of a test suite collection run
+ */
+export interface SuiteResult {
+  testSuiteId: string; // Katalon ID of the member suite (e.g. "Test Suites/Smoke")
+  browser?: string; // Run configuration the member ran with
+  executionProfile?: string; // Profile the member ran with
+  reportPath?: string; // Folder holding this member's report
+  testResults: TestResult[]; // Results of the member's test cases
+}
+
+/**
+ * 🧪 ExecutionPlan Interface
+ * What a dry run resolved: the exact katalonc call a real run would make
+ */
+export interface ExecutionPlan {
+  options: ExecutionOptions; // Settings the plan was built from
+  command: string; // Resolved katalonc binary
+  args: string[]; // Every argument, in order
+  reportFolder: string; // Where reports would be written
+  droppedBrowserConfig: string[]; // browserConfig settings that would not reach katalonc
+  validationErrors: string[]; // Problems that would stop the run (empty when valid)
+}
+
+// One <testsuite> read from a JUnit report file, before it is matched to a collection member
+interface JUnitSuiteReport {
+  junitPath: string;
+  suiteId?: string;
+  suiteName?: string;
+  testResults: TestResult[];
 }
 
 /**
@@ -48,6 +114,67 @@ export interface ExecutionOptions {
   reportFolder?: string; // Where to save test reports
   consoleLog?: boolean; // Should we show detailed logs in console?
   retry?: number; // How many times to retry failed tests
+  globalVariables?: Record<string, string | number | boolean>; // Profile variable overrides (-g_<name>=<value>)
+  env?: Record<string, string>; // Profile variable -> environment variable to read its value from
+  remoteWebDriver?: RemoteWebDriverConfig; // Run on a remote WebDriver endpoint instead of a local browser
+  timeoutMinutes?: number; // Stop the run after this long (overrides the project setting)
+  priority?: ExecutionPriority; // Place in the execution queue when slots are taken (default normal)
+  runner?: RunnerName; // Backend that runs katalonc (default: the server's default runner)
+}
+
+/**
+ * 🔌 RunnerConfig Interface
+ * Which execution backends the executor can use, and which one it uses by default
+ */
+export interface RunnerConfig {
+  runners?: Partial<Record<RunnerName, KatalonRunner>>; // Replace or add backends
+  defaultRunner?: RunnerName; // Used when a call doesn't pick one (default local)
+}
+
+/**
+ * 🚦 ExecutionStatus Type
+ * Lifecycle states of an execution started in the background
+ */
+export type ExecutionStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * 🎫 ExecutionJob Interface
+ * Handle for a test run that was started without waiting for it to finish
+ * Like a ticket number you can use to ask about your order later
+ */
+export interface ExecutionJob {
+  executionId: string; // Unique identifier for this test run
+  status: ExecutionStatus; // Where the run currently is in its lifecycle
+  options: ExecutionOptions; // Settings the run was started with
+  startTime: Date; // When the run was started
+  endTime?: Date; // When the run finished (if it has)
+  result?: ExecutionResult; // Full results once the run has finished
+  error?: string; // Why the run failed to complete (if it did)
+  progress?: ExecutionProgress; // Latest test case progress reported by katalonc
+  rerunOf?: string; // Execution whose failed test cases this run repeats
+  projectFingerprint?: string; // Hash of the project's test assets when the run started
+}
+
+/**
+ * 🧮 MatrixOptions Interface
+ * Which browser × profile combinations to run, and how many at once
+ */
+export interface MatrixOptions {
+  browsers: string[]; // Browsers to run the suite on
+  executionProfiles?: string[]; // Profiles to run the suite with (defaults to the single profile)
+  maxConcurrency?: number; // How many katalonc processes may run at the same time
+}
+
+/**
+ * 🔲 MatrixCellResult Interface
+ * Outcome of one browser × profile combination in a matrix run
+ */
+export interface MatrixCellResult {
+  browser: string; // Browser this cell ran on
+  executionProfile: string; // Profile this cell ran with
+  executionId?: string; // Execution ID of the cell's katalonc run
+  result?: ExecutionResult; // Full results, if the run completed
+  error?: string; // Why the cell could not be run or completed
 }
 
 /**
@@ -73,132 +200,1119 @@ interface BrowserConfig {
  * - Handle errors and retries
  */
 export class KatalonTestExecutor {
-  // XML parser for reading Katalon's test result files
+  // XML tools for reading Katalon's test result files and writing test suites
   private parser = new xml2js.Parser();
+  private builder = new xml2js.Builder();
+  private collectionParser = new KatalonTestSuiteCollectionParser();
+  private reportParser = new KatalonReportParser();
+  private screenshotContent = new KatalonScreenshotContent();
+  private failureTriage = new KatalonFailureTriage();
+  private remoteConfigurator = new KatalonRemoteWebDriverConfigurator();
+  // Remote runs' claims on their project's remote settings, by execution ID
+  private remoteReservations = new Map<string, () => void>();
+
+  // Module-specific logger; katalonc output must never reach stdout on a stdio server
+  private logger = createModuleLogger('KatalonTestExecutor');
+
+  // Runs currently going, and the backend each one runs on
+  private runningExecutions: Map<string, KatalonRunner> = new Map();
+  private runners: Record<RunnerName, KatalonRunner>;
+  private defaultRunner: RunnerName;
+
+  // Why a run is being stopped, so its close handler can report partial results
+  private stopReasons: Map<string, StopReason> = new Map();
+
+  // How long katalonc gets to shut down after SIGTERM before it is killed
+  private killGracePeriodMs = 10_000;
+
+  private settings = new KatalonExecutionSettings();
 
-  // Keep track of running test processes so we can manage them
-  private runningProcesses: Map<string, ChildProcess> = new Map();
+  // Keep track of every execution run in this session, finished or not
+  private executions: Map<string, ExecutionJob> = new Map();
+
+  /**
+   * @param history - Where finished executions are recorded for later queries
+   * @param projectLoader - Reads profiles and other project files, shared with the other modules
+   */
+  constructor(
+    private history: KatalonExecutionHistory = new KatalonExecutionHistory(),
+    private queue: KatalonExecutionQueue = new KatalonExecutionQueue(),
+    runnerConfig: RunnerConfig = {},
+    private projectLoader: KatalonProjectLoader = new KatalonProjectLoader()
+  ) {
+    this.runners = {
+      local: new LocalKatalonRunner(),
+      docker: new KatalonDockerRunner(),
+      simulated: new KatalonSimulatedRunner(),
+      ...runnerConfig.runners,
+    };
+    this.defaultRunner = runnerConfig.defaultRunner ?? 'local';
+  }
 
   /**
    * 🎬 Execute Test Suite or Test Suite Collection
    * This is the main method that runs your Katalon tests
    *
    * @param options - Configuration for how to run the tests
+   * @param onProgress - Called whenever a test case starts or finishes
+   * @param signal - Aborted when the client cancels the request; the run is stopped
    * @returns Promise<ExecutionResult> - Complete results of the test execution
    *
    * Think of this like pressing "play" on a playlist, but for tests.
    * It handles everything from starting the tests to collecting results.
    */
-  async executeTestSuite(args: any): Promise<{ content: any[] }> {
+  async executeTestSuite(
+    args: any,
+    onProgress?: (progress: ExecutionProgress, event: TestCaseEvent) => void,
+    signal?: AbortSignal
+  ): Promise<{ content: any[] }> {
     // Convert the arguments passed to this method into proper execution options
-    const options: ExecutionOptions = {
+    const options = this.toExecutionOptions(args);
+
+    try {
+      // Every matrix cell would fight over the project's single remote settings file
+      if (args.matrix && args.remoteWebDriver) {
+        throw new Error('matrix and remoteWebDriver cannot be combined');
+      }
+
+      // Show what would be run without starting katalonc
+      if (args.dryRun) {
+        const cells = args.matrix ? this.getMatrixCells(options, args.matrix) : [options];
+        const plans = [];
+        for (const cell of cells) {
+          plans.push(await this.planExecution(cell));
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: this.formatDryRun(plans),
+            },
+          ],
+        };
+      }
+
+      // A matrix fans the same suite out over several browser × profile combinations
+      if (args.matrix) {
+        const cells = await this.executeMatrix(options, args.matrix, onProgress, signal);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: this.formatMatrixResult(options, cells),
+            },
+          ],
+        };
+      }
+
+      // Actually run the test with these options
+      const result = await this.executeTest(options, onProgress, signal);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatExecutionResult(result, options.projectPath), // Format results for display
+          },
+          // Let the client see why tests failed, not just where the files are
+          ...(await this.getFailureScreenshotContent(result, args.screenshotMaxWidth)),
+        ],
+      };
+    } catch (error) {
+      // If something goes wrong, provide a helpful error message
+      throw new Error(
+        `Test execution failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * 🎛️ Manage Background Executions
+   * Starts a run without waiting for it, or checks on, collects or cancels one
+   *
+   * @param args - The action to perform plus the execution settings or executionId
+   * @returns Promise with formatted status, results or confirmation text
+   *
+   * Long suites can run far longer than an MCP client is willing to wait for a
+   * single call, so `start` hands back an executionId straight away.
+   */
+  async manageExecution(args: any): Promise<{ content: any[] }> {
+    let text: string;
+    let images: any[] = [];
+
+    switch (args.action) {
+      case 'start':
+        text = await this.startExecution(args);
+        break;
+      case 'status':
+        text = this.formatExecutionStatus(this.getExecutionJob(args.executionId));
+        break;
+      case 'result': {
+        const job = this.getExecutionJob(args.executionId);
+        text = this.formatExecutionJobResult(job);
+        if (job.result) {
+          images = await this.getFailureScreenshotContent(job.result, args.screenshotMaxWidth);
+        }
+        break;
+      }
+      case 'cancel':
+        text = await this.cancelExecution(args.executionId);
+        break;
+      case 'rerun_failed':
+        text = await this.rerunFailedTestCases(args.executionId, args.projectPath);
+        break;
+      case 'list':
+        text = this.formatExecutionList();
+        break;
+      case 'queue':
+        text = this.formatQueue();
+        break;
+      case 'triage':
+        text = await this.triageExecution(args.executionId, args.projectPath);
+        break;
+      default:
+        throw new Error(`Unknown execution action: ${args.action}`);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+        ...images,
+      ],
+    };
+  }
+
+  /**
+   * 📸 Failure Screenshots as MCP Content
+   * A caption naming the failed test case, then its screenshot, for each failure
+   *
+   * @param result - Finished execution whose failures to show
+   * @param maxWidth - Scale screenshots down to at most this many pixels wide
+   */
+  async getFailureScreenshotContent(
+    result: ExecutionResult,
+    maxWidth?: number
+  ): Promise<({ type: 'text'; text: string } | ImageContent)[]> {
+    const content: ({ type: 'text'; text: string } | ImageContent)[] = [];
+    const failed = result.testResults.filter(t => t.status === 'FAILED' || t.status === 'ERROR');
+
+    for (const test of failed) {
+      for (const screenshot of test.screenshots ?? []) {
+        if (content.length >= MAX_SCREENSHOT_IMAGES * 2) {
+          return content;
+        }
+        try {
+          const image = await this.screenshotContent.toImageContent(screenshot, maxWidth);
+          content.push(
+            {
+              type: 'text',
+              text: `📸 ${test.testCaseName} (${test.status}) - full size: ${this.getScreenshotUri(result, screenshot)}`,
+            },
+            image
+          );
+        } catch (error) {
+          this.logger.warn('Failed to read screenshot', {
+            screenshot,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+    return content;
+  }
+
+  /**
+   * Screenshots of this session's executions, as MCP resources
+   */
+  listScreenshotResources(): { uri: string; name: string; mimeType: string }[] {
+    return Array.from(this.executions.values()).flatMap(job =>
+      job.result
+        ? this.getScreenshotFiles(job.result).map(screenshot => ({
+            uri: this.getScreenshotUri(job.result!, screenshot),
+            name: `${job.executionId}: ${path.basename(screenshot)}`,
+            mimeType: this.screenshotContent.getMimeType(screenshot),
+          }))
+        : []
+    );
+  }
+
+  /**
+   * Read a full-size screenshot resource (katalon://executions/<id>/screenshots/<n>)
+   */
+  async readScreenshotResource(
+    uri: string
+  ): Promise<{ uri: string; mimeType: string; blob: string }> {
+    const match = /^katalon:\/\/executions\/([^/]+)\/screenshots\/(\d+)$/.exec(uri);
+    if (!match) {
+      throw new Error(`Not a screenshot resource: ${uri}`);
+    }
+
+    const result = this.getExecutionJob(match[1]).result;
+    const screenshot = result ? this.getScreenshotFiles(result)[Number(match[2]) - 1] : undefined;
+    if (!screenshot) {
+      throw new Error(`Screenshot not found: ${uri}`);
+    }
+
+    const image = await this.screenshotContent.toImageContent(screenshot);
+    return { uri, mimeType: image.mimeType, blob: image.data };
+  }
+
+  /**
+   * Every screenshot of a result: the report folder's and those linked to test cases
+   */
+  private getScreenshotFiles(result: ExecutionResult): string[] {
+    return Array.from(
+      new Set([
+        ...(result.screenshots ?? []),
+        ...result.testResults.flatMap(test => test.screenshots ?? []),
+      ])
+    );
+  }
+
+  private getScreenshotUri(result: ExecutionResult, screenshot: string): string {
+    const index = this.getScreenshotFiles(result).indexOf(screenshot) + 1;
+    return `katalon://executions/${result.executionId}/screenshots/${index}`;
+  }
+
+  /**
+   * Get the execution with the given ID (background or not)
+   */
+  getExecutionJob(executionId: string | undefined): ExecutionJob {
+    if (!executionId) {
+      throw new Error('Execution ID is required for this action');
+    }
+
+    const job = this.executions.get(executionId);
+    if (!job) {
+      throw new Error(`Execution not found: ${executionId}`);
+    }
+    return job;
+  }
+
+  /**
+   * Find a finished execution, from this session or else from the project's history
+   *
+   * @param executionId - ID of the execution to look up
+   * @param projectPath - Project whose history to search when the run is not in memory
+   */
+  async findExecutionRecord(
+    executionId: string | undefined,
+    projectPath?: string
+  ): Promise<ExecutionRecord> {
+    if (!executionId) {
+      throw new Error('Execution ID is required for this action');
+    }
+
+    const job = this.executions.get(executionId);
+    if (job) {
+      if (!job.result) {
+        throw new Error(`Execution ${executionId} has no results yet (status: ${job.status})`);
+      }
+      return this.toExecutionRecord(job, job.result);
+    }
+
+    const record = projectPath ? await this.history.getRecord(projectPath, executionId) : undefined;
+    if (!record) {
+      throw new Error(
+        projectPath
+          ? `Execution not found: ${executionId}`
+          : `Execution not found in this session: ${executionId} (pass projectPath to search the execution history)`
+      );
+    }
+    return record;
+  }
+
+  private toExecutionOptions(args: any): ExecutionOptions {
+    return {
       projectPath: args.projectPath, // Where the Katalon project lives
       testSuitePath: args.testSuitePath, // Which test suite to run
-      browser: args.browser || 'Chrome', // Default to Chrome if not specified
+      // Remote runs always use Katalon's "Remote" browser type; otherwise default to Chrome
+      browser: args.remoteWebDriver ? 'Remote' : args.browser || 'Chrome',
       executionProfile: args.executionProfile || 'default', // Use default profile
       browserConfig: args.browserConfig, // Browser-specific settings
       reportFolder: args.reportFolder, // Where to save reports
       consoleLog: args.consoleLog !== false, // Show logs unless explicitly disabled
       retry: args.retry || 0, // Don't retry by default
+      globalVariables: args.globalVariables, // Per-run profile variable overrides
+      env: args.env, // Profile variables filled from the server's environment
+      remoteWebDriver: args.remoteWebDriver, // Selenium Grid or other remote endpoint
+      timeoutMinutes: args.timeoutMinutes, // Falls back to the project setting, then 30 minutes
+      priority: args.priority || 'normal', // Queue order when all slots are busy
+      runner: args.runner || this.defaultRunner, // Local katalonc, a container, ...
+    };
+  }
+
+  private async startExecution(args: any): Promise<string> {
+    if (!args.projectPath || !args.testSuitePath) {
+      throw new Error('Project path and test suite path are required to start an execution');
+    }
+
+    const options = this.toExecutionOptions(args);
+
+    // Fail fast on bad input instead of reporting it later through the status
+    await this.validateExecution(options);
+
+    const job = this.launchExecution(options);
+
+    return `# Katalon Test Execution Started
+
+- **Execution ID**: ${job.executionId}
+- **Test Suite**: ${options.testSuitePath}
+- **Browser**: ${options.browser}
+- **Profile**: ${options.executionProfile}
+- **Priority**: ${options.priority}
+- **Started**: ${job.startTime.toISOString()}
+
+Use the \`status\` action with this executionId to follow the run, and \`result\` to collect the report once it has finished.`;
+  }
+
+  /**
+   * 🔁 Restore Queued Executions
+   * Queues again the executions that were still waiting when the server last stopped
+   *
+   * @returns The IDs of the executions put back in the queue
+   */
+  async restoreQueuedExecutions(): Promise<string[]> {
+    const restored: string[] = [];
+
+    for (const entry of await this.queue.loadPersisted()) {
+      let job: ExecutionJob;
+      try {
+        // The project may have changed while the server was down, and a run restored
+        // before this one may already hold what it needs
+        await this.validateExecution(entry.options);
+        job = this.createExecutionJob(entry.options, entry.executionId);
+      } catch (error) {
+        this.logger.warn('Dropping queued execution that can no longer start', {
+          executionId: entry.executionId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      job.startTime = new Date(entry.enqueuedAt); // Keep its place in line
+      this.trackExecution(job).catch(() => undefined);
+      restored.push(job.executionId);
+    }
+
+    return restored;
+  }
+
+  /**
+   * Start a validated execution in the background and hand back its job
+   */
+  private launchExecution(options: ExecutionOptions, cleanup?: () => Promise<void>): ExecutionJob {
+    const job = this.createExecutionJob(options);
+
+    // Deliberately not awaited: the caller polls with the executionId instead.
+    // Failures are recorded on the job by trackExecution.
+    this.trackExecution(job, undefined, cleanup).catch(() => undefined);
+
+    return job;
+  }
+
+  private createExecutionJob(options: ExecutionOptions, executionId?: string): ExecutionJob {
+    const job: ExecutionJob = {
+      executionId: executionId ?? this.generateExecutionId(),
+      status: 'queued',
+      options,
+      startTime: new Date(),
+    };
+    // Claimed before the run takes a queue slot, so a second remote run is refused up front
+    if (options.remoteWebDriver) {
+      this.remoteReservations.set(
+        job.executionId,
+        this.remoteConfigurator.reserve(options.projectPath)
+      );
+    }
+    this.executions.set(job.executionId, job);
+    return job;
+  }
+
+  /**
+   * Run the job's execution and keep its status, progress and result up to date
+   */
+  private async trackExecution(
+    job: ExecutionJob,
+    onProgress?: (progress: ExecutionProgress, event: TestCaseEvent) => void,
+    cleanup?: () => Promise<void>,
+    signal?: AbortSignal
+  ): Promise<ExecutionResult> {
+    // A cancelled request stops the run the same way the cancel action does
+    const onAbort = (): void => {
+      this.cancelExecution(job.executionId).catch(() => undefined);
+    };
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    let holdsSlot = false;
+    try {
+      // Wait for a free slot; a run cancelled while queued goes on without one and is skipped
+      const settings = await this.settings.load(job.options.projectPath);
+      holdsSlot =
+        !this.stopReasons.has(job.executionId) &&
+        (await this.queue.acquire({
+          executionId: job.executionId,
+          projectPath: path.resolve(job.options.projectPath),
+          priority: job.options.priority ?? 'normal',
+          enqueuedAt: job.startTime.toISOString(),
+          projectLimit: settings.maxConcurrentExecutions,
+          options: job.options,
+        }));
+      if (job.status === 'queued') {
+        job.status = 'running';
+      }
+
+      // Lets history tell a flaky test apart from one whose project changed between runs
+      job.projectFingerprint = await this.history
+        .computeProjectFingerprint(job.options.projectPath)
+        .catch(() => undefined);
+
+      const result = await this.runExecution(job.options, job.executionId, (progress, event) => {
+        job.progress = progress;
+        onProgress?.(progress, event);
+      });
+      job.result = result;
+      if (job.status === 'running') {
+        job.status = 'completed';
+      }
+      await this.recordHistory(job, result);
+      return result;
+    } catch (error) {
+      job.error = error instanceof Error ? error.message : String(error);
+      if (job.status === 'running' || job.status === 'queued') {
+        job.status = 'failed';
+      }
+      throw error;
+    } finally {
+      if (holdsSlot) {
+        this.queue.release(job.executionId);
+      }
+      this.remoteReservations.get(job.executionId)?.();
+      this.remoteReservations.delete(job.executionId);
+      signal?.removeEventListener('abort', onAbort);
+      this.stopReasons.delete(job.executionId);
+      await cleanup?.().catch(() => undefined);
+      job.endTime = new Date();
+    }
+  }
+
+  private toExecutionRecord(job: ExecutionJob, result: ExecutionResult): ExecutionRecord {
+    const failed = result.testResults.some(t => t.status === 'FAILED' || t.status === 'ERROR');
+    return {
+      executionId: job.executionId,
+      status:
+        job.status === 'cancelled' ? 'CANCELLED' : result.success && !failed ? 'PASSED' : 'FAILED',
+      testSuitePath: job.options.testSuitePath,
+      browser: job.options.browser,
+      executionProfile: job.options.executionProfile,
+      runner: job.options.runner,
+      options: job.options,
+      success: result.success,
+      exitCode: result.exitCode,
+      startTime: result.startTime.toISOString(),
+      endTime: result.endTime.toISOString(),
+      duration: result.duration,
+      testResults: result.testResults,
+      suiteResults: result.suiteResults,
+      reportPath: result.reportPath,
+      logPath: result.logPath,
+      screenshots: result.screenshots,
+      rerunOf: job.rerunOf,
+      projectFingerprint: job.projectFingerprint,
+    };
+  }
+
+  private async recordHistory(job: ExecutionJob, result: ExecutionResult): Promise<void> {
+    try {
+      await this.history.record(this.toExecutionRecord(job, result));
+    } catch (error) {
+      // A history write failure must never turn a finished run into a failed one
+      this.logger.warn('Failed to record execution history', {
+        executionId: job.executionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * 🩺 Triage the Failures of an Execution
+   * Groups its failed test cases by error signature and links broken locators to their objects
+   */
+  private async triageExecution(executionId: string, projectPath?: string): Promise<string> {
+    const record = await this.findExecutionRecord(executionId, projectPath);
+    const clusters = await this.failureTriage.triage(
+      record.testResults,
+      record.options.projectPath
+    );
+
+    if (clusters.length === 0) {
+      return `# Katalon Failure Triage
+
+Execution ${record.executionId} has no failed test cases.`;
+    }
+
+    const failures = clusters.reduce((count, cluster) => count + cluster.testCases.length, 0);
+    return `# Katalon Failure Triage
+
+## Summary
+- **Execution ID**: ${record.executionId}
+- **Test Suite**: ${record.testSuitePath}
+- **Failures**: ${failures}
+- **Clusters**: ${clusters.length}
+
+## Clusters
+${this.failureTriage.formatClusters(clusters, '###')}
+`;
+  }
+
+  /**
+   * Start a new background run containing only the failed test cases of a previous one
+   *
+   * A collection's failures came from member suites with their own browser and
+   * profile, so each failing member is rerun on its own, with its own settings.
+   */
+  private async rerunFailedTestCases(
+    executionId: string | undefined,
+    projectPath?: string
+  ): Promise<string> {
+    const previous = await this.findExecutionRecord(executionId, projectPath);
+    // Recorded runs keep only the names of their global variable overrides
+    if (previous.globalVariableNames?.length && !previous.options.globalVariables) {
+      throw new Error(
+        `Cannot rerun ${previous.executionId} from history: the values of its global variables (${previous.globalVariableNames.join(', ')}) are not stored; start the suite again with them`
+      );
+    }
+    const groups = this.groupFailedTestCases(previous);
+
+    if (groups.length === 0) {
+      return `Execution ${previous.executionId} has no failed test cases to rerun. 🎉`;
+    }
+
+    const reruns: string[] = [];
+    for (const [index, group] of groups.entries()) {
+      const suiteName =
+        groups.length > 1
+          ? `Rerun_${previous.executionId}_${index + 1}`
+          : `Rerun_${previous.executionId}`;
+      const rerunSuitePath = await this.createRerunSuite(
+        group.options,
+        previous.executionId,
+        suiteName,
+        group.testCaseIds
+      );
+
+      // Same browser, profile and settings; only the suite changes
+      const options: ExecutionOptions = {
+        ...group.options,
+        testSuitePath: rerunSuitePath,
+        reportFolder: undefined,
+      };
+      const job = this.launchExecution(options, () =>
+        fs.remove(path.join(options.projectPath, rerunSuitePath))
+      );
+      job.rerunOf = previous.executionId;
+
+      reruns.push(`${groups.length > 1 ? `### ${group.options.testSuitePath}\n` : ''}- **Execution ID**: ${job.executionId}
+- **Rerun Of**: ${previous.executionId}
+- **Temporary Suite**: ${rerunSuitePath}
+- **Browser**: ${options.browser}
+- **Profile**: ${options.executionProfile}
+- **Test Cases**: ${group.testCaseIds.length}
+
+${group.testCaseIds.map(testCaseId => `- ${testCaseId}`).join('\n')}`);
+    }
+
+    return `# Katalon Failed Test Rerun Started
+
+${reruns.join('\n\n')}
+
+Use the \`status\` action with the new executionId${reruns.length > 1 ? 's' : ''} to follow the rerun.`;
+  }
+
+  /**
+   * The failed test cases of a run, with the suite and settings each group has to be rerun with
+   */
+  private groupFailedTestCases(
+    previous: ExecutionRecord
+  ): { options: ExecutionOptions; testCaseIds: string[] }[] {
+    const failedIds = (results: TestResult[]) =>
+      Array.from(
+        new Set(
+          results
+            .filter(test => test.status === 'FAILED' || test.status === 'ERROR')
+            .map(test => toTestCaseId(test.testCaseName))
+        )
+      );
+
+    if (!previous.testSuitePath.endsWith('.tsc')) {
+      const testCaseIds = failedIds(previous.testResults);
+      return testCaseIds.length ? [{ options: previous.options, testCaseIds }] : [];
+    }
+
+    const groups: { options: ExecutionOptions; testCaseIds: string[] }[] = [];
+    for (const suite of previous.suiteResults ?? []) {
+      const testCaseIds = failedIds(suite.testResults);
+      if (!testCaseIds.length) {
+        continue;
+      }
+      // Results that couldn't be matched to a member have no run configuration to repeat
+      if (!suite.browser) {
+        throw new Error(
+          `Cannot rerun ${previous.executionId}: failed test cases of ${suite.testSuiteId} could not be matched to a member suite of ${previous.testSuitePath}`
+        );
+      }
+      groups.push({
+        options: {
+          ...previous.options,
+          testSuitePath: `${suite.testSuiteId}.ts`,
+          browser: suite.browser,
+          executionProfile: suite.executionProfile ?? previous.options.executionProfile,
+        },
+        testCaseIds,
+      });
+    }
+
+    if (!groups.length && failedIds(previous.testResults).length) {
+      throw new Error(
+        `Cannot rerun ${previous.executionId}: its failed test cases are not grouped by member suite`
+      );
+    }
+    return groups;
+  }
+
+  /**
+   * Write a temporary test suite holding only the given test cases
+   * @returns The suite path relative to the project, ready to pass to katalonc
+   */
+  private async createRerunSuite(
+    original: ExecutionOptions,
+    executionId: string,
+    suiteName: string,
+    testCaseIds: string[]
+  ): Promise<string> {
+    const suitePath = path.join('Test Suites', 'MCP Reruns', `${suiteName}.ts`);
+
+    // Reuse the original suite's links so data bindings and variables carry over
+    let originalLinks: any[] = [];
+    if (original.testSuitePath.endsWith('.ts')) {
+      try {
+        const suiteXml = await fs.readFile(
+          path.join(original.projectPath, original.testSuitePath),
+          'utf-8'
+        );
+        const suite = await this.parser.parseStringPromise(suiteXml);
+        originalLinks = suite?.TestSuiteEntity?.testCaseLink || [];
+      } catch {
+        // Fall back to plain links below
+      }
+    }
+
+    const testCaseLinks = testCaseIds.map(testCaseId => {
+      const originalLink = originalLinks.find(link => link.testCaseId?.[0] === testCaseId);
+      return originalLink
+        ? { ...originalLink, isRun: 'true' }
+        : {
+            guid: randomUUID(),
+            isReuseDriver: 'false',
+            isRun: 'true',
+            testCaseId,
+            usingDataBindingAtTestSuiteLevel: 'true',
+          };
+    });
+
+    const suiteXml = this.builder.buildObject({
+      TestSuiteEntity: {
+        description: `Failed test cases from ${executionId} (generated by Katalon MCP Server)`,
+        name: suiteName,
+        tag: '',
+        isRerun: 'false',
+        mailRecipient: '',
+        numberOfRerun: '0',
+        pageLoadTimeout: '30',
+        pageLoadTimeoutDefault: 'true',
+        rerunFailedTestCasesOnly: 'false',
+        rerunImmediately: 'false',
+        testSuiteGuid: randomUUID(),
+        testCaseLink: testCaseLinks,
+      },
+    });
+
+    await fs.outputFile(path.join(original.projectPath, suitePath), suiteXml);
+    return suitePath;
+  }
+
+  private async cancelExecution(executionId: string | undefined): Promise<string> {
+    const job = this.getExecutionJob(executionId);
+
+    if (job.status !== 'running' && job.status !== 'queued') {
+      return `Execution ${job.executionId} is already ${job.status}; nothing to cancel.`;
+    }
+
+    // Mark first so the completion handler does not report the killed run as finished,
+    // and so a run that has not reached katalonc yet never starts it
+    job.status = 'cancelled';
+    this.stopReasons.set(job.executionId, 'cancelled');
+    if (this.queue.cancel(job.executionId)) {
+      return `🛑 Execution ${job.executionId} removed from the queue.`;
+    }
+    const stopped = await this.stopExecution(job.executionId);
+
+    return stopped
+      ? `🛑 Execution ${job.executionId} cancelled.`
+      : `🛑 Execution ${job.executionId} cancelled before Katalon was started.`;
+  }
+
+  /**
+   * 🔧 Execute Test with Detailed Configuration
+   * This is the core method that actually runs Katalon and manages the process
+   *
+   * @param options - All the settings for how to run the test
+   * @returns Promise<ExecutionResult> - Complete results with timing and outcomes
+   *
+   * This method coordinates all the steps needed to run a test:
+   * 1. Validates everything is set up correctly
+   * 2. Finds the Katalon program on your computer
+   * 3. Builds the command to run
+   * 4. Executes the test
+   * 5. Collects and processes the results
+   */
+  private async executeTest(
+    options: ExecutionOptions,
+    onProgress?: (progress: ExecutionProgress, event: TestCaseEvent) => void,
+    signal?: AbortSignal
+  ): Promise<ExecutionResult> {
+    // Make sure everything is set up correctly before starting
+    await this.validateExecution(options);
+
+    // Register the run under a unique ID so it can be looked up (and rerun) later
+    return this.trackExecution(this.createExecutionJob(options), onProgress, undefined, signal);
+  }
+
+  /**
+   * Expand a matrix into one set of execution options per browser × profile cell
+   */
+  private getMatrixCells(options: ExecutionOptions, matrix: MatrixOptions): ExecutionOptions[] {
+    const profiles = matrix.executionProfiles?.length
+      ? matrix.executionProfiles
+      : [options.executionProfile || 'default'];
+    return matrix.browsers.flatMap(browser =>
+      profiles.map(executionProfile => ({
+        ...options,
+        browser,
+        executionProfile,
+        // Cells run side by side, so each needs a report folder of its own
+        reportFolder: options.reportFolder
+          ? path.join(options.reportFolder, `${browser}_${executionProfile}`)
+          : undefined,
+      }))
+    );
+  }
+
+  /**
+   * 🧪 Plan an Execution Without Running It
+   * Resolves the katalonc binary and arguments exactly as a real run would,
+   * but never spawns a process
+   */
+  private async planExecution(options: ExecutionOptions): Promise<ExecutionPlan> {
+    const executionId = this.generateExecutionId();
+    const reportFolder = this.getReportFolder(options, executionId);
+    // Ask the backend for its command line, so a container run shows the docker call
+    const [command, ...args] = this.getRunner(options).describe({
+      executionId,
+      command: await this.findKatalonCommand(),
+      args: await this.buildExecutionArgs(options, executionId),
+      projectPath: options.projectPath,
+      testSuitePath: options.testSuitePath,
+      reportFolder,
+    });
+    return {
+      options,
+      command,
+      args,
+      reportFolder,
+      droppedBrowserConfig: this.getDroppedBrowserConfig(options),
+      // A dry run stays offline: the remote endpoint is not probed
+      validationErrors: await this.getValidationErrors(options, false),
+    };
+  }
+
+  /**
+   * 🧮 Execute a Browser × Profile Matrix
+   * Runs every combination as its own katalonc process, a few at a time
+   *
+   * @param options - Base settings shared by every cell
+   * @param matrix - Browsers, profiles and concurrency limit
+   * @param onProgress - Called with the combined progress of all cells
+   * @param signal - Aborting stops running cells and skips the rest
+   * @returns One result per cell, in browser-then-profile order
+   */
+  private async executeMatrix(
+    options: ExecutionOptions,
+    matrix: MatrixOptions,
+    onProgress?: (progress: ExecutionProgress, event: TestCaseEvent) => void,
+    signal?: AbortSignal
+  ): Promise<MatrixCellResult[]> {
+    const cellOptions = this.getMatrixCells(options, matrix);
+
+    // Validate every cell up front so a typo doesn't surface halfway through
+    for (const cell of cellOptions) {
+      await this.validateExecution(cell);
+    }
+
+    // Each cell reports its own progress; the client sees the sum of all of them
+    const cellProgress = new Map<number, ExecutionProgress>();
+    const reportCombinedProgress = (event: TestCaseEvent): void => {
+      const all = Array.from(cellProgress.values());
+      const completed = all.reduce((sum, p) => sum + p.completed, 0);
+      const failed = all.reduce((sum, p) => sum + p.failed, 0);
+      const total =
+        all.length === cellOptions.length && all.every(p => p.total)
+          ? all.reduce((sum, p) => sum + (p.total ?? 0), 0)
+          : undefined;
+      onProgress?.(
+        {
+          completed,
+          failed,
+          total,
+          message: `${total ? `${completed}/${total}` : completed} test cases done across ${cellOptions.length} combinations, ${failed} failed`,
+        },
+        event
+      );
+    };
+
+    const settled = await this.runWithConcurrency(
+      cellOptions.map((cell, index) => async () => {
+        const job = this.createExecutionJob(cell);
+        try {
+          const result = await this.trackExecution(
+            job,
+            (progress, event) => {
+              cellProgress.set(index, progress);
+              reportCombinedProgress(event);
+            },
+            undefined,
+            signal
+          );
+          return { executionId: job.executionId, result };
+        } catch (error) {
+          throw Object.assign(error instanceof Error ? error : new Error(String(error)), {
+            executionId: job.executionId,
+          });
+        }
+      }),
+      matrix.maxConcurrency ?? 2
+    );
+
+    return settled.map((outcome, index) => ({
+      browser: cellOptions[index].browser!,
+      executionProfile: cellOptions[index].executionProfile!,
+      ...(outcome.status === 'fulfilled'
+        ? outcome.value
+        : {
+            executionId: outcome.reason?.executionId,
+            error:
+              outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+          }),
+    }));
+  }
+
+  /**
+   * Run tasks with at most `limit` in flight, keeping results in task order
+   */
+  private async runWithConcurrency<T>(
+    tasks: (() => Promise<T>)[],
+    limit: number
+  ): Promise<PromiseSettledResult<T>[]> {
+    const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < tasks.length) {
+        const index = next++;
+        try {
+          results[index] = { status: 'fulfilled', value: await tasks[index]() };
+        } catch (reason) {
+          results[index] = { status: 'rejected', reason };
+        }
+      }
     };
 
-    try {
-      // Actually run the test with these options
-      const result = await this.executeTest(options);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: this.formatExecutionResult(result), // Format results for display
-          },
-        ],
-      };
-    } catch (error) {
-      // If something goes wrong, provide a helpful error message
-      throw new Error(
-        `Test execution failed: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
+    await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+    return results;
   }
 
   /**
-   * 🔧 Execute Test with Detailed Configuration
-   * This is the core method that actually runs Katalon and manages the process
-   *
-   * @param options - All the settings for how to run the test
-   * @returns Promise<ExecutionResult> - Complete results with timing and outcomes
-   *
-   * This method coordinates all the steps needed to run a test:
-   * 1. Validates everything is set up correctly
-   * 2. Finds the Katalon program on your computer
-   * 3. Builds the command to run
-   * 4. Executes the test
-   * 5. Collects and processes the results
+   * Run an already validated execution under the given ID
    */
-  private async executeTest(options: ExecutionOptions): Promise<ExecutionResult> {
-    // Generate a unique ID for this test run (helps track multiple tests)
-    const executionId = this.generateExecutionId();
+  private async runExecution(
+    options: ExecutionOptions,
+    executionId: string,
+    onProgress?: (progress: ExecutionProgress, event: TestCaseEvent) => void
+  ): Promise<ExecutionResult> {
     const startTime = new Date(); // Record when we started
 
-    // Make sure everything is set up correctly before starting
-    await this.validateExecution(options);
-
     // Find where Katalon is installed on this computer
     const katalonCommand = await this.findKatalonCommand();
 
     // Build the command-line arguments to pass to Katalon
     const args = await this.buildExecutionArgs(options, executionId);
 
-    // Actually run Katalon with our arguments
-    const { exitCode, output } = await this.runKatalonCommand(katalonCommand, args, executionId);
+    // Per-run timeout first, then the project's setting, then the default
+    const timeoutMinutes =
+      options.timeoutMinutes ??
+      (await this.settings.load(options.projectPath)).timeoutMinutes ??
+      DEFAULT_TIMEOUT_MINUTES;
+
+    // Follow test case progress in the console output as the suite runs; finished
+    // test cases double as partial results if the run is stopped early
+    const consoleResults: TestResult[] = [];
+    const progressParser = new KatalonConsoleProgressParser(
+      (progress, event) => {
+        if (event.type === 'finished') {
+          consoleResults.push({
+            testCaseName: event.testCaseId,
+            status: event.status ?? 'PASSED',
+            duration: 0,
+          });
+        }
+        onProgress?.(progress, event);
+      },
+      await this.countSuiteTestCases(options)
+    );
+
+    let exitCode = 1;
+    // A run cancelled while it was being prepared never starts katalonc
+    if (!this.stopReasons.has(executionId)) {
+      // Point the project at the remote endpoint for the length of this run
+      const restoreRemoteSettings = options.remoteWebDriver
+        ? await this.remoteConfigurator.apply(options.projectPath, options.remoteWebDriver)
+        : undefined;
+
+      // Actually run Katalon with our arguments
+      try {
+        ({ exitCode } = await this.runKatalonCommand(
+          katalonCommand,
+          args,
+          executionId,
+          progressParser,
+          timeoutMinutes * 60 * 1000,
+          options
+        ));
+      } finally {
+        await restoreRemoteSettings?.();
+      }
+    }
+    const stoppedReason = this.stopReasons.get(executionId);
 
     const endTime = new Date(); // Record when we finished
     const duration = endTime.getTime() - startTime.getTime(); // Calculate how long it took
 
     // Read and process the test results that Katalon generated
-    const testResults = await this.parseExecutionResults(options.projectPath, executionId);
+    const reportFolder = this.getReportFolder(options, executionId);
+    const parsed = await this.parseExecutionResults(options, reportFolder, startTime);
+    const { suiteResults } = parsed;
+    // Katalon writes its JUnit report last, so a stopped run may only have console results
+    const testResults =
+      stoppedReason && parsed.testResults.length === 0 ? consoleResults : parsed.testResults;
 
     // Find where Katalon saved the HTML report and log files
-    const reportPath = await this.getReportPath(options.projectPath, executionId);
-    const logPath = await this.getLogPath(options.projectPath, executionId);
+    const reportPath = await this.getReportPath(reportFolder);
+    const logPath = await this.getLogPath(reportFolder);
 
     return {
-      success: exitCode === 0,
+      success: exitCode === 0 && !stoppedReason,
       exitCode,
       executionId,
       startTime,
       endTime,
       duration,
       testResults,
+      suiteResults,
       reportPath,
       logPath,
-      screenshots: await this.getScreenshots(options.projectPath, executionId),
+      screenshots: await this.getScreenshots(reportFolder),
+      stoppedReason,
     };
   }
 
   private async validateExecution(options: ExecutionOptions): Promise<void> {
+    const [firstError] = await this.getValidationErrors(options);
+    if (firstError) {
+      throw new Error(firstError);
+    }
+  }
+
+  /**
+   * @param probeEndpoint - Ask a remote WebDriver endpoint whether it is up
+   */
+  private async getValidationErrors(
+    options: ExecutionOptions,
+    probeEndpoint = true
+  ): Promise<string[]> {
     // Check if project path exists
     if (!(await fs.pathExists(options.projectPath))) {
-      throw new Error(`Project path does not exist: ${options.projectPath}`);
+      return [`Project path does not exist: ${options.projectPath}`];
     }
 
     // Check if it's a valid Katalon project
-    const projectFile = path.join(options.projectPath, '.project');
-    if (!(await fs.pathExists(projectFile))) {
-      throw new Error(`Invalid Katalon project: ${options.projectPath}`);
+    if (!(await this.projectLoader.isKatalonProject(options.projectPath))) {
+      return [`Invalid Katalon project: ${options.projectPath}`];
     }
 
+    const errors: string[] = [];
+
     // Check if test suite exists
     const testSuitePath = path.join(options.projectPath, options.testSuitePath);
     if (!(await fs.pathExists(testSuitePath))) {
-      throw new Error(`Test suite not found: ${options.testSuitePath}`);
+      errors.push(`Test suite not found: ${options.testSuitePath}`);
+    } else if (options.testSuitePath.endsWith('.tsc')) {
+      // Check that every enabled member of a collection exists too
+      const collection = await this.collectionParser.parse(
+        options.projectPath,
+        options.testSuitePath
+      );
+      for (const member of collection.runConfigurations.filter(c => c.runEnabled)) {
+        if (!(await fs.pathExists(path.join(options.projectPath, member.testSuitePath)))) {
+          errors.push(
+            `Test suite ${member.testSuiteId} referenced by ${options.testSuitePath} not found`
+          );
+        }
+      }
     }
 
+    // Overridden variables must be declared in the profile, or katalonc ignores them
+    errors.push(...(await this.getGlobalVariableErrors(options)));
+
     // Validate browser
-    const supportedBrowsers = ['Chrome', 'Firefox', 'Safari', 'Edge', 'IE'];
+    const supportedBrowsers = ['Chrome', 'Firefox', 'Safari', 'Edge', 'IE', 'Remote'];
     if (options.browser && !supportedBrowsers.includes(options.browser)) {
-      throw new Error(`Unsupported browser: ${options.browser}`);
+      errors.push(`Unsupported browser: ${options.browser}`);
     }
+
+    // A remote run needs the project's remote settings to itself and an endpoint that is up,
+    // or remote settings saved in the project
+    if (options.remoteWebDriver) {
+      const endpointError =
+        this.remoteConfigurator.getReservationError(options.projectPath) ??
+        (probeEndpoint
+          ? await this.remoteConfigurator.checkEndpoint(options.remoteWebDriver)
+          : undefined);
+      if (endpointError) {
+        errors.push(endpointError);
+      }
+    } else if (
+      options.browser === 'Remote' &&
+      !(await this.remoteConfigurator.hasProjectSettings(options.projectPath))
+    ) {
+      errors.push('The Remote browser needs remoteWebDriver settings (url, type, capabilities)');
+    }
+
+    return errors;
   }
 
   private async findKatalonCommand(): Promise<string> {
@@ -254,9 +1368,12 @@ export class KatalonTestExecutor {
     }
 
     // Add report folder
-    const reportFolder =
-      options.reportFolder || path.join(options.projectPath, 'Reports', executionId);
-    args.push('-reportFolder', reportFolder);
+    args.push('-reportFolder', this.getReportFolder(options, executionId));
+
+    // Override profile variables for this run only
+    for (const [name, value] of Object.entries(this.resolveGlobalVariables(options))) {
+      args.push(`-g_${name}=${value}`);
+    }
 
     // Add browser configuration
     if (options.browserConfig) {
@@ -281,99 +1398,325 @@ export class KatalonTestExecutor {
     return args;
   }
 
+  /**
+   * Merge explicit global variable values with the ones read from the environment
+   */
+  private resolveGlobalVariables(options: ExecutionOptions): Record<string, string> {
+    const resolved: Record<string, string> = {};
+    for (const [name, value] of Object.entries(options.globalVariables ?? {})) {
+      resolved[name] = String(value);
+    }
+    for (const [name, envVar] of Object.entries(options.env ?? {})) {
+      const value = process.env[envVar];
+      if (value !== undefined) {
+        resolved[name] = value;
+      }
+    }
+    return resolved;
+  }
+
+  private async getGlobalVariableErrors(options: ExecutionOptions): Promise<string[]> {
+    const overridden = [
+      ...Object.keys(options.globalVariables ?? {}),
+      ...Object.keys(options.env ?? {}),
+    ];
+    if (overridden.length === 0) {
+      return [];
+    }
+
+    const profile = options.executionProfile || 'default';
+    const declared = await this.getProfileVariables(options.projectPath, profile);
+    if (!declared) {
+      return [`Execution profile not found: ${profile}`];
+    }
+
+    const errors: string[] = [];
+    for (const name of new Set(overridden)) {
+      if (!declared.includes(name)) {
+        errors.push(
+          `Global variable ${name} is not declared in profile ${profile} (declared: ${declared.join(', ') || 'none'})`
+        );
+      }
+    }
+    for (const name of Object.keys(options.env ?? {})) {
+      if (options.globalVariables && name in options.globalVariables) {
+        errors.push(`Global variable ${name} is set by both globalVariables and env`);
+      }
+      const envVar = options.env![name];
+      if (process.env[envVar] === undefined) {
+        errors.push(`Environment variable ${envVar} for global variable ${name} is not set`);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Names of the variables declared in a profile, or undefined if there is no such profile
+   */
+  private async getProfileVariables(
+    projectPath: string,
+    profile: string
+  ): Promise<string[] | undefined> {
+    const project = await this.projectLoader.load(projectPath);
+    return project.globalVariables[profile]?.map(variable => variable.name);
+  }
+
+  /**
+   * List the browserConfig settings that buildExecutionArgs has no katalonc flag for
+   */
+  private getDroppedBrowserConfig(options: ExecutionOptions): string[] {
+    const dropped: string[] = [];
+    const browserConfig = options.browserConfig;
+    if (!browserConfig) {
+      return dropped;
+    }
+
+    if (browserConfig.userAgent) {
+      dropped.push(`userAgent: "${browserConfig.userAgent}" (no katalonc flag is passed for it)`);
+    }
+    if (browserConfig.browserType && browserConfig.browserType !== options.browser) {
+      dropped.push(
+        `browserType: "${browserConfig.browserType}" (the browser option "${options.browser}" is used instead)`
+      );
+    }
+    return dropped;
+  }
+
+  private async countSuiteTestCases(options: ExecutionOptions): Promise<number | undefined> {
+    try {
+      // A collection runs each enabled member suite once per run configuration
+      if (options.testSuitePath.endsWith('.tsc')) {
+        const collection = await this.collectionParser.parse(
+          options.projectPath,
+          options.testSuitePath
+        );
+        let total = 0;
+        for (const member of collection.runConfigurations.filter(c => c.runEnabled)) {
+          const count = await this.countTestCaseLinks(options.projectPath, member.testSuitePath);
+          if (count === undefined) {
+            return undefined;
+          }
+          total += count;
+        }
+        return total || undefined;
+      }
+
+      return await this.countTestCaseLinks(options.projectPath, options.testSuitePath);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async countTestCaseLinks(
+    projectPath: string,
+    testSuitePath: string
+  ): Promise<number | undefined> {
+    if (!testSuitePath.endsWith('.ts')) {
+      return undefined;
+    }
+
+    const suiteXml = await fs.readFile(path.join(projectPath, testSuitePath), 'utf-8');
+    const suite = await this.parser.parseStringPromise(suiteXml);
+    const links: any[] = suite?.TestSuiteEntity?.testCaseLink || [];
+    return links.filter(link => link.isRun?.[0] !== 'false').length || undefined;
+  }
+
   private async runKatalonCommand(
     command: string,
     args: string[],
-    executionId: string
+    executionId: string,
+    progressParser?: KatalonConsoleProgressParser,
+    timeoutMs: number = DEFAULT_TIMEOUT_MINUTES * 60 * 1000,
+    options?: ExecutionOptions
   ): Promise<{ exitCode: number; output: string }> {
-    return new Promise((resolve, reject) => {
-      let output = '';
-      let errorOutput = '';
+    const runner = this.getRunner(options);
+    this.runningExecutions.set(executionId, runner);
+
+    // Stop runs that go on too long, keeping whatever results they produced
+    const timeout = setTimeout(() => {
+      this.logger.warn('Execution timed out', { executionId, timeoutMs });
+      this.stopReasons.set(executionId, 'timeout');
+      this.stopExecution(executionId).catch(() => undefined);
+    }, timeoutMs);
 
-      const process = spawn(command, args, {
-        stdio: ['pipe', 'pipe', 'pipe'],
-        shell: true,
+    try {
+      return await runner.run({
+        executionId,
+        command,
+        args,
+        projectPath: options?.projectPath ?? '',
+        testSuitePath: options?.testSuitePath ?? '',
+        reportFolder: options ? this.getReportFolder(options, executionId) : '',
+        onOutput: (chunk, stream) => {
+          if (stream === 'stdout') {
+            progressParser?.write(chunk); // Real-time progress
+            this.logger.debug(chunk, { executionId });
+          } else {
+            this.logger.debug(chunk, { executionId, stream });
+          }
+        },
       });
+    } finally {
+      clearTimeout(timeout);
+      progressParser?.flush();
+      this.runningExecutions.delete(executionId);
+    }
+  }
 
-      this.runningProcesses.set(executionId, process);
+  private getRunner(options?: ExecutionOptions): KatalonRunner {
+    const name = options?.runner ?? this.defaultRunner;
+    const runner = this.runners[name];
+    if (!runner) {
+      throw new Error(`Unknown runner: ${name}`);
+    }
+    return runner;
+  }
 
-      process.stdout?.on('data', data => {
-        const chunk = data.toString();
-        output += chunk;
-        console.log(chunk); // Real-time output
-      });
+  /**
+   * @param since - When the run started; reports written before it belong to earlier runs
+   */
+  private async parseExecutionResults(
+    options: ExecutionOptions,
+    reportFolder: string,
+    since: Date
+  ): Promise<{ testResults: TestResult[]; suiteResults?: SuiteResult[] }> {
+    try {
+      // Collections nest one report folder per member suite, so search the whole tree
+      const junitFiles = (
+        await glob('**/*JUnit*.xml', { cwd: reportFolder, nodir: true }).catch(() => [])
+      ).sort();
 
-      process.stderr?.on('data', data => {
-        const chunk = data.toString();
-        errorOutput += chunk;
-        console.error(chunk); // Real-time error output
-      });
+      // A caller-supplied report folder may be reused across runs; file times are
+      // only second-precise on some file systems, so compare whole seconds
+      const sinceMs = Math.floor(since.getTime() / 1000) * 1000;
+      const reports: JUnitSuiteReport[] = [];
+      for (const junitFile of junitFiles) {
+        const junitPath = path.join(reportFolder, junitFile);
+        if ((await fs.stat(junitPath)).mtimeMs < sinceMs) {
+          continue;
+        }
+        reports.push(...(await this.readJUnitReport(junitPath)));
+      }
 
-      process.on('close', code => {
-        this.runningProcesses.delete(executionId);
-        resolve({
-          exitCode: code || 0,
-          output: output + errorOutput,
-        });
+      if (!options.testSuitePath.endsWith('.tsc')) {
+        return { testResults: reports.flatMap(report => report.testResults) };
+      }
+
+      const suiteResults = await this.groupCollectionResults(options, reports);
+      return {
+        testResults: suiteResults.flatMap(suite => suite.testResults),
+        suiteResults,
+      };
+    } catch (error) {
+      this.logger.error('Failed to parse execution results', {
+        reportFolder,
+        error: error instanceof Error ? error.message : String(error),
       });
+      return { testResults: [] };
+    }
+  }
 
-      process.on('error', error => {
-        this.runningProcesses.delete(executionId);
-        reject(error);
+  /**
+   * Read every <testsuite> in a JUnit report file
+   */
+  private async readJUnitReport(junitPath: string): Promise<JUnitSuiteReport[]> {
+    const xmlContent = await fs.readFile(junitPath, 'utf-8');
+    const result = await this.parser.parseStringPromise(xmlContent);
+    // Katalon writes execution0.log and the JSON report next to the JUnit report
+    const steps = await this.reportParser.parseFolder(path.dirname(junitPath)).catch(error => {
+      this.logger.warn('Failed to parse step-level reports', {
+        junitPath,
+        error: error instanceof Error ? error.message : String(error),
       });
+      return new Map<string, StepRecord[]>();
+    });
 
-      // Timeout after 30 minutes
-      setTimeout(
-        () => {
-          if (this.runningProcesses.has(executionId)) {
-            process.kill();
-            this.runningProcesses.delete(executionId);
-            reject(new Error('Test execution timeout after 30 minutes'));
+    const testSuites = result.testsuites?.testsuite || result.testsuite || [];
+    return (Array.isArray(testSuites) ? testSuites : [testSuites]).map((testSuite: any) => {
+      const testCases = testSuite.testcase || [];
+      return {
+        junitPath,
+        suiteId: testSuite.$?.id,
+        suiteName: testSuite.$?.name,
+        testResults: (Array.isArray(testCases) ? testCases : [testCases]).map(
+          (testCase: any): TestResult => {
+            const problem = testCase.failure?.[0] ?? testCase.error?.[0];
+            const testCaseSteps = steps.get(testCase.$.name);
+            const failedStep = getFailedStep(testCaseSteps);
+            const screenshots = (testCaseSteps ?? []).flatMap(step =>
+              step.screenshot ? [step.screenshot] : []
+            );
+            return {
+              testCaseName: testCase.$.name,
+              status: this.getTestStatus(testCase),
+              duration: parseFloat(testCase.$.time) * 1000, // Convert to milliseconds
+              errorMessage: problem?.$?.message,
+              // The element's text holds the trace; a bare element parses to a plain string
+              stackTrace:
+                (typeof problem === 'string' ? problem : problem?._)?.trim() ||
+                failedStep?.stackTrace,
+              steps: testCaseSteps,
+              screenshots: screenshots.length ? screenshots : undefined,
+            };
           }
-        },
-        30 * 60 * 1000
-      );
+        ),
+      };
     });
   }
 
-  private async parseExecutionResults(
-    projectPath: string,
-    executionId: string
-  ): Promise<TestResult[]> {
-    try {
-      const reportPath = path.join(projectPath, 'Reports', executionId);
-      const reportFiles = await fs.readdir(reportPath).catch(() => []);
-
-      const junitFile = reportFiles.find(file => file.endsWith('.xml') && file.includes('JUnit'));
-      if (!junitFile) {
-        return [];
-      }
-
-      const junitPath = path.join(reportPath, junitFile);
-      const xmlContent = await fs.readFile(junitPath, 'utf-8');
-      const result = await this.parser.parseStringPromise(xmlContent);
-
-      const testResults: TestResult[] = [];
-      const testSuites = result.testsuites?.testsuite || [];
+  /**
+   * Match the member suite reports of a collection run to its run configurations
+   *
+   * Katalon names each member's report after the suite, so reports are matched
+   * by suite ID, suite name or folder name. A suite listed several times (say,
+   * once per browser) gets its reports in run order.
+   */
+  private async groupCollectionResults(
+    options: ExecutionOptions,
+    reports: JUnitSuiteReport[]
+  ): Promise<SuiteResult[]> {
+    const collection = await this.collectionParser.parse(
+      options.projectPath,
+      options.testSuitePath
+    );
+    const unmatched = [...reports];
 
-      for (const testSuite of Array.isArray(testSuites) ? testSuites : [testSuites]) {
-        const testCases = testSuite.testcase || [];
+    const suiteResults: SuiteResult[] = collection.runConfigurations
+      .filter(member => member.runEnabled)
+      .map(member => {
+        const suiteName = path.posix.basename(member.testSuiteId);
+        const index = unmatched.findIndex(
+          report =>
+            report.suiteId === member.testSuiteId ||
+            report.suiteName === suiteName ||
+            report.suiteName === member.testSuiteId ||
+            report.junitPath.split(path.sep).includes(suiteName)
+        );
+        const report = index >= 0 ? unmatched.splice(index, 1)[0] : undefined;
 
-        for (const testCase of Array.isArray(testCases) ? testCases : [testCases]) {
-          testResults.push({
-            testCaseName: testCase.$.name,
-            status: this.getTestStatus(testCase),
-            duration: parseFloat(testCase.$.time) * 1000, // Convert to milliseconds
-            errorMessage: testCase.failure?.[0]?.$.message || testCase.error?.[0]?.$.message,
-          });
-        }
-      }
+        return {
+          testSuiteId: member.testSuiteId,
+          browser: member.browser,
+          executionProfile: member.executionProfile,
+          reportPath: report ? path.dirname(report.junitPath) : undefined,
+          testResults: (report?.testResults ?? []).map(test => ({
+            ...test,
+            testSuiteId: member.testSuiteId,
+          })),
+        };
+      });
 
-      return testResults;
-    } catch (error) {
-      console.error('Failed to parse execution results:', error);
-      return [];
+    // Keep results we could not place rather than dropping them
+    for (const report of unmatched) {
+      const testSuiteId = report.suiteId || report.suiteName || path.dirname(report.junitPath);
+      suiteResults.push({
+        testSuiteId,
+        reportPath: path.dirname(report.junitPath),
+        testResults: report.testResults.map(test => ({ ...test, testSuiteId })),
+      });
     }
+
+    return suiteResults;
   }
 
   private getTestStatus(testCase: any): 'PASSED' | 'FAILED' | 'SKIPPED' | 'ERROR' {
@@ -383,26 +1726,23 @@ export class KatalonTestExecutor {
     return 'PASSED';
   }
 
-  private async getReportPath(
-    projectPath: string,
-    executionId: string
-  ): Promise<string | undefined> {
-    const reportPath = path.join(projectPath, 'Reports', executionId);
-    return (await fs.pathExists(reportPath)) ? reportPath : undefined;
+  private getReportFolder(options: ExecutionOptions, executionId: string): string {
+    return options.reportFolder || path.join(options.projectPath, 'Reports', executionId);
+  }
+
+  private async getReportPath(reportFolder: string): Promise<string | undefined> {
+    return (await fs.pathExists(reportFolder)) ? reportFolder : undefined;
   }
 
-  private async getLogPath(projectPath: string, executionId: string): Promise<string | undefined> {
-    const logPath = path.join(projectPath, 'Reports', executionId, 'execution.log');
+  private async getLogPath(reportFolder: string): Promise<string | undefined> {
+    const logPath = path.join(reportFolder, 'execution.log');
     return (await fs.pathExists(logPath)) ? logPath : undefined;
   }
 
-  private async getScreenshots(projectPath: string, executionId: string): Promise<string[]> {
+  private async getScreenshots(reportFolder: string): Promise<string[]> {
     try {
-      const reportPath = path.join(projectPath, 'Reports', executionId);
-      const files = await fs.readdir(reportPath);
-      return files
-        .filter(file => file.endsWith('.png') || file.endsWith('.jpg'))
-        .map(file => path.join(reportPath, file));
+      const files = await glob('**/*.{png,jpg}', { cwd: reportFolder, nodir: true });
+      return files.sort().map(file => path.join(reportFolder, file));
     } catch {
       return [];
     }
@@ -412,7 +1752,12 @@ export class KatalonTestExecutor {
     return `execution_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private formatExecutionResult(result: ExecutionResult): string {
+  private formatExecutionResult(result: ExecutionResult, projectPath?: string): string {
+    const failures = result.testResults.filter(t => t.status === 'FAILED' || t.status === 'ERROR');
+    // Many failures often share a few causes; show those before the individual results
+    const clusters =
+      failures.length > 1 ? this.failureTriage.cluster(result.testResults, projectPath) : [];
+
     const summary = `# Katalon Test Execution Report
 
 ## Execution Summary
@@ -422,25 +1767,24 @@ export class KatalonTestExecutor {
 - **Start Time**: ${result.startTime.toISOString()}
 - **End Time**: ${result.endTime.toISOString()}
 - **Duration**: ${(result.duration / 1000).toFixed(2)} seconds
-
+${result.stoppedReason ? `- **Stopped**: ${result.stoppedReason === 'timeout' ? '⏱️ Timed out' : '🛑 Cancelled'} - results below are partial\n` : ''}
 ## Test Results Summary
 - **Total Tests**: ${result.testResults.length}
 - **Passed**: ${result.testResults.filter(t => t.status === 'PASSED').length}
 - **Failed**: ${result.testResults.filter(t => t.status === 'FAILED').length}
 - **Skipped**: ${result.testResults.filter(t => t.status === 'SKIPPED').length}
 - **Errors**: ${result.testResults.filter(t => t.status === 'ERROR').length}
-
+${
+  clusters.length
+    ? `\n## Failure Clusters\n${failures.length} failures share ${clusters.length} signature(s). Use the \`triage\` action for details.\n\n${this.failureTriage.formatClusters(clusters, '###')}\n`
+    : ''
+}
 ## Individual Test Results
-${result.testResults
-  .map(
-    test => `
-### ${test.testCaseName}
-- **Status**: ${this.getStatusIcon(test.status)} ${test.status}
-- **Duration**: ${(test.duration / 1000).toFixed(2)} seconds
-${test.errorMessage ? `- **Error**: ${test.errorMessage}` : ''}
-`
-  )
-  .join('')}
+${
+  result.suiteResults
+    ? result.suiteResults.map(suite => this.formatSuiteResult(suite)).join('')
+    : this.formatTestResults(result.testResults, '###')
+}
 
 ## Artifacts
 ${result.reportPath ? `- **Report Path**: ${result.reportPath}` : ''}
@@ -451,6 +1795,242 @@ ${result.screenshots?.length ? `- **Screenshots**: ${result.screenshots.length}
     return summary;
   }
 
+  private formatDryRun(plans: ExecutionPlan[]): string {
+    const valid = plans.every(plan => plan.validationErrors.length === 0);
+
+    return `# Katalon Dry Run
+
+- **Validation**: ${valid ? '✅ Ready to run' : '❌ Would fail validation'}
+- **Runs**: ${plans.length}
+- **Note**: Nothing was started; a real run gets a fresh execution ID and report folder
+
+${plans
+  .map(
+    plan => `## ${plan.options.testSuitePath} (${plan.options.browser} / ${plan.options.executionProfile})
+
+### Command
+\`\`\`
+${[plan.command, ...this.maskEnvValues(plan)].map(arg => this.quoteArgument(arg)).join(' ')}
+\`\`\`
+
+### Arguments
+${this.maskEnvValues(plan)
+  .map((arg, index) => `${index + 1}. \`${arg}\``)
+  .join('\n')}
+
+- **Binary**: ${plan.command}
+- **Report Folder**: ${plan.reportFolder}
+
+### Dropped browserConfig Settings
+${plan.droppedBrowserConfig.length ? plan.droppedBrowserConfig.map(item => `- ⚠️ ${item}`).join('\n') : '- None'}
+
+### Validation
+${plan.validationErrors.length ? plan.validationErrors.map(error => `- ❌ ${error}`).join('\n') : '- ✅ No problems found'}
+`
+  )
+  .join('\n')}`;
+  }
+
+  private maskEnvValues(plan: ExecutionPlan): string[] {
+    // Values read from the environment are often secrets; show where they come from instead
+    const env = plan.options.env ?? {};
+    return plan.args.map(arg => {
+      const match = /^-g_([^=]+)=/.exec(arg);
+      return match && env[match[1]] ? `-g_${match[1]}=$${env[match[1]]}` : arg;
+    });
+  }
+
+  private quoteArgument(arg: string): string {
+    return /[\s"]/.test(arg) ? `"${arg.replace(/"/g, '\\"')}"` : arg;
+  }
+
+  private formatSuiteResult(suite: SuiteResult): string {
+    const passed = suite.testResults.filter(t => t.status === 'PASSED').length;
+    const settings = [suite.browser, suite.executionProfile].filter(Boolean).join(' / ');
+
+    return `
+### ${suite.testSuiteId}${settings ? ` (${settings})` : ''}
+- **Passed**: ${passed}/${suite.testResults.length}
+${suite.reportPath ? `- **Report Path**: ${suite.reportPath}` : '- **Report**: ⚠️ No report found for this suite'}
+${this.formatTestResults(suite.testResults, '####')}`;
+  }
+
+  private formatTestResults(testResults: TestResult[], heading: string): string {
+    return testResults
+      .map(
+        test => `
+${heading} ${test.testCaseName}
+- **Status**: ${this.getStatusIcon(test.status)} ${test.status}
+- **Duration**: ${(test.duration / 1000).toFixed(2)} seconds
+${test.errorMessage ? `- **Error**: ${test.errorMessage}` : ''}
+${this.formatFailedStep(test)}`
+      )
+      .join('');
+  }
+
+  /**
+   * Where a failed test case went wrong: the step, its object, trace and screenshot
+   */
+  private formatFailedStep(test: TestResult): string {
+    const step = getFailedStep(test.steps);
+    const lines: string[] = [];
+
+    if (step) {
+      const target = step.object ? ` on \`${step.object}\`` : '';
+      const duration =
+        step.durationMs !== undefined ? ` (${(step.durationMs / 1000).toFixed(2)}s)` : '';
+      lines.push(
+        `- **Failed Step**: #${step.index} of ${test.steps!.length} \`${step.keyword}\`${target}${duration}`
+      );
+      if (step.message && step.message !== test.errorMessage) {
+        lines.push(`- **Step Error**: ${step.message}`);
+      }
+      if (step.screenshot) {
+        lines.push(`- **Screenshot**: ${step.screenshot}`);
+      }
+    }
+
+    const stackTrace = step?.stackTrace ?? test.stackTrace;
+    if (stackTrace) {
+      // The top of the trace is what matters; the full trace stays in the reports
+      const top = stackTrace.split(/\r?\n/).slice(0, 6).join('\n');
+      lines.push(`- **Stack Trace**:\n\`\`\`\n${top}\n\`\`\``);
+    }
+
+    return lines.length ? `${lines.join('\n')}\n` : '';
+  }
+
+  private formatMatrixResult(options: ExecutionOptions, cells: MatrixCellResult[]): string {
+    const label = (cell: MatrixCellResult): string => `${cell.browser} / ${cell.executionProfile}`;
+    const cellStatus = (cell: MatrixCellResult): string => {
+      if (!cell.result) {
+        return '🚨 ERROR';
+      }
+      const failed = cell.result.testResults.some(
+        t => t.status === 'FAILED' || t.status === 'ERROR'
+      );
+      return cell.result.success && !failed ? '✅ PASSED' : '❌ FAILED';
+    };
+
+    // Union of test cases across cells, in the order they first appear
+    const testCaseNames = Array.from(
+      new Set(cells.flatMap(cell => cell.result?.testResults.map(t => t.testCaseName) ?? []))
+    );
+
+    return `# Katalon Matrix Execution Report
+
+## Matrix Summary
+- **Test Suite**: ${options.testSuitePath}
+- **Combinations**: ${cells.length}
+- **Passed**: ${cells.filter(cell => cellStatus(cell) === '✅ PASSED').length}
+
+| Browser / Profile | Status | Passed | Failed | Duration | Execution ID |
+| --- | --- | --- | --- | --- | --- |
+${cells
+  .map(
+    cell =>
+      `| ${label(cell)} | ${cellStatus(cell)} | ${cell.result?.testResults.filter(t => t.status === 'PASSED').length ?? '-'} | ${cell.result?.testResults.filter(t => t.status === 'FAILED' || t.status === 'ERROR').length ?? '-'} | ${cell.result ? `${(cell.result.duration / 1000).toFixed(2)}s` : '-'} | ${cell.executionId ?? '-'} |`
+  )
+  .join('\n')}
+
+## Test Case Results
+${
+  testCaseNames.length
+    ? `| Test Case | ${cells.map(label).join(' | ')} |
+| --- | ${cells.map(() => '---').join(' | ')} |
+${testCaseNames
+  .map(name => {
+    const statuses = cells.map(cell => {
+      const test = cell.result?.testResults.find(t => t.testCaseName === name);
+      return test ? `${this.getStatusIcon(test.status)} ${test.status}` : '-';
+    });
+    return `| ${name} | ${statuses.join(' | ')} |`;
+  })
+  .join('\n')}`
+    : 'No test case results were reported.'
+}
+${
+  cells.some(cell => cell.error)
+    ? `
+## Errors
+${cells
+  .filter(cell => cell.error)
+  .map(cell => `- **${label(cell)}**: ${cell.error}`)
+  .join('\n')}`
+    : ''
+}`;
+  }
+
+  private formatExecutionStatus(job: ExecutionJob): string {
+    const elapsed = ((job.endTime ?? new Date()).getTime() - job.startTime.getTime()) / 1000;
+
+    return `# Katalon Execution Status
+
+- **Execution ID**: ${job.executionId}
+- **Status**: ${job.status.toUpperCase()}${this.formatQueuePosition(job)}
+- **Test Suite**: ${job.options.testSuitePath}
+- **Browser**: ${job.options.browser}
+- **Profile**: ${job.options.executionProfile}
+- **Started**: ${job.startTime.toISOString()}
+- **Elapsed**: ${elapsed.toFixed(2)} seconds
+${job.rerunOf ? `- **Rerun Of**: ${job.rerunOf}` : ''}
+${job.progress ? `- **Progress**: ${job.progress.message}` : ''}
+${job.endTime ? `- **Finished**: ${job.endTime.toISOString()}` : ''}
+${job.error ? `- **Error**: ${job.error}` : ''}`;
+  }
+
+  private formatExecutionJobResult(job: ExecutionJob): string {
+    if (job.result) {
+      return this.formatExecutionResult(job.result, job.options.projectPath);
+    }
+    if (job.status === 'running' || job.status === 'queued') {
+      return `Execution ${job.executionId} is still ${job.status}. Check back with the \`status\` action.`;
+    }
+    return `Execution ${job.executionId} ended as ${job.status} without results${job.error ? `: ${job.error}` : '.'}`;
+  }
+
+  private formatQueuePosition(job: ExecutionJob): string {
+    const position = this.queue.getPosition(job.executionId);
+    return position ? ` (position ${position} in the queue)` : '';
+  }
+
+  private formatQueue(): string {
+    const { running, waiting } = this.queue.snapshot();
+    const describe = (entry: (typeof running)[number]): string =>
+      `**${entry.executionId}**: ${entry.options.testSuitePath} (${entry.options.browser}, ${entry.options.executionProfile}) - ${entry.priority} priority, project ${entry.projectPath}${entry.projectLimit ? ` (limit ${entry.projectLimit})` : ''}`;
+
+    return `# Katalon Execution Queue
+
+- **Machine Limit**: ${this.queue.maxConcurrent} concurrent executions
+- **Running**: ${running.length}
+- **Waiting**: ${waiting.length}
+
+## Running
+${running.length ? running.map(entry => `- ${describe(entry)}`).join('\n') : '- None'}
+
+## Waiting (next first)
+${waiting.length ? waiting.map((entry, index) => `${index + 1}. ${describe(entry)} - queued ${entry.enqueuedAt}`).join('\n') : '- None'}`;
+  }
+
+  private formatExecutionList(): string {
+    const jobs = Array.from(this.executions.values());
+    if (jobs.length === 0) {
+      return 'No executions have been run in this session.';
+    }
+
+    // Katalon processes that are still alive, as opposed to jobs merely marked running
+    const running = new Set(this.getRunningExecutions());
+
+    return `# Katalon Executions
+
+${jobs
+  .map(
+    job =>
+      `- **${job.executionId}**: ${job.status.toUpperCase()} - ${job.options.testSuitePath} (${job.options.browser}, ${job.options.executionProfile})${running.has(job.executionId) ? ' 🔄' : ''}`
+  )
+  .join('\n')}`;
+  }
+
   private getStatusIcon(status: string): string {
     switch (status) {
       case 'PASSED':
@@ -470,11 +2050,13 @@ ${result.screenshots?.length ? `- **Screenshots**: ${result.screenshots.length}
    * Stop a running test execution
    */
   async stopExecution(executionId: string): Promise<boolean> {
-    const process = this.runningProcesses.get(executionId);
-    if (process) {
-      process.kill();
-      this.runningProcesses.delete(executionId);
-      return true;
+    const runner = this.runningExecutions.get(executionId);
+    if (runner) {
+      if (!this.stopReasons.has(executionId)) {
+        this.stopReasons.set(executionId, 'cancelled');
+      }
+      // The runner asks nicely first, and forces the stop once the grace period is over
+      return runner.stop(executionId, this.killGracePeriodMs);
     }
     return false;
   }
@@ -483,6 +2065,6 @@ ${result.screenshots?.length ? `- **Screenshots**: ${result.screenshots.length}
    * Get status of running executions
    */
   getRunningExecutions(): string[] {
-    return Array.from(this.runningProcesses.keys());
+    return Array.from(this.runningExecutions.keys());
   }
 }
@@ -0,0 +1,253 @@
+// Import necessary libraries for turning executions into test management imports
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+import * as xml2js from 'xml2js'; // Read test case tags from .tc files
+import type { ExecutionRecord } from './execution-history'; // Recorded runs
+import { toTestCaseId } from './project-loader'; // Test case IDs from report names
+import { getFailedStep } from './report-parser'; // The step a test case failed on
+import type { TestResult } from './test-executor';
+
+/**
+ * 🗃️ TestManagementTool Type
+ * Test management tools results can be exported for
+ */
+export type TestManagementTool = 'testrail' | 'xray' | 'zephyr';
+
+/**
+ * 🔗 TestCaseMapping Type
+ * Katalon test case IDs to external case IDs, per tool
+ * Read from `.katalon-mcp/test-management.json` (or a chosen file), e.g.
+ * `{ "testrail": { "Test Cases/Login": "C123" }, "xray": { "Test Cases/Login": "PROJ-45" } }`
+ */
+export type TestCaseMapping = Partial<Record<TestManagementTool, Record<string, string>>>;
+
+/**
+ * 📋 TestManagementExport Interface
+ * One import file's content, plus the test cases it had to leave out
+ */
+export interface TestManagementExport {
+  payload: any; // JSON body in the tool's import format
+  unmapped: string[]; // Test cases with no external ID for this tool
+}
+
+// A test case result together with the external ID it maps to
+type MappedResult = {
+  test: TestResult;
+  externalId: string;
+  start: number; // Epoch milliseconds
+  finish: number;
+};
+
+// TestRail result status IDs: 1 passed, 4 retest, 5 failed
+const TESTRAIL_STATUS: Record<TestResult['status'], number> = {
+  PASSED: 1,
+  FAILED: 5,
+  ERROR: 5,
+  SKIPPED: 4,
+};
+
+// Xray's default statuses; skipped test cases stay to do
+const XRAY_STATUS: Record<TestResult['status'], string> = {
+  PASSED: 'PASSED',
+  FAILED: 'FAILED',
+  ERROR: 'FAILED',
+  SKIPPED: 'TODO',
+};
+
+// Zephyr Scale's default execution results
+const ZEPHYR_STATUS: Record<TestResult['status'], string> = {
+  PASSED: 'Passed',
+  FAILED: 'Failed',
+  ERROR: 'Failed',
+  SKIPPED: 'Not Executed',
+};
+
+// Tag prefixes that name an external ID, e.g. "xray:PROJ-45"
+const TAG_PATTERN = /^(testrail|xray|zephyr)\s*:\s*(\S+)$/i;
+
+/**
+ * 🗃️ Katalon Test Management Export Class
+ *
+ * Builds the import files of TestRail (`add_results_for_cases` payload), Xray
+ * (JSON import format) and Zephyr Scale (custom JSON format) from recorded
+ * executions. Test cases map to external IDs through tags on the test case
+ * (`testrail:C123`, `xray:PROJ-45`, `zephyr:PROJ-T12`, or a bare `C123` for
+ * TestRail) or a mapping file, which wins when both name an ID. Nothing is
+ * sent anywhere; the files are for the QA team to import.
+ */
+export class KatalonTestManagementExport {
+  private parser = new xml2js.Parser();
+
+  /**
+   * Read the mapping file of a project
+   *
+   * @param mappingFile - Use this file instead of `.katalon-mcp/test-management.json`
+   */
+  async loadMapping(projectPath: string, mappingFile?: string): Promise<TestCaseMapping> {
+    const mappingPath = mappingFile
+      ? path.resolve(projectPath, mappingFile)
+      : path.join(projectPath, '.katalon-mcp', 'test-management.json');
+    if (!(await fs.pathExists(mappingPath))) {
+      if (mappingFile) {
+        throw new Error(`Test case mapping file not found: ${mappingPath}`);
+      }
+      return {};
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(mappingPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Invalid test case mapping in ${mappingPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * External IDs from the tags of a test case (`<tag>` in its .tc file)
+   *
+   * @param testCaseName - Test case ID, or the name a JUnit report gave it
+   */
+  async readTagIds(
+    projectPath: string,
+    testCaseName: string
+  ): Promise<Partial<Record<TestManagementTool, string>>> {
+    const testCasePath = path.join(projectPath, `${toTestCaseId(testCaseName)}.tc`);
+    if (!(await fs.pathExists(testCasePath))) {
+      return {};
+    }
+
+    let tags = '';
+    try {
+      const testCase = await this.parser.parseStringPromise(
+        await fs.readFile(testCasePath, 'utf-8')
+      );
+      tags = String(testCase?.TestCaseEntity?.tag?.[0] ?? '');
+    } catch {
+      return {}; // A broken .tc isn't the export's problem
+    }
+
+    const ids: Partial<Record<TestManagementTool, string>> = {};
+    for (const tag of tags.split(/[,;]/).map(tag => tag.trim())) {
+      const prefixed = TAG_PATTERN.exec(tag);
+      if (prefixed) {
+        ids[prefixed[1].toLowerCase() as TestManagementTool] = prefixed[2];
+      } else if (/^C\d+$/.test(tag)) {
+        ids.testrail = tag;
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Build the import file for one tool
+   */
+  async build(
+    tool: TestManagementTool,
+    records: ExecutionRecord[],
+    mapping: TestCaseMapping
+  ): Promise<TestManagementExport> {
+    const mapped: MappedResult[] = [];
+    const unmapped: string[] = [];
+
+    for (const record of records) {
+      // Katalon only reports durations, so test cases of a run are laid out back to back
+      let start = new Date(record.startTime).getTime();
+      for (const test of record.testResults) {
+        const finish = start + test.duration;
+        const externalId =
+          mapping[tool]?.[test.testCaseName] ??
+          mapping[tool]?.[toTestCaseId(test.testCaseName)] ??
+          (await this.readTagIds(record.options.projectPath, test.testCaseName))[tool];
+        if (externalId) {
+          mapped.push({ test, externalId, start, finish });
+        } else if (!unmapped.includes(test.testCaseName)) {
+          unmapped.push(test.testCaseName);
+        }
+        start = finish;
+      }
+    }
+
+    switch (tool) {
+      case 'testrail':
+        return { payload: this.toTestRail(mapped), unmapped };
+      case 'xray':
+        return { payload: this.toXray(records, mapped), unmapped };
+      case 'zephyr':
+        return { payload: this.toZephyr(mapped), unmapped };
+      default:
+        throw new Error(`Unknown test management tool: ${tool}`);
+    }
+  }
+
+  private toTestRail(mapped: MappedResult[]): any {
+    return {
+      results: mapped.map(({ test, externalId }) => ({
+        case_id: Number(externalId.replace(/^C/i, '')),
+        status_id: TESTRAIL_STATUS[test.status],
+        comment: this.getComment(test),
+        // TestRail rejects elapsed times under one second
+        elapsed: this.formatElapsed(test.duration),
+      })),
+    };
+  }
+
+  private toXray(records: ExecutionRecord[], mapped: MappedResult[]): any {
+    const first = records[0];
+    const last = records[records.length - 1];
+    const browsers = [...new Set(records.map(record => record.browser).filter(Boolean))];
+
+    return {
+      info: {
+        summary: `Katalon execution of ${[...new Set(records.map(record => record.testSuitePath))].join(', ')}`,
+        description: `Imported from Katalon execution(s) ${records.map(record => record.executionId).join(', ')}`,
+        startDate: first ? new Date(first.startTime).toISOString() : undefined,
+        finishDate: last ? new Date(last.endTime).toISOString() : undefined,
+        testEnvironments: browsers.length ? browsers : undefined,
+      },
+      tests: mapped.map(({ test, externalId, start, finish }) => ({
+        testKey: externalId,
+        start: new Date(start).toISOString(),
+        finish: new Date(finish).toISOString(),
+        comment: this.getComment(test),
+        status: XRAY_STATUS[test.status],
+      })),
+    };
+  }
+
+  private toZephyr(mapped: MappedResult[]): any {
+    return {
+      version: 1,
+      executions: mapped.map(({ test, externalId }) => ({
+        source: `${test.testCaseName}.tc`,
+        result: ZEPHYR_STATUS[test.status],
+        testCase: {
+          key: externalId,
+          comment: this.getComment(test),
+        },
+      })),
+    };
+  }
+
+  private getComment(test: TestResult): string {
+    const lines = [
+      `Katalon: ${test.testCaseName} ${test.status} in ${(test.duration / 1000).toFixed(2)}s`,
+    ];
+    if (test.errorMessage) {
+      lines.push(test.errorMessage);
+    }
+    const step = getFailedStep(test.steps);
+    if (step) {
+      lines.push(
+        `Failed step #${step.index} ${step.keyword}${step.object ? ` on ${step.object}` : ''}`
+      );
+    }
+    return lines.join('\n');
+  }
+
+  private formatElapsed(durationMs: number): string {
+    const seconds = Math.max(1, Math.round(durationMs / 1000));
+    const minutes = Math.floor(seconds / 60);
+    return minutes ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+  }
+}
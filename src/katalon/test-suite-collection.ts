@@ -0,0 +1,76 @@
+// Import necessary libraries for reading test suite collection files
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+import * as xml2js from 'xml2js'; // Convert XML to JavaScript objects
+
+/**
+ * 📦 TestSuiteCollection Interface
+ * What a Katalon `.tsc` file says should be run, and how
+ * Like a playlist of test suites, each with its own device and settings
+ */
+export interface TestSuiteCollection {
+  name: string; // Collection name (e.g. "Nightly")
+  executionMode: 'SEQUENTIAL' | 'PARALLEL'; // Run members one by one or side by side
+  maxConcurrentInstances: number; // Parallel mode: how many members may run at once
+  runConfigurations: SuiteRunConfiguration[]; // Member suites in run order
+}
+
+/**
+ * 🎛️ SuiteRunConfiguration Interface
+ * One member suite of a collection together with the settings it runs with
+ */
+export interface SuiteRunConfiguration {
+  testSuiteId: string; // Katalon ID of the member suite (e.g. "Test Suites/Smoke")
+  testSuitePath: string; // Suite file relative to the project (e.g. "Test Suites/Smoke.ts")
+  runEnabled: boolean; // Is this member switched on?
+  browser?: string; // Run configuration ID Katalon uses, usually the browser (e.g. "Chrome")
+  executionProfile?: string; // Profile the member runs with
+  groupName?: string; // Katalon's run configuration group (e.g. "Web Desktop")
+}
+
+/**
+ * 📚 Katalon Test Suite Collection Parser
+ *
+ * Reads `.tsc` files so a collection run can be understood member by member,
+ * instead of as one opaque execution.
+ */
+export class KatalonTestSuiteCollectionParser {
+  private parser = new xml2js.Parser();
+
+  /**
+   * Parse a test suite collection file
+   *
+   * @param projectPath - Root of the Katalon project
+   * @param collectionPath - `.tsc` file relative to the project
+   */
+  async parse(projectPath: string, collectionPath: string): Promise<TestSuiteCollection> {
+    const xmlContent = await fs.readFile(path.join(projectPath, collectionPath), 'utf-8');
+    const result = await this.parser.parseStringPromise(xmlContent);
+    const entity = result?.TestSuiteCollectionEntity;
+
+    if (!entity) {
+      throw new Error(`Not a test suite collection: ${collectionPath}`);
+    }
+
+    const configurations: any[] =
+      entity.testSuiteRunConfigurations?.[0]?.TestSuiteRunConfiguration || [];
+
+    return {
+      name: entity.name?.[0] || path.basename(collectionPath, '.tsc'),
+      executionMode: entity.executionMode?.[0] === 'PARALLEL' ? 'PARALLEL' : 'SEQUENTIAL',
+      maxConcurrentInstances: parseInt(entity.maxConcurrentInstances?.[0] ?? '', 10) || 1,
+      runConfigurations: configurations.map(configuration => {
+        const testSuiteId: string = configuration.testSuiteEntity?.[0] ?? '';
+        const settings = configuration.configuration?.[0] ?? {};
+        return {
+          testSuiteId,
+          testSuitePath: `${testSuiteId}.ts`,
+          runEnabled: configuration.runEnabled?.[0] !== 'false',
+          browser: settings.runConfigurationId?.[0],
+          executionProfile: settings.profileName?.[0],
+          groupName: settings.groupName?.[0],
+        };
+      }),
+    };
+  }
+}
@@ -0,0 +1,697 @@
+// Import necessary libraries for reading and writing test suite files
+import * as fs from 'fs-extra'; // Enhanced file system operations
+import * as path from 'path'; // File path manipulation
+import * as xml2js from 'xml2js'; // Convert between XML and JavaScript objects
+import { randomUUID } from 'crypto'; // GUIDs Katalon links suite entries by
+import { KatalonProjectLoader } from './project-loader'; // Which test cases and data files exist
+import { KatalonTestSuiteCollectionParser, TestSuiteCollection } from './test-suite-collection'; // .tsc files
+
+/**
+ * ⚙️ TestSuiteSettings Interface
+ * Suite-level settings that can be set when creating or updating a suite
+ */
+export interface TestSuiteSettings {
+  description?: string; // What the suite covers
+  pageLoadTimeout?: number; // Seconds to wait for a page; replaces the project default
+  numberOfRerun?: number; // Retry failed executions this many times
+  rerunFailedTestCasesOnly?: boolean; // Retries run only the failed test cases
+  rerunImmediately?: boolean; // Retry a failed test case right away instead of at the end
+}
+
+/**
+ * 🔗 VariableBinding Interface
+ * Feeds one test case variable from a column of a data file
+ */
+export interface VariableBinding {
+  variable: string; // Variable declared in the test case (e.g. "username")
+  column: string | number; // Column name, or 1-based column index
+}
+
+/**
+ * 🗃️ DataBinding Interface
+ * Binds a data file to a test case in a suite, so the case runs once per data row
+ */
+export interface DataBinding {
+  testCaseId: string; // Linked test case (e.g. "Test Cases/Login")
+  testDataId: string; // Data file (e.g. "Data Files/Users")
+  variables: VariableBinding[]; // Which column feeds which variable
+  iterationType?: 'ALL' | 'RANGE' | 'SPECIFIC'; // Which rows to run
+  iterationValue?: string; // RANGE: "1-5", SPECIFIC: "1,3,5"
+}
+
+/**
+ * 📋 TestSuiteSummary Interface
+ * What a suite runs, as shown to the agent
+ */
+export interface TestSuiteSummary {
+  testSuiteId: string; // Katalon ID (e.g. "Test Suites/Regression")
+  testSuitePath: string; // Suite file relative to the project
+  description: string;
+  pageLoadTimeout?: number; // Undefined when the project default is used
+  numberOfRerun: number;
+  rerunFailedTestCasesOnly: boolean;
+  rerunImmediately: boolean;
+  testCases: { testCaseId: string; isRun: boolean; testData: string[] }[]; // Links in run order
+}
+
+/**
+ * 🎛️ CollectionMember Interface
+ * A suite to add to a collection, with the run configuration it runs with
+ */
+export interface CollectionMember {
+  testSuiteId: string; // Member suite (e.g. "Test Suites/Smoke")
+  browser?: string; // Run configuration, usually the browser (default "Chrome")
+  executionProfile?: string; // Profile the member runs with (default "default")
+  groupName?: string; // Katalon's run configuration group; guessed from the browser when left out
+  runEnabled?: boolean; // Switched on? (default true)
+}
+
+/**
+ * 📚 CollectionDefinition Interface
+ * Everything needed to write a `.tsc` file
+ */
+export interface CollectionDefinition {
+  description?: string; // What the collection is for
+  executionMode?: 'SEQUENTIAL' | 'PARALLEL'; // Run members one by one or side by side (default sequential)
+  maxConcurrentInstances?: number; // Parallel mode: how many members may run at once (default 8)
+  members: CollectionMember[]; // Member suites in run order
+}
+
+// Katalon's run configuration group for browsers that aren't desktop web
+const RUN_CONFIGURATION_GROUPS: Record<string, string> = {
+  Android: 'Mobile',
+  iOS: 'Mobile',
+  Remote: 'Remote',
+};
+
+// Element order of a Katalon TestSuiteEntity; Studio rewrites files in this order
+const SUITE_ELEMENTS = [
+  'description',
+  'name',
+  'tag',
+  'isRerun',
+  'mailRecipient',
+  'numberOfRerun',
+  'pageLoadTimeout',
+  'pageLoadTimeoutDefault',
+  'rerunFailedTestCasesOnly',
+  'rerunImmediately',
+  'testSuiteGuid',
+  'testCaseLink',
+];
+
+// Element order of a testCaseLink
+const LINK_ELEMENTS = [
+  'guid',
+  'isReuseDriver',
+  'isRun',
+  'testCaseId',
+  'testDataLink',
+  'usingDataBindingAtTestSuiteLevel',
+  'variableLink',
+];
+
+// Element order of a testDataLink
+const DATA_LINK_ELEMENTS = ['combinationType', 'id', 'iterationEntity', 'testDataId'];
+
+/**
+ * 🧩 Katalon Test Suite Manager Class
+ *
+ * Creates `.ts` test suites and edits their test case links: adding,
+ * removing and reordering test cases, suite settings, and binding data files
+ * to test case variables. Files are changed in place, keeping any elements
+ * this class doesn't know about, so suites stay editable in Katalon Studio.
+ * It also writes `.tsc` collections that run suites with their own browser
+ * and profile, the way a nightly matrix is set up in Studio.
+ */
+export class KatalonTestSuiteManager {
+  private parser = new xml2js.Parser();
+  private builder = new xml2js.Builder();
+  private collectionParser = new KatalonTestSuiteCollectionParser();
+
+  /**
+   * @param projectLoader - Checks that linked test cases and data files exist
+   */
+  constructor(private projectLoader: KatalonProjectLoader = new KatalonProjectLoader()) {}
+
+  /**
+   * 🛠️ Handle a Test Suite Tool Call
+   * Runs one action on one suite and shows the suite afterwards
+   */
+  async manageTestSuite(args: any): Promise<{ content: any[] }> {
+    const { projectPath, action, testSuitePath } = args;
+    let message: string;
+
+    switch (action) {
+      case 'create':
+        await this.createTestSuite(projectPath, testSuitePath, args.testCaseIds ?? [], args);
+        message = `✅ Created test suite ${this.resolveSuite(projectPath, testSuitePath).id}`;
+        break;
+      case 'show':
+        message = '';
+        break;
+      case 'update':
+        await this.updateSettings(projectPath, testSuitePath, args);
+        message = '✅ Updated suite settings';
+        break;
+      case 'add_test_cases': {
+        const added = await this.addTestCases(
+          projectPath,
+          testSuitePath,
+          this.requireTestCaseIds(args),
+          args.position
+        );
+        message = `✅ Added ${added.length} test case(s)`;
+        break;
+      }
+      case 'remove_test_cases': {
+        const removed = await this.removeTestCases(
+          projectPath,
+          testSuitePath,
+          this.requireTestCaseIds(args)
+        );
+        message = `✅ Removed ${removed.length} test case(s)`;
+        break;
+      }
+      case 'reorder':
+        await this.reorderTestCases(projectPath, testSuitePath, this.requireTestCaseIds(args));
+        message = '✅ Reordered test cases';
+        break;
+      case 'bind_data':
+        if (!args.testCaseId || !args.testDataId || !args.variableBindings?.length) {
+          throw new Error('testCaseId, testDataId and variableBindings are required to bind data');
+        }
+        await this.bindData(projectPath, testSuitePath, {
+          testCaseId: args.testCaseId,
+          testDataId: args.testDataId,
+          variables: args.variableBindings,
+          iterationType: args.iterationType,
+          iterationValue: args.iterationValue,
+        });
+        message = `✅ Bound ${args.testDataId} to ${args.testCaseId}`;
+        break;
+      default:
+        throw new Error(`Unknown test suite action: ${action}`);
+    }
+
+    const summary = await this.describeTestSuite(projectPath, testSuitePath);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${message ? `${message}\n\n` : ''}${this.formatSummary(summary)}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * 🛠️ Handle a Test Suite Collection Tool Call
+   * Creates or shows a `.tsc` collection
+   */
+  async manageTestSuiteCollection(args: any): Promise<{ content: any[] }> {
+    const { projectPath, action, collectionPath } = args;
+    let message = '';
+
+    switch (action) {
+      case 'create':
+        if (!args.members?.length) {
+          throw new Error('members is required to create a test suite collection');
+        }
+        await this.createTestSuiteCollection(projectPath, collectionPath, args);
+        message = `✅ Created test suite collection ${this.resolveSuite(projectPath, collectionPath, '.tsc').id}`;
+        break;
+      case 'show':
+        break;
+      default:
+        throw new Error(`Unknown test suite collection action: ${action}`);
+    }
+
+    const { id } = this.resolveSuite(projectPath, collectionPath, '.tsc');
+    const collection = await this.collectionParser.parse(projectPath, `${id}.tsc`);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${message ? `${message}\n\n` : ''}${this.formatCollection(id, collection)}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Write a new collection, after checking its suites and profiles exist
+   */
+  async createTestSuiteCollection(
+    projectPath: string,
+    collectionPath: string,
+    definition: CollectionDefinition
+  ): Promise<void> {
+    const collection = this.resolveSuite(projectPath, collectionPath, '.tsc');
+    if (await fs.pathExists(collection.file)) {
+      throw new Error(`Test suite collection already exists: ${collection.id}`);
+    }
+
+    const project = await this.projectLoader.load(projectPath);
+    const missingSuites = definition.members
+      .map(member => member.testSuiteId.replace(/\.ts$/, ''))
+      .filter(testSuiteId => !project.testSuites.includes(testSuiteId));
+    if (missingSuites.length) {
+      throw new Error(`Test suite not found: ${[...new Set(missingSuites)].join(', ')}`);
+    }
+    const missingProfiles = definition.members
+      .map(member => member.executionProfile ?? 'default')
+      .filter(profile => !project.profiles.includes(profile));
+    if (project.profiles.length && missingProfiles.length) {
+      throw new Error(`Profile not found: ${[...new Set(missingProfiles)].join(', ')}`);
+    }
+
+    const xml = this.builder.buildObject({
+      TestSuiteCollectionEntity: {
+        description: definition.description ?? '',
+        name: path.basename(collection.id),
+        tag: '',
+        delayBetweenInstances: '0',
+        executionMode: definition.executionMode ?? 'SEQUENTIAL',
+        maxConcurrentInstances: String(definition.maxConcurrentInstances ?? 8),
+        testSuiteRunConfigurations: {
+          TestSuiteRunConfiguration: definition.members.map(member => {
+            const browser = member.browser ?? 'Chrome';
+            return {
+              configuration: {
+                groupName: member.groupName ?? RUN_CONFIGURATION_GROUPS[browser] ?? 'Web Desktop',
+                profileName: member.executionProfile ?? 'default',
+                requireConfigurationData: 'false',
+                runConfigurationId: browser,
+              },
+              runEnabled: String(member.runEnabled ?? true),
+              testSuiteEntity: member.testSuiteId.replace(/\.ts$/, ''),
+            };
+          }),
+        },
+      },
+    });
+
+    await fs.outputFile(collection.file, xml);
+    this.projectLoader.invalidate(projectPath);
+  }
+
+  /**
+   * Write a new suite linking the given test cases
+   */
+  async createTestSuite(
+    projectPath: string,
+    testSuitePath: string,
+    testCaseIds: string[],
+    settings: TestSuiteSettings = {}
+  ): Promise<void> {
+    const suite = this.resolveSuite(projectPath, testSuitePath);
+    if (await fs.pathExists(suite.file)) {
+      throw new Error(`Test suite already exists: ${suite.id}`);
+    }
+    await this.checkTestCases(projectPath, testCaseIds);
+
+    const entity: any = {
+      description: [''],
+      name: [path.basename(suite.id)],
+      tag: [''],
+      isRerun: ['false'],
+      mailRecipient: [''],
+      numberOfRerun: ['0'],
+      pageLoadTimeout: ['30'],
+      pageLoadTimeoutDefault: ['true'],
+      rerunFailedTestCasesOnly: ['false'],
+      rerunImmediately: ['false'],
+      testSuiteGuid: [randomUUID()],
+      testCaseLink: [...new Set(testCaseIds)].map(testCaseId => this.createLink(testCaseId)),
+    };
+    this.applySettings(entity, settings);
+    await this.writeSuite(projectPath, suite.file, entity);
+  }
+
+  /**
+   * Change suite-level settings, leaving the links alone
+   */
+  async updateSettings(
+    projectPath: string,
+    testSuitePath: string,
+    settings: TestSuiteSettings
+  ): Promise<void> {
+    const { file, entity } = await this.readSuite(projectPath, testSuitePath);
+    this.applySettings(entity, settings);
+    await this.writeSuite(projectPath, file, entity);
+  }
+
+  /**
+   * Link test cases, at the end or before the link at `position` (0-based)
+   * @returns The test cases that were linked; ones already in the suite are skipped
+   */
+  async addTestCases(
+    projectPath: string,
+    testSuitePath: string,
+    testCaseIds: string[],
+    position?: number
+  ): Promise<string[]> {
+    const { file, entity } = await this.readSuite(projectPath, testSuitePath);
+    await this.checkTestCases(projectPath, testCaseIds);
+
+    const links: any[] = entity.testCaseLink ?? [];
+    const linked = new Set(links.map(link => this.getTestCaseId(link)));
+    const added = [...new Set(testCaseIds)].filter(testCaseId => !linked.has(testCaseId));
+
+    links.splice(
+      position === undefined ? links.length : Math.min(position, links.length),
+      0,
+      ...added.map(testCaseId => this.createLink(testCaseId))
+    );
+    entity.testCaseLink = links;
+    await this.writeSuite(projectPath, file, entity);
+    return added;
+  }
+
+  /**
+   * Unlink test cases, with their data bindings
+   * @returns The test cases that were unlinked
+   */
+  async removeTestCases(
+    projectPath: string,
+    testSuitePath: string,
+    testCaseIds: string[]
+  ): Promise<string[]> {
+    const { file, entity } = await this.readSuite(projectPath, testSuitePath);
+    const links: any[] = entity.testCaseLink ?? [];
+
+    const missing = testCaseIds.filter(
+      testCaseId => !links.some(link => this.getTestCaseId(link) === testCaseId)
+    );
+    if (missing.length) {
+      throw new Error(`Not in test suite: ${missing.join(', ')}`);
+    }
+
+    entity.testCaseLink = links.filter(link => !testCaseIds.includes(this.getTestCaseId(link)));
+    await this.writeSuite(projectPath, file, entity);
+    return testCaseIds;
+  }
+
+  /**
+   * Put the listed test cases first, in the given order; the others keep their order after them
+   */
+  async reorderTestCases(
+    projectPath: string,
+    testSuitePath: string,
+    testCaseIds: string[]
+  ): Promise<void> {
+    const { file, entity } = await this.readSuite(projectPath, testSuitePath);
+    const links: any[] = entity.testCaseLink ?? [];
+
+    const first = testCaseIds.map(testCaseId => {
+      const link = links.find(candidate => this.getTestCaseId(candidate) === testCaseId);
+      if (!link) {
+        throw new Error(`Not in test suite: ${testCaseId}`);
+      }
+      return link;
+    });
+    entity.testCaseLink = [...new Set([...first, ...links])];
+    await this.writeSuite(projectPath, file, entity);
+  }
+
+  /**
+   * Bind a data file to a linked test case; bindings of the same variables are replaced
+   */
+  async bindData(projectPath: string, testSuitePath: string, binding: DataBinding): Promise<void> {
+    const { file, entity } = await this.readSuite(projectPath, testSuitePath);
+    const link = (entity.testCaseLink ?? []).find(
+      (candidate: any) => this.getTestCaseId(candidate) === binding.testCaseId
+    );
+    if (!link) {
+      throw new Error(`Not in test suite: ${binding.testCaseId}`);
+    }
+
+    const project = await this.projectLoader.load(projectPath);
+    if (
+      !project.entities.some(
+        entity => entity.type === 'testData' && entity.id === binding.testDataId
+      )
+    ) {
+      throw new Error(`Data file not found: ${binding.testDataId}`);
+    }
+    if (binding.iterationType && binding.iterationType !== 'ALL' && !binding.iterationValue) {
+      throw new Error(`iterationValue is required for ${binding.iterationType} iteration`);
+    }
+    const variableIds = await this.getVariableIds(projectPath, binding.testCaseId);
+
+    // One testDataLink per data file; binding the same file again updates its rows
+    const dataLinks: any[] = link.testDataLink ?? [];
+    let dataLink = dataLinks.find(candidate => candidate.testDataId?.[0] === binding.testDataId);
+    if (!dataLink) {
+      dataLink = { combinationType: ['ONE'], id: [randomUUID()], testDataId: [binding.testDataId] };
+      dataLinks.push(dataLink);
+    }
+    dataLink.iterationEntity = [
+      {
+        iterationType: [binding.iterationType ?? 'ALL'],
+        value: [binding.iterationType === 'ALL' ? '' : (binding.iterationValue ?? '')],
+      },
+    ];
+    link.testDataLink = dataLinks.map(candidate =>
+      this.orderElements(candidate, DATA_LINK_ELEMENTS)
+    );
+
+    const variableLinks: any[] = link.variableLink ?? [];
+    for (const variable of binding.variables) {
+      const variableId = variableIds.get(variable.variable);
+      if (!variableId) {
+        throw new Error(`Variable ${variable.variable} is not declared in ${binding.testCaseId}`);
+      }
+
+      const variableLink = {
+        testDataLinkId: [dataLink.id[0]],
+        type: [typeof variable.column === 'number' ? 'DATA_COLUMN_INDEX' : 'DATA_COLUMN'],
+        value: [String(variable.column)],
+        variableId: [variableId],
+      };
+      const existing = variableLinks.findIndex(
+        candidate => candidate.variableId?.[0] === variableId
+      );
+      if (existing >= 0) {
+        variableLinks[existing] = variableLink;
+      } else {
+        variableLinks.push(variableLink);
+      }
+    }
+    link.variableLink = variableLinks;
+    link.usingDataBindingAtTestSuiteLevel = ['true'];
+
+    await this.writeSuite(projectPath, file, entity);
+  }
+
+  /**
+   * Read what a suite runs and with which settings
+   */
+  async describeTestSuite(projectPath: string, testSuitePath: string): Promise<TestSuiteSummary> {
+    const { id, entity } = await this.readSuite(projectPath, testSuitePath);
+    const text = (value: any) => (typeof value?.[0] === 'string' ? value[0] : '');
+
+    return {
+      testSuiteId: id,
+      testSuitePath: `${id}.ts`,
+      description: text(entity.description),
+      pageLoadTimeout:
+        text(entity.pageLoadTimeoutDefault) === 'false'
+          ? parseInt(text(entity.pageLoadTimeout), 10)
+          : undefined,
+      numberOfRerun: parseInt(text(entity.numberOfRerun), 10) || 0,
+      rerunFailedTestCasesOnly: text(entity.rerunFailedTestCasesOnly) === 'true',
+      rerunImmediately: text(entity.rerunImmediately) === 'true',
+      testCases: (entity.testCaseLink ?? []).map((link: any) => ({
+        testCaseId: this.getTestCaseId(link),
+        isRun: text(link.isRun) !== 'false',
+        testData: (link.testDataLink ?? []).map((dataLink: any) => text(dataLink.testDataId)),
+      })),
+    };
+  }
+
+  /**
+   * Accepts "Test Suites/Regression" or "Test Suites/Regression.ts" (".tsc" for collections)
+   */
+  private resolveSuite(
+    projectPath: string,
+    testSuitePath: string,
+    extension: '.ts' | '.tsc' = '.ts'
+  ): { id: string; file: string } {
+    const id = testSuitePath.replace(/\\/g, '/');
+    const withoutExtension = id.endsWith(extension) ? id.slice(0, -extension.length) : id;
+    if (
+      !withoutExtension.startsWith('Test Suites/') ||
+      withoutExtension.split('/').some(part => part === '..' || !part)
+    ) {
+      throw new Error(`Invalid test suite path: ${testSuitePath}`);
+    }
+    return {
+      id: withoutExtension,
+      file: path.join(projectPath, `${withoutExtension}${extension}`),
+    };
+  }
+
+  private async readSuite(
+    projectPath: string,
+    testSuitePath: string
+  ): Promise<{ id: string; file: string; entity: any }> {
+    const { id, file } = this.resolveSuite(projectPath, testSuitePath);
+    if (!(await fs.pathExists(file))) {
+      throw new Error(`Test suite not found: ${id}`);
+    }
+
+    const result = await this.parser.parseStringPromise(await fs.readFile(file, 'utf-8'));
+    if (!result?.TestSuiteEntity) {
+      throw new Error(`Not a test suite: ${id}`);
+    }
+    return { id, file, entity: result.TestSuiteEntity };
+  }
+
+  private async writeSuite(projectPath: string, file: string, entity: any): Promise<void> {
+    entity.testCaseLink = (entity.testCaseLink ?? []).map((link: any) =>
+      this.orderElements(link, LINK_ELEMENTS)
+    );
+    const xml = this.builder.buildObject({
+      TestSuiteEntity: this.orderElements(entity, SUITE_ELEMENTS),
+    });
+
+    await fs.outputFile(file, xml);
+    this.projectLoader.invalidate(projectPath);
+  }
+
+  /**
+   * Known elements first, in Katalon's order; unknown ones keep theirs after them
+   */
+  private orderElements(element: any, order: string[]): any {
+    const ordered: any = element.$ ? { $: element.$ } : {};
+    for (const key of [...order, ...Object.keys(element)]) {
+      if (key !== '$' && element[key] !== undefined && !(key in ordered)) {
+        ordered[key] = element[key];
+      }
+    }
+    return ordered;
+  }
+
+  private applySettings(entity: any, settings: TestSuiteSettings): void {
+    if (settings.description !== undefined) {
+      entity.description = [settings.description];
+    }
+    if (settings.pageLoadTimeout !== undefined) {
+      entity.pageLoadTimeout = [String(settings.pageLoadTimeout)];
+      entity.pageLoadTimeoutDefault = ['false'];
+    }
+    if (settings.numberOfRerun !== undefined) {
+      entity.numberOfRerun = [String(settings.numberOfRerun)];
+      entity.isRerun = [String(settings.numberOfRerun > 0)];
+    }
+    if (settings.rerunFailedTestCasesOnly !== undefined) {
+      entity.rerunFailedTestCasesOnly = [String(settings.rerunFailedTestCasesOnly)];
+    }
+    if (settings.rerunImmediately !== undefined) {
+      entity.rerunImmediately = [String(settings.rerunImmediately)];
+    }
+  }
+
+  private createLink(testCaseId: string): any {
+    return {
+      guid: [randomUUID()],
+      isReuseDriver: ['false'],
+      isRun: ['true'],
+      testCaseId: [testCaseId],
+      usingDataBindingAtTestSuiteLevel: ['true'],
+    };
+  }
+
+  private getTestCaseId(link: any): string {
+    return link.testCaseId?.[0] ?? '';
+  }
+
+  private requireTestCaseIds(args: any): string[] {
+    if (!args.testCaseIds?.length) {
+      throw new Error(`testCaseIds is required for ${args.action}`);
+    }
+    return args.testCaseIds;
+  }
+
+  private async checkTestCases(projectPath: string, testCaseIds: string[]): Promise<void> {
+    const project = await this.projectLoader.load(projectPath);
+    const missing = testCaseIds.filter(testCaseId => !project.testCases.includes(testCaseId));
+    if (missing.length) {
+      throw new Error(`Test case not found: ${missing.join(', ')}`);
+    }
+  }
+
+  /**
+   * Variable names of a test case mapped to the IDs suites bind them by
+   */
+  private async getVariableIds(
+    projectPath: string,
+    testCaseId: string
+  ): Promise<Map<string, string>> {
+    const xml = await fs.readFile(path.join(projectPath, `${testCaseId}.tc`), 'utf-8');
+    const result = await this.parser.parseStringPromise(xml);
+    const variables: any[] = result?.TestCaseEntity?.variable ?? [];
+
+    return new Map(
+      variables
+        .filter(variable => variable.name?.[0] && variable.id?.[0])
+        .map(variable => [variable.name[0], variable.id[0]])
+    );
+  }
+
+  private formatCollection(id: string, collection: TestSuiteCollection): string {
+    const rows = collection.runConfigurations.map(
+      (member, index) =>
+        `| ${index + 1} | ${member.testSuiteId} | ${member.browser ?? '-'} | ${member.executionProfile ?? '-'} | ${member.runEnabled ? 'yes' : 'no'} |`
+    );
+
+    return `# Katalon Test Suite Collection
+
+- **Collection**: ${id}
+- **File**: ${id}.tsc
+- **Execution Mode**: ${collection.executionMode}${
+      collection.executionMode === 'PARALLEL'
+        ? ` (up to ${collection.maxConcurrentInstances} at once)`
+        : ''
+    }
+
+## Suites (${collection.runConfigurations.length})
+
+| # | Suite | Browser | Profile | Enabled |
+|---|-------|---------|---------|---------|
+${rows.join('\n')}`;
+  }
+
+  private formatSummary(summary: TestSuiteSummary): string {
+    const testCases = summary.testCases.length
+      ? summary.testCases
+          .map(
+            (testCase, index) =>
+              `${index + 1}. ${testCase.testCaseId}${testCase.isRun ? '' : ' (not run)'}${
+                testCase.testData.length ? ` — data: ${testCase.testData.join(', ')}` : ''
+              }`
+          )
+          .join('\n')
+      : '_No test cases yet_';
+
+    return `# Katalon Test Suite
+
+- **Suite**: ${summary.testSuiteId}
+- **File**: ${summary.testSuitePath}
+- **Description**: ${summary.description || '-'}
+- **Page Load Timeout**: ${summary.pageLoadTimeout !== undefined ? `${summary.pageLoadTimeout}s` : 'project default'}
+- **Retries**: ${summary.numberOfRerun}${
+      summary.numberOfRerun
+        ? ` (${summary.rerunFailedTestCasesOnly ? 'failed test cases only' : 'whole suite'}, ${
+            summary.rerunImmediately ? 'immediately' : 'after the run'
+          })`
+        : ''
+    }
+
+## Test Cases (${summary.testCases.length})
+
+${testCases}`;
+  }
+}
@@ -18,10 +18,92 @@ export const ExecuteTestSuiteArgsSchema = z.object({
     reportFolder: z.string().optional(),
     consoleLog: z.boolean().optional().default(true),
     retry: z.number().min(0).optional().default(0),
+    globalVariables: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+    env: z.record(z.string()).optional(),
+    remoteWebDriver: z
+        .object({
+            url: z.string().url('Remote WebDriver URL must be a valid URL'),
+            type: z.enum(['Selenium', 'Appium']).optional().default('Selenium'),
+            desiredCapabilities: z.record(z.unknown()).optional(),
+        })
+        .optional(),
+    timeoutMinutes: z.number().positive('Timeout must be positive').optional(),
+    priority: z.enum(['high', 'normal', 'low']).optional().default('normal'),
+    runner: z.enum(['local', 'docker', 'simulated']).optional(),
+    screenshotMaxWidth: z.number().int().positive('Screenshot width must be positive').optional(),
+    dryRun: z.boolean().optional().default(false),
+    matrix: z
+        .object({
+            browsers: z.array(z.string()).min(1, 'At least one browser is required'),
+            executionProfiles: z.array(z.string()).optional(),
+            maxConcurrency: z.number().int().min(1).optional().default(2),
+        })
+        .optional(),
+});
+
+export const ManageExecutionArgsSchema = ExecuteTestSuiteArgsSchema.omit({
+    matrix: true,
+    dryRun: true,
+})
+    .partial({
+        projectPath: true,
+        testSuitePath: true,
+    })
+    .extend({
+        action: z.enum([
+            'start',
+            'status',
+            'result',
+            'cancel',
+            'list',
+            'rerun_failed',
+            'queue',
+            'triage',
+        ]),
+        executionId: z.string().optional(),
+    });
+
+export const QueryExecutionHistoryArgsSchema = z.object({
+    projectPath: z.string().min(1, 'Project path is required'),
+    testSuitePath: z.string().optional(),
+    from: z.string().optional(),
+    to: z.string().optional(),
+    status: z.enum(['PASSED', 'FAILED', 'CANCELLED']).optional(),
+    browser: z.string().optional(),
+    executionProfile: z.string().optional(),
+    testCaseName: z.string().optional(),
+    testCaseStatus: z.enum(['PASSED', 'FAILED', 'SKIPPED', 'ERROR']).optional(),
+    includeSimulated: z.boolean().optional().default(false),
+    limit: z.number().int().min(1).optional().default(20),
+});
+
+export const CompareExecutionsArgsSchema = z.object({
+    projectPath: z.string().min(1, 'Project path is required'),
+    action: z.enum(['compare', 'save_baseline', 'list_baselines']).optional().default('compare'),
+    executionId: z.string().optional(),
+    baseExecutionId: z.string().optional(),
+    baseline: z.string().optional(),
+    durationThresholdPercent: z.number().min(0).optional(),
+    minDurationIncreaseMs: z.number().min(0).optional(),
+});
+
+export const ExportReportArgsSchema = z.object({
+    executionIds: z.array(z.string().min(1)).min(1, 'At least one executionId is required'),
+    outputFolder: z.string().min(1, 'Output folder is required'),
+    projectPath: z.string().optional(),
+    formats: z
+        .array(z.enum(['allure', 'html', 'csv', 'markdown', 'testrail', 'xray', 'zephyr']))
+        .min(1)
+        .optional(),
+    mappingFile: z.string().optional(),
 });
 
 export const AnalyzeProjectArgsSchema = z.object({
     projectPath: z.string().min(1, 'Project path is required'),
+    analysisType: z
+        .enum(['overview', 'test_coverage', 'object_health', 'keyword_usage', 'flaky_tests'])
+        .optional()
+        .default('overview'),
     includeTestCases: z.boolean().optional().default(true),
     includeTestSuites: z.boolean().optional().default(true),
     includeObjectRepository: z.boolean().optional().default(true),
@@ -50,6 +132,59 @@ export const ManageObjectRepositoryArgsSchema = z.object({
     smartHealingEnabled: z.boolean().optional().default(false),
 });
 
+export const ManageTestSuiteArgsSchema = z.object({
+    projectPath: z.string().min(1, 'Project path is required'),
+    action: z.enum([
+        'create',
+        'show',
+        'update',
+        'add_test_cases',
+        'remove_test_cases',
+        'reorder',
+        'bind_data',
+    ]),
+    testSuitePath: z.string().min(1, 'Test suite path is required'),
+    testCaseIds: z.array(z.string().min(1)).optional(),
+    position: z.number().int().min(0).optional(),
+    description: z.string().optional(),
+    pageLoadTimeout: z.number().int().min(0).optional(),
+    numberOfRerun: z.number().int().min(0).max(100).optional(),
+    rerunFailedTestCasesOnly: z.boolean().optional(),
+    rerunImmediately: z.boolean().optional(),
+    testCaseId: z.string().optional(),
+    testDataId: z.string().optional(),
+    variableBindings: z
+        .array(
+            z.object({
+                variable: z.string().min(1),
+                column: z.union([z.string().min(1), z.number().int().min(1)]),
+            })
+        )
+        .optional(),
+    iterationType: z.enum(['ALL', 'RANGE', 'SPECIFIC']).optional(),
+    iterationValue: z.string().optional(),
+});
+
+export const ManageTestSuiteCollectionArgsSchema = z.object({
+    projectPath: z.string().min(1, 'Project path is required'),
+    action: z.enum(['create', 'show']),
+    collectionPath: z.string().min(1, 'Collection path is required'),
+    description: z.string().optional(),
+    executionMode: z.enum(['SEQUENTIAL', 'PARALLEL']).optional(),
+    maxConcurrentInstances: z.number().int().min(1).optional(),
+    members: z
+        .array(
+            z.object({
+                testSuiteId: z.string().min(1, 'Test suite is required'),
+                browser: z.string().optional(),
+                executionProfile: z.string().optional(),
+                groupName: z.string().optional(),
+                runEnabled: z.boolean().optional(),
+            })
+        )
+        .optional(),
+});
+
 export const ManageKeywordsArgsSchema = z.object({
     projectPath: z.string().min(1, 'Project path is required'),
     action: z.enum(['list_builtin', 'list_custom', 'create_custom', 'update_custom']),
@@ -91,9 +226,15 @@ export const ObjectIdentificationPromptArgsSchema = z.object({
 
 // TypeScript interfaces derived from Zod schemas
 export type ExecuteTestSuiteArgs = z.infer<typeof ExecuteTestSuiteArgsSchema>;
+export type ManageExecutionArgs = z.infer<typeof ManageExecutionArgsSchema>;
+export type QueryExecutionHistoryArgs = z.infer<typeof QueryExecutionHistoryArgsSchema>;
+export type CompareExecutionsArgs = z.infer<typeof CompareExecutionsArgsSchema>;
+export type ExportReportArgs = z.infer<typeof ExportReportArgsSchema>;
 export type AnalyzeProjectArgs = z.infer<typeof AnalyzeProjectArgsSchema>;
 export type CreateTestCaseArgs = z.infer<typeof CreateTestCaseArgsSchema>;
 export type ManageObjectRepositoryArgs = z.infer<typeof ManageObjectRepositoryArgsSchema>;
+export type ManageTestSuiteArgs = z.infer<typeof ManageTestSuiteArgsSchema>;
+export type ManageTestSuiteCollectionArgs = z.infer<typeof ManageTestSuiteCollectionArgsSchema>;
 export type ManageKeywordsArgs = z.infer<typeof ManageKeywordsArgsSchema>;
 export type TestDesignPromptArgs = z.infer<typeof TestDesignPromptArgsSchema>;
 export type ObjectIdentificationPromptArgs = z.infer<typeof ObjectIdentificationPromptArgsSchema>;
@@ -103,6 +244,22 @@ export function validateExecuteTestSuiteArgs(args: unknown): ExecuteTestSuiteArg
     return ExecuteTestSuiteArgsSchema.parse(args);
 }
 
+export function validateManageExecutionArgs(args: unknown): ManageExecutionArgs {
+    return ManageExecutionArgsSchema.parse(args);
+}
+
+export function validateQueryExecutionHistoryArgs(args: unknown): QueryExecutionHistoryArgs {
+    return QueryExecutionHistoryArgsSchema.parse(args);
+}
+
+export function validateCompareExecutionsArgs(args: unknown): CompareExecutionsArgs {
+    return CompareExecutionsArgsSchema.parse(args);
+}
+
+export function validateExportReportArgs(args: unknown): ExportReportArgs {
+    return ExportReportArgsSchema.parse(args);
+}
+
 export function validateAnalyzeProjectArgs(args: unknown): AnalyzeProjectArgs {
     return AnalyzeProjectArgsSchema.parse(args);
 }
@@ -115,6 +272,14 @@ export function validateManageObjectRepositoryArgs(args: unknown): ManageObjectR
     return ManageObjectRepositoryArgsSchema.parse(args);
 }
 
+export function validateManageTestSuiteArgs(args: unknown): ManageTestSuiteArgs {
+    return ManageTestSuiteArgsSchema.parse(args);
+}
+
+export function validateManageTestSuiteCollectionArgs(args: unknown): ManageTestSuiteCollectionArgs {
+    return ManageTestSuiteCollectionArgsSchema.parse(args);
+}
+
 export function validateManageKeywordsArgs(args: unknown): ManageKeywordsArgs {
     return ManageKeywordsArgsSchema.parse(args);
 }
@@ -61,10 +61,12 @@ const logger = winston.createLogger({
 });
 
 // Add console transport for development
+// Everything goes to stderr: stdout carries the MCP protocol stream on stdio transports
 if (process.env.NODE_ENV !== 'production') {
     logger.add(
         new winston.transports.Console({
             format: consoleFormat,
+            stderrLevels: Object.keys(logLevels),
         })
     );
 }
@@ -0,0 +1,63 @@
+import { ChildProcess, spawn } from 'child_process';
+
+/**
+ * Stop a process together with everything it started (browsers, drivers...)
+ *
+ * Sends SIGTERM to the whole process group first so the process can shut down
+ * cleanly, then SIGKILL if it is still running after the grace period.
+ * On Windows `taskkill /T` does the same for the process tree.
+ *
+ * The process must have been spawned with `detached: true` on POSIX so it leads
+ * its own process group. Resolves once the process has exited.
+ */
+export async function terminateProcessTree(child: ChildProcess, gracePeriodMs: number): Promise<void> {
+    if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+        return;
+    }
+
+    const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+
+    signalTree(child, 'SIGTERM');
+
+    let escalation: NodeJS.Timeout | undefined;
+    const escalated = new Promise<void>(resolve => {
+        escalation = setTimeout(() => {
+            signalTree(child, 'SIGKILL');
+            resolve();
+        }, gracePeriodMs);
+    });
+
+    await Promise.race([exited, escalated]);
+    clearTimeout(escalation);
+    await exited;
+
+    // Children that ignored the group signal while the leader shut down
+    signalTree(child, 'SIGKILL');
+}
+
+function signalTree(child: ChildProcess, signal: NodeJS.Signals): void {
+    if (child.pid === undefined) {
+        return;
+    }
+
+    if (process.platform === 'win32') {
+        const args = ['/pid', String(child.pid), '/T'];
+        if (signal === 'SIGKILL') {
+            args.push('/F');
+        }
+        spawn('taskkill', args, { stdio: 'ignore' }).on('error', () => undefined);
+        return;
+    }
+
+    try {
+        // A negative PID addresses the whole process group
+        process.kill(-child.pid, signal);
+    } catch {
+        // The group is already gone; fall back to the process itself
+        try {
+            child.kill(signal);
+        } catch {
+            // Already exited
+        }
+    }
+}
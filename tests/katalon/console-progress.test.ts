@@ -0,0 +1,68 @@
+import {
+    ExecutionProgress,
+    KatalonConsoleProgressParser,
+    TestCaseEvent,
+} from '../../src/katalon/console-progress';
+
+describe('ConsoleProgress', () => {
+    const prefix = '2025-01-01 10:00:00.000 INFO  c.k.katalon.core.main.TestCaseExecutor   - ';
+
+    let updates: { progress: ExecutionProgress; event: TestCaseEvent }[];
+    let parser: KatalonConsoleProgressParser;
+
+    beforeEach(() => {
+        updates = [];
+        parser = new KatalonConsoleProgressParser(
+            (progress, event) => updates.push({ progress, event }),
+            3
+        );
+    });
+
+    describe('Test Case Events', () => {
+        it('should report start and finish of each test case', () => {
+            parser.write(`${prefix}START Test Cases/Login\n`);
+            parser.write(`${prefix}END Test Cases/Login\n`);
+
+            expect(updates.map(u => u.event)).toEqual([
+                { type: 'started', testCaseId: 'Test Cases/Login' },
+                { type: 'finished', testCaseId: 'Test Cases/Login', status: 'PASSED' },
+            ]);
+            expect(updates[1].progress.message).toBe('1/3 test cases done, 0 failed');
+        });
+
+        it('should count failed and errored test cases', () => {
+            parser.write(`${prefix}START Test Cases/Login\n`);
+            parser.write(`2025-01-01 ERROR c.k.katalon.core.main.TestCaseExecutor - ❌ Test Cases/Login FAILED.\n`);
+            parser.write(`${prefix}END Test Cases/Login\n`);
+            parser.write(`${prefix}START Test Cases/Checkout\n`);
+            parser.write(`2025-01-01 ERROR c.k.katalon.core.main.TestCaseExecutor - Test Cases/Checkout ERROR\n`);
+            parser.write(`${prefix}END Test Cases/Checkout\n`);
+
+            const finished = updates.filter(u => u.event.type === 'finished');
+            expect(finished.map(u => u.event.status)).toEqual(['FAILED', 'ERROR']);
+            expect(parser.getProgress()).toMatchObject({ completed: 2, failed: 2, total: 3 });
+        });
+    });
+
+    describe('Chunked Output', () => {
+        it('should buffer lines split across chunks', () => {
+            parser.write(`${prefix}START Test Ca`);
+            expect(updates).toHaveLength(0);
+
+            parser.write(`ses/Login\r\n${prefix}END Test Cases/Login`);
+            expect(updates).toHaveLength(1);
+            expect(parser.getProgress().currentTestCase).toBe('Test Cases/Login');
+
+            parser.flush();
+            expect(updates).toHaveLength(2);
+            expect(parser.getProgress().completed).toBe(1);
+        });
+
+        it('should omit the total when it is unknown', () => {
+            const openEnded = new KatalonConsoleProgressParser(() => undefined);
+            openEnded.write(`${prefix}START Test Cases/Login\n${prefix}END Test Cases/Login\n`);
+
+            expect(openEnded.getProgress().message).toBe('1 test cases done, 0 failed');
+        });
+    });
+});
@@ -0,0 +1,214 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import {
+    ContainerRunner,
+    ContainerSpec,
+    DockerCliContainerRunner,
+    KatalonDockerRunner,
+} from '../../src/katalon/docker-runner';
+import { KatalonTestExecutor } from '../../src/katalon/test-executor';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Stands in for Docker: records the container it was asked to start and
+ * writes a JUnit report into the mounted report folder, like the engine would
+ */
+class FakeContainerRunner implements ContainerRunner {
+    specs: ContainerSpec[] = [];
+    stopped: string[] = [];
+    private finish?: (exitCode: number) => void;
+
+    constructor(private options: { hold?: boolean } = {}) {}
+
+    async run(
+        spec: ContainerSpec,
+        onOutput: (chunk: string, stream: 'stdout' | 'stderr') => void
+    ): Promise<number> {
+        this.specs.push(spec);
+        const reportMount = spec.mounts.find(mount => mount.containerPath === '/tmp/report');
+        await fs.outputFile(
+            path.join(reportMount!.hostPath, 'Smoke', '20250101_100000', 'JUnit_Report.xml'),
+            `<testsuites><testsuite name="Smoke">
+   <testcase name="Test Cases/Cart" time="1"/>
+   <testcase name="Test Cases/Pay" time="2"><failure message="Card declined"/></testcase>
+</testsuite></testsuites>`
+        );
+        onOutput('Katalon Runtime Engine started\n', 'stdout');
+
+        if (this.options.hold) {
+            return new Promise(resolve => (this.finish = resolve));
+        }
+        return 1;
+    }
+
+    async stop(name: string): Promise<void> {
+        this.stopped.push(name);
+        this.finish?.(137);
+    }
+
+    describe(spec: ContainerSpec): string[] {
+        return ['docker', 'run', spec.image, ...spec.command];
+    }
+}
+
+describe('KatalonDockerRunner', () => {
+    let projectPath: string;
+    const originalApiKey = process.env.KATALON_API_KEY;
+
+    beforeEach(async () => {
+        projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-docker-'));
+        await fs.writeFile(path.join(projectPath, '.project'), '');
+        await fs.ensureDir(path.join(projectPath, 'settings'));
+        await fs.outputFile(path.join(projectPath, 'Test Suites', 'Smoke.ts'), '');
+        process.env.KATALON_API_KEY = 'secret-key';
+    });
+
+    afterEach(async () => {
+        await fs.remove(projectPath);
+        if (originalApiKey === undefined) {
+            delete process.env.KATALON_API_KEY;
+        } else {
+            process.env.KATALON_API_KEY = originalApiKey;
+        }
+    });
+
+    describe('Container Spec', () => {
+        it('should mount the project and report folder and point the arguments at them', async () => {
+            const containers = new FakeContainerRunner();
+            const runner = new KatalonDockerRunner(containers, 'katalonstudio/katalon:9');
+            const reportFolder = path.join(projectPath, 'Reports', 'execution_1');
+
+            const { exitCode } = await runner.run({
+                executionId: 'execution_1',
+                command: 'katalonc',
+                args: ['-projectPath', projectPath, '-reportFolder', reportFolder, '-browserType', 'Chrome'],
+                projectPath,
+                testSuitePath: 'Test Suites/Smoke.ts',
+                reportFolder,
+                onOutput: () => undefined,
+            });
+
+            const [spec] = containers.specs;
+            expect(exitCode).toBe(1);
+            expect(spec.name).toBe('katalon-mcp-execution_1');
+            expect(spec.image).toBe('katalonstudio/katalon:9');
+            expect(spec.mounts).toEqual([
+                { hostPath: projectPath, containerPath: '/tmp/project' },
+                { hostPath: reportFolder, containerPath: '/tmp/report' },
+            ]);
+            expect(spec.command).toEqual([
+                'sh',
+                '-c',
+                'exec katalonc.sh "$@" -apiKey="$KATALON_API_KEY"',
+                'katalonc.sh',
+                '-projectPath',
+                '/tmp/project',
+                '-reportFolder',
+                '/tmp/report',
+                '-browserType',
+                'Chrome',
+            ]);
+            expect(spec.env).toEqual(['KATALON_API_KEY']);
+        });
+
+        it('should pass the API key by name, never on the command line', () => {
+            const runner = new KatalonDockerRunner(new DockerCliContainerRunner());
+
+            const commandLine = runner.describe({
+                executionId: 'execution_1',
+                command: 'katalonc',
+                args: ['-projectPath', projectPath],
+                projectPath,
+                testSuitePath: 'Test Suites/Smoke.ts',
+                reportFolder: path.join(projectPath, 'Reports'),
+            });
+
+            expect(commandLine.join(' ')).toContain('-e KATALON_API_KEY katalonstudio/katalon sh -c');
+            expect(commandLine.join(' ')).not.toContain('secret-key');
+        });
+
+        const itPosix = process.platform === 'win32' ? it.skip : it;
+
+        itPosix('should hand the key to katalonc as -apiKey inside the container', async () => {
+            const containers = new FakeContainerRunner();
+            const runner = new KatalonDockerRunner(containers);
+            await runner.run({
+                executionId: 'execution_1',
+                command: 'katalonc',
+                args: ['-projectPath', projectPath, '-browserType', 'Chrome'],
+                projectPath,
+                testSuitePath: 'Test Suites/Smoke.ts',
+                reportFolder: path.join(projectPath, 'Reports'),
+                onOutput: () => undefined,
+            });
+
+            // Run the container command with a stand-in katalonc.sh that prints its arguments
+            const bin = path.join(projectPath, 'bin');
+            await fs.outputFile(path.join(bin, 'katalonc.sh'), `#!/bin/sh\nprintf '%s\\n' "$@"\n`);
+            await fs.chmod(path.join(bin, 'katalonc.sh'), 0o755);
+            const [command, ...args] = containers.specs[0].command;
+            const { stdout } = await execFileAsync(command, args, {
+                env: { ...process.env, PATH: `${bin}${path.delimiter}${process.env.PATH}` },
+            });
+
+            expect(stdout.trim().split('\n')).toEqual([
+                '-projectPath',
+                '/tmp/project',
+                '-browserType',
+                'Chrome',
+                '-apiKey=secret-key',
+            ]);
+        });
+    });
+
+    describe('Execution', () => {
+        it('should run through the executor and parse reports from the mounted folder', async () => {
+            const containers = new FakeContainerRunner();
+            const executor = new KatalonTestExecutor(undefined, undefined, {
+                runners: { docker: new KatalonDockerRunner(containers) },
+            });
+
+            const response = await executor.executeTestSuite({
+                projectPath,
+                testSuitePath: 'Test Suites/Smoke.ts',
+                runner: 'docker',
+            });
+            const text = response.content[0].text;
+
+            expect(containers.specs).toHaveLength(1);
+            expect(text).toContain('Test Cases/Pay');
+            expect(text).toContain('Card declined');
+        });
+
+        it('should stop the container when the execution is cancelled', async () => {
+            const containers = new FakeContainerRunner({ hold: true });
+            const executor = new KatalonTestExecutor(undefined, undefined, {
+                runners: { docker: new KatalonDockerRunner(containers) },
+                defaultRunner: 'docker',
+            });
+
+            const start = await executor.manageExecution({
+                action: 'start',
+                projectPath,
+                testSuitePath: 'Test Suites/Smoke.ts',
+            });
+            const executionId = start.content[0].text.match(/\*\*Execution ID\*\*: (\S+)/)![1];
+
+            while (!executor.getRunningExecutions().includes(executionId)) {
+                await new Promise(resolve => setTimeout(resolve, 10));
+            }
+            await executor.manageExecution({ action: 'cancel', executionId });
+
+            while (!executor.getExecutionJob(executionId)!.endTime) {
+                await new Promise(resolve => setTimeout(resolve, 10));
+            }
+            expect(containers.stopped).toEqual([`katalon-mcp-${executionId}`]);
+            expect(executor.getExecutionJob(executionId)!.status).toBe('cancelled');
+            expect(executor.getRunningExecutions()).not.toContain(executionId);
+        });
+    });
+});
@@ -0,0 +1,157 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { KatalonExecutionComparison } from '../../src/katalon/execution-comparison';
+import { ExecutionRecord, KatalonExecutionHistory } from '../../src/katalon/execution-history';
+import { KatalonTestExecutor, TestResult } from '../../src/katalon/test-executor';
+
+describe('ExecutionComparison', () => {
+    let projectPath: string;
+    let history: KatalonExecutionHistory;
+    let comparison: KatalonExecutionComparison;
+
+    const createRecord = (executionId: string, testResults: TestResult[]): ExecutionRecord => ({
+        executionId,
+        status: testResults.some(test => test.status === 'FAILED') ? 'FAILED' : 'PASSED',
+        testSuitePath: 'Test Suites/Regression.ts',
+        options: { projectPath, testSuitePath: 'Test Suites/Regression.ts' },
+        success: true,
+        exitCode: 0,
+        startTime: '2025-01-01T10:00:00.000Z',
+        endTime: '2025-01-01T10:05:00.000Z',
+        duration: 300000,
+        testResults,
+    });
+
+    beforeEach(async () => {
+        projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-comparison-'));
+        history = new KatalonExecutionHistory();
+        comparison = new KatalonExecutionComparison(new KatalonTestExecutor(history));
+
+        await history.record(
+            createRecord('before', [
+                { testCaseName: 'Test Cases/Login', status: 'PASSED', duration: 2000 },
+                { testCaseName: 'Test Cases/Search', status: 'FAILED', duration: 1000, errorMessage: 'Timeout' },
+                { testCaseName: 'Test Cases/Cart', status: 'FAILED', duration: 1000, errorMessage: 'Empty cart' },
+                { testCaseName: 'Test Cases/Profile', status: 'PASSED', duration: 3000 },
+                { testCaseName: 'Test Cases/Legacy', status: 'PASSED', duration: 500 },
+            ])
+        );
+        await history.record(
+            createRecord('after', [
+                { testCaseName: 'Test Cases/Login', status: 'FAILED', duration: 2000, errorMessage: 'No button' },
+                { testCaseName: 'Test Cases/Search', status: 'PASSED', duration: 1000 },
+                { testCaseName: 'Test Cases/Cart', status: 'ERROR', duration: 1000, errorMessage: 'Server down' },
+                { testCaseName: 'Test Cases/Profile', status: 'PASSED', duration: 6500 },
+                { testCaseName: 'Test Cases/Orders', status: 'PASSED', duration: 800 },
+            ])
+        );
+    });
+
+    afterEach(async () => {
+        await fs.remove(projectPath);
+    });
+
+    describe('Compare', () => {
+        it('should sort test cases into what changed between two runs', async () => {
+            const base = await history.getRecord(projectPath, 'before');
+            const target = await history.getRecord(projectPath, 'after');
+
+            const result = comparison.compare(base!, target!);
+            const names = (changes: { testCaseName: string }[]) => changes.map(c => c.testCaseName);
+
+            expect(names(result.newlyFailing)).toEqual(['Test Cases/Login']);
+            expect(names(result.newlyPassing)).toEqual(['Test Cases/Search']);
+            expect(names(result.stillFailing)).toEqual(['Test Cases/Cart']);
+            expect(result.changedErrors).toEqual([
+                expect.objectContaining({ baseError: 'Empty cart', targetError: 'Server down' }),
+            ]);
+            expect(names(result.added)).toEqual(['Test Cases/Orders']);
+            expect(names(result.removed)).toEqual(['Test Cases/Legacy']);
+            expect(result.durationRegressions).toEqual([
+                {
+                    testCaseName: 'Test Cases/Profile',
+                    baseDuration: 3000,
+                    targetDuration: 6500,
+                    increasePercent: 117,
+                },
+            ]);
+        });
+
+        it('should only report slowdowns above both thresholds', async () => {
+            const base = await history.getRecord(projectPath, 'before');
+            const target = await history.getRecord(projectPath, 'after');
+
+            expect(comparison.compare(base!, target!, { durationThresholdPercent: 150 }).durationRegressions).toEqual(
+                []
+            );
+            expect(comparison.compare(base!, target!, { minDurationIncreaseMs: 5000 }).durationRegressions).toEqual(
+                []
+            );
+        });
+
+        it('should compare recorded executions by ID', async () => {
+            const response = await comparison.handle({
+                projectPath,
+                executionId: 'after',
+                baseExecutionId: 'before',
+            });
+            const text = response.content[0].text;
+
+            expect(text).toContain('# Katalon Execution Comparison');
+            expect(text).toContain('- **Verdict**: ❌ 1 newly failing test case(s)');
+            expect(text).toContain('- **Test Cases/Login** (was PASSED): No button');
+            expect(text).toContain('  - Before: Empty cart\n  - Now: Server down');
+            expect(text).toContain('- **Test Cases/Profile**: 3.00s → 6.50s (+117%)');
+        });
+
+        it('should require something to compare against', async () => {
+            await expect(comparison.handle({ projectPath, executionId: 'after' })).rejects.toThrow(
+                'Either baseExecutionId or baseline is required'
+            );
+        });
+    });
+
+    describe('Baselines', () => {
+        it('should save a run as a baseline and compare later runs against it', async () => {
+            await comparison.handle({
+                projectPath,
+                action: 'save_baseline',
+                executionId: 'before',
+                baseline: 'release-1.0',
+            });
+
+            expect(
+                await fs.pathExists(path.join(projectPath, '.katalon-mcp', 'baselines', 'release-1.0.json'))
+            ).toBe(true);
+
+            const listed = await comparison.handle({ projectPath, action: 'list_baselines' });
+            expect(listed.content[0].text).toContain('- **release-1.0**: before');
+
+            const response = await comparison.handle({
+                projectPath,
+                executionId: 'after',
+                baseline: 'release-1.0',
+            });
+            expect(response.content[0].text).toContain('- **Base**: baseline "release-1.0"');
+            expect(response.content[0].text).toContain('- **Newly Failing**: 1');
+        });
+
+        it('should reject baseline names that are not plain file names', async () => {
+            await expect(
+                comparison.handle({
+                    projectPath,
+                    action: 'save_baseline',
+                    executionId: 'before',
+                    baseline: '../escape',
+                })
+            ).rejects.toThrow('A baseline name');
+        });
+
+        it('should report a missing baseline', async () => {
+            await expect(
+                comparison.handle({ projectPath, executionId: 'after', baseline: 'nope' })
+            ).rejects.toThrow('Baseline not found: nope');
+        });
+    });
+});
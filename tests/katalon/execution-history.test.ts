@@ -0,0 +1,160 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ExecutionRecord, KatalonExecutionHistory } from '../../src/katalon/execution-history';
+
+describe('ExecutionHistory', () => {
+    let projectPath: string;
+    let history: KatalonExecutionHistory;
+
+    const createRecord = (
+        executionId: string,
+        overrides: Partial<ExecutionRecord> = {}
+    ): ExecutionRecord => ({
+        executionId,
+        status: 'PASSED',
+        testSuitePath: 'Test Suites/Regression.ts',
+        browser: 'Chrome',
+        executionProfile: 'default',
+        options: {
+            projectPath,
+            testSuitePath: 'Test Suites/Regression.ts',
+            browser: 'Chrome',
+            executionProfile: 'default',
+        },
+        success: true,
+        exitCode: 0,
+        startTime: '2025-01-01T10:00:00.000Z',
+        endTime: '2025-01-01T10:05:00.000Z',
+        duration: 300000,
+        testResults: [{ testCaseName: 'Test Cases/LoginTest', status: 'PASSED', duration: 1000 }],
+        ...overrides,
+    });
+
+    beforeEach(async () => {
+        projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-history-'));
+        history = new KatalonExecutionHistory();
+
+        await history.record(createRecord('execution_1'));
+        await history.record(
+            createRecord('execution_2', {
+                browser: 'Firefox',
+                startTime: '2025-01-02T10:00:00.000Z',
+            })
+        );
+        await history.record(
+            createRecord('execution_3', {
+                status: 'FAILED',
+                browser: 'Firefox',
+                executionProfile: 'staging',
+                startTime: '2025-01-03T10:00:00.000Z',
+                testResults: [
+                    {
+                        testCaseName: 'Test Cases/LoginTest',
+                        status: 'FAILED',
+                        duration: 1000,
+                        errorMessage: 'Element not found',
+                    },
+                ],
+            })
+        );
+    });
+
+    afterEach(async () => {
+        await fs.remove(projectPath);
+    });
+
+    describe('Storage', () => {
+        it('should store each execution inside the project', async () => {
+            const record = await history.getRecord(projectPath, 'execution_2');
+
+            expect(record?.browser).toBe('Firefox');
+            expect(
+                await fs.pathExists(
+                    path.join(projectPath, '.katalon-mcp', 'history', 'execution_2.json')
+                )
+            ).toBe(true);
+        });
+
+        it('should return nothing for unknown executions', async () => {
+            expect(await history.getRecord(projectPath, 'execution_unknown')).toBeUndefined();
+        });
+
+        it('should reject execution IDs that point outside the history folder', async () => {
+            await fs.outputFile(path.join(projectPath, 'secret.json'), '{}');
+
+            await expect(history.getRecord(projectPath, '../../secret')).rejects.toThrow(
+                'Invalid execution ID: ../../secret'
+            );
+        });
+    });
+
+    describe('Queries', () => {
+        it('should list executions newest first', async () => {
+            const records = await history.query(projectPath);
+
+            expect(records.map(r => r.executionId)).toEqual([
+                'execution_3',
+                'execution_2',
+                'execution_1',
+            ]);
+        });
+
+        it('should find when a test case last passed on a browser', async () => {
+            const [lastPass] = await history.query(projectPath, {
+                testCaseName: 'LoginTest',
+                testCaseStatus: 'PASSED',
+                browser: 'firefox',
+                limit: 1,
+            });
+
+            expect(lastPass.executionId).toBe('execution_2');
+        });
+
+        it('should filter by date range, status and profile', async () => {
+            const inRange = await history.query(projectPath, {
+                from: new Date('2025-01-02T00:00:00Z'),
+                to: new Date('2025-01-02T23:59:59Z'),
+            });
+            const failed = await history.query(projectPath, { status: 'FAILED' });
+            const staging = await history.query(projectPath, { executionProfile: 'staging' });
+
+            expect(inRange.map(r => r.executionId)).toEqual(['execution_2']);
+            expect(failed.map(r => r.executionId)).toEqual(['execution_3']);
+            expect(staging.map(r => r.executionId)).toEqual(['execution_3']);
+        });
+
+        it('should format matching executions for the agent', async () => {
+            const response = await history.queryHistory({
+                projectPath,
+                testCaseName: 'LoginTest',
+                status: 'FAILED',
+            });
+
+            expect(response.content[0].text).toContain('**Matching Executions**: 1');
+            expect(response.content[0].text).toContain('Test Cases/LoginTest: FAILED');
+        });
+
+        it('should reject invalid dates', async () => {
+            await expect(history.queryHistory({ projectPath, from: 'yesterday-ish' })).rejects.toThrow(
+                'Invalid from date'
+            );
+        });
+    });
+
+    describe('Project Fingerprint', () => {
+        it('should change only when test assets change', async () => {
+            await fs.outputFile(path.join(projectPath, 'Test Cases', 'Login.tc'), '<TestCaseEntity/>');
+            const original = await history.computeProjectFingerprint(projectPath);
+
+            await fs.outputFile(
+                path.join(projectPath, 'Test Suites', 'MCP Reruns', 'Rerun_execution_1.ts'),
+                '<TestSuiteEntity/>'
+            );
+            expect(await history.computeProjectFingerprint(projectPath)).toBe(original);
+
+            await fs.outputFile(path.join(projectPath, 'Test Cases', 'Logout.tc'), '<TestCaseEntity/>');
+            expect(await history.computeProjectFingerprint(projectPath)).not.toBe(original);
+        });
+    });
+});
@@ -0,0 +1,123 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { KatalonFailureTriage } from '../../src/katalon/failure-triage';
+import { TestResult } from '../../src/katalon/test-executor';
+
+describe('FailureTriage', () => {
+    let triage: KatalonFailureTriage;
+
+    const failed = (testCaseName: string, errorMessage: string, stackTrace?: string): TestResult => ({
+        testCaseName,
+        status: 'FAILED',
+        duration: 1000,
+        errorMessage,
+        stackTrace,
+    });
+
+    beforeEach(() => {
+        triage = new KatalonFailureTriage();
+    });
+
+    describe('Clustering', () => {
+        it('should group failures with the same signature, largest cluster first', () => {
+            const clusters = triage.cluster([
+                { testCaseName: 'Test Cases/Home', status: 'PASSED', duration: 500 },
+                failed('Test Cases/Search', 'Timed out after 30 seconds waiting for results'),
+                failed(
+                    'Test Cases/Login',
+                    "Unable to click on object 'Object Repository/Page_Login/btn_Login'",
+                    'com.kms.katalon.core.exception.StepFailedException: Unable to click\n\tat Script1.run(Script1.groovy:22)'
+                ),
+                failed(
+                    'Test Cases/Logout',
+                    "Unable to click on object 'Object Repository/Page_Login/btn_Login'",
+                    'com.kms.katalon.core.exception.StepFailedException: Unable to click\n\tat Script7.run(Script7.groovy:5)'
+                ),
+            ]);
+
+            expect(clusters.map(c => [c.category, c.testCases.map(t => t.testCaseName)])).toEqual([
+                ['locator', ['Test Cases/Login', 'Test Cases/Logout']],
+                ['timeout', ['Test Cases/Search']],
+            ]);
+            expect(clusters[0].signature).toMatchObject({
+                exceptionType: 'StepFailedException',
+                object: 'Object Repository/Page_Login/btn_Login',
+                frame: undefined,
+            });
+        });
+
+        it('should tell failures apart by the first frame of project code', () => {
+            const trace = (frame: string) =>
+                `java.lang.NullPointerException\n\tat com.kms.katalon.core.main.TestCaseExecutor.run(TestCaseExecutor.groovy:1)\n\tat ${frame}\n\tat Script1.run(Script1.groovy:3)`;
+
+            const clusters = triage.cluster([
+                failed('Test Cases/A', 'Cannot invoke method', trace('helpers.Cart.add(Cart.groovy:12)')),
+                failed('Test Cases/B', 'Cannot invoke method', trace('helpers.Cart.add(Cart.groovy:12)')),
+                failed('Test Cases/C', 'Cannot invoke method', trace('helpers.Orders.list(Orders.groovy:40)')),
+            ]);
+
+            expect(clusters.map(c => [c.signature.frame, c.category, c.testCases.length])).toEqual([
+                ['helpers.Cart.add(Cart.groovy:12)', 'data', 2],
+                ['helpers.Orders.list(Orders.groovy:40)', 'data', 1],
+            ]);
+        });
+
+        it('should guess environment and data problems from HTTP status codes', () => {
+            const clusters = triage.cluster([
+                failed('Test Cases/Api/Users', 'Expected status code 200 but got status code 503'),
+                failed('Test Cases/Api/Orders', 'Request failed with status 404 for order lookup'),
+            ]);
+
+            expect(clusters.map(c => [c.signature.httpStatus, c.category])).toEqual([
+                [503, 'environment'],
+                [404, 'data'],
+            ]);
+        });
+
+        it('should recognize assertion failures and group messages that differ only in values', () => {
+            const clusters = triage.cluster([
+                failed('Test Cases/Price', "Actual text '12.99' and expected text '10.99' are not matched"),
+                failed('Test Cases/Total', "Actual text '40' and expected text '42' are not matched"),
+            ]);
+
+            expect(clusters).toHaveLength(1);
+            expect(clusters[0].category).toBe('assertion');
+            expect(clusters[0].testCases).toHaveLength(2);
+        });
+    });
+
+    describe('Object Repository Links', () => {
+        let projectPath: string;
+
+        beforeEach(async () => {
+            projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-triage-'));
+            await fs.outputFile(path.join(projectPath, 'Object Repository', 'Page_Login', 'btn_Login.rs'), '');
+        });
+
+        afterEach(async () => {
+            await fs.remove(projectPath);
+        });
+
+        it('should link locator clusters to the object file and flag missing objects', async () => {
+            const clusters = await triage.triage(
+                [
+                    failed('Test Cases/Login', "Unable to click on object 'Object Repository/Page_Login/btn_Login'"),
+                    failed(
+                        'Test Cases/Search',
+                        "Object 'Object Repository/Page_Home/txt_Search' is not present after waiting"
+                    ),
+                ],
+                projectPath
+            );
+
+            expect(clusters.map(c => [c.objectPath, c.objectExists])).toEqual([
+                [path.join(projectPath, 'Object Repository', 'Page_Login', 'btn_Login.rs'), true],
+                [path.join(projectPath, 'Object Repository', 'Page_Home', 'txt_Search.rs'), false],
+            ]);
+            expect(triage.formatClusters(clusters, '###')).toContain(
+                `- **Object File**: ${path.join(projectPath, 'Object Repository', 'Page_Home', 'txt_Search.rs')} (⚠️ not in the Object Repository)`
+            );
+        });
+    });
+});
@@ -0,0 +1,150 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ExecutionRecord, KatalonExecutionHistory } from '../../src/katalon/execution-history';
+import { KatalonFlakyTestAnalyzer } from '../../src/katalon/flaky-analyzer';
+import { TestResult } from '../../src/katalon/test-executor';
+
+describe('FlakyAnalyzer', () => {
+    const projectPath = '/mock/katalon/project';
+    let records: ExecutionRecord[];
+    let analyzer: KatalonFlakyTestAnalyzer;
+
+    const addRun = (
+        day: number,
+        results: Record<string, TestResult['status']>,
+        overrides: Partial<ExecutionRecord> = {}
+    ): void => {
+        records.push({
+            executionId: `execution_${day}`,
+            status: 'PASSED',
+            testSuitePath: 'Test Suites/Regression.ts',
+            options: { projectPath, testSuitePath: 'Test Suites/Regression.ts' },
+            success: true,
+            exitCode: 0,
+            startTime: new Date(Date.UTC(2025, 0, day)).toISOString(),
+            endTime: new Date(Date.UTC(2025, 0, day)).toISOString(),
+            duration: 1000,
+            testResults: Object.entries(results).map(([testCaseName, status]) => ({
+                testCaseName,
+                status,
+                duration: 100,
+                errorMessage: status === 'FAILED' ? `${testCaseName} timed out` : undefined,
+            })),
+            projectFingerprint: 'v1',
+            ...overrides,
+        });
+    };
+
+    beforeEach(() => {
+        records = [];
+        const history = new KatalonExecutionHistory();
+        // Newest first, like the real history store
+        jest.spyOn(history, 'query').mockImplementation(async () =>
+            [...records].sort((a, b) => b.startTime.localeCompare(a.startTime))
+        );
+        analyzer = new KatalonFlakyTestAnalyzer(history);
+    });
+
+    describe('Flip Detection', () => {
+        it('should score test cases that flip without project changes', async () => {
+            addRun(1, { 'Test Cases/Login': 'PASSED', 'Test Cases/Search': 'PASSED' });
+            addRun(2, { 'Test Cases/Login': 'FAILED', 'Test Cases/Search': 'PASSED' });
+            addRun(3, { 'Test Cases/Login': 'PASSED', 'Test Cases/Search': 'PASSED' });
+
+            const reports = await analyzer.analyze(projectPath);
+
+            expect(reports).toHaveLength(1);
+            expect(reports[0]).toMatchObject({
+                testCaseName: 'Test Cases/Login',
+                runs: 3,
+                passed: 2,
+                failed: 1,
+                flips: 2,
+                flakinessScore: 1,
+                lastStatus: 'PASSED',
+                errorMessages: [{ message: 'Test Cases/Login timed out', count: 1 }],
+            });
+        });
+
+        it('should not count flips across project changes', async () => {
+            addRun(1, { 'Test Cases/Login': 'FAILED' });
+            addRun(2, { 'Test Cases/Login': 'PASSED' }, { projectFingerprint: 'v2' });
+            addRun(3, { 'Test Cases/Login': 'PASSED' }, { projectFingerprint: 'v2' });
+
+            expect(await analyzer.analyze(projectPath)).toHaveLength(0);
+        });
+
+        it('should count reruns towards their original suite', async () => {
+            addRun(1, { 'Test Cases/Login': 'FAILED' });
+            addRun(
+                2,
+                { 'Test Cases/Login': 'PASSED' },
+                {
+                    testSuitePath: 'Test Suites/MCP Reruns/Rerun_execution_1.ts',
+                    rerunOf: 'execution_1',
+                }
+            );
+
+            const [report] = await analyzer.analyze(projectPath);
+
+            expect(report.testSuitePath).toBe('Test Suites/Regression.ts');
+            expect(report.flips).toBe(1);
+        });
+
+        it('should keep a timeline per browser and profile of a matrix run', async () => {
+            const cell = (browser: string): Partial<ExecutionRecord> => ({
+                options: {
+                    projectPath,
+                    testSuitePath: 'Test Suites/Regression.ts',
+                    browser,
+                    executionProfile: 'staging',
+                },
+            });
+            // Two matrix runs of a Chrome cell and a Firefox cell each
+            addRun(1, { 'Test Cases/Login': 'PASSED', 'Test Cases/Search': 'PASSED' }, cell('Chrome'));
+            addRun(2, { 'Test Cases/Login': 'FAILED', 'Test Cases/Search': 'PASSED' }, cell('Firefox'));
+            addRun(3, { 'Test Cases/Login': 'PASSED', 'Test Cases/Search': 'PASSED' }, cell('Chrome'));
+            addRun(4, { 'Test Cases/Login': 'FAILED', 'Test Cases/Search': 'FAILED' }, cell('Firefox'));
+
+            const reports = await analyzer.analyze(projectPath);
+
+            expect(reports).toHaveLength(1);
+            expect(reports[0]).toMatchObject({
+                testCaseName: 'Test Cases/Search',
+                browser: 'Firefox',
+                executionProfile: 'staging',
+                runs: 2,
+                flips: 1,
+            });
+        });
+
+        it('should ignore skipped and cancelled runs', async () => {
+            addRun(1, { 'Test Cases/Login': 'PASSED' });
+            addRun(2, { 'Test Cases/Login': 'FAILED' }, { status: 'CANCELLED' });
+            addRun(3, { 'Test Cases/Login': 'SKIPPED' });
+            addRun(4, { 'Test Cases/Login': 'PASSED' });
+
+            expect(await analyzer.analyze(projectPath)).toHaveLength(0);
+        });
+
+        it('should not count simulated runs', async () => {
+            const historyProject = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-flaky-'));
+            const history = new KatalonExecutionHistory();
+
+            try {
+                addRun(1, { 'Test Cases/Login': 'PASSED' });
+                addRun(2, { 'Test Cases/Login': 'FAILED' }, { runner: 'simulated' });
+                addRun(3, { 'Test Cases/Login': 'PASSED' });
+                for (const record of records) {
+                    await history.record({ ...record, options: { ...record.options, projectPath: historyProject } });
+                }
+
+                expect(await new KatalonFlakyTestAnalyzer(history).analyze(historyProject)).toHaveLength(0);
+                expect(await history.query(historyProject, { includeSimulated: true })).toHaveLength(3);
+            } finally {
+                await fs.remove(historyProject);
+            }
+        });
+    });
+});
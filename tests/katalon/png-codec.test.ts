@@ -0,0 +1,49 @@
+import * as zlib from 'zlib';
+import { decodePng, encodePng } from '../../src/katalon/png-codec';
+
+describe('PngCodec', () => {
+    // A PNG chunk with a placeholder CRC; the decoder doesn't check it
+    const chunk = (type: string, data: Buffer): Buffer => {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(data.length);
+        return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+    };
+    const png = (header: number[], raw: Buffer): Buffer => {
+        const ihdr = Buffer.alloc(13);
+        ihdr.writeUInt32BE(header[0], 0);
+        ihdr.writeUInt32BE(header[1], 4);
+        Buffer.from(header.slice(2)).copy(ihdr, 8);
+        return Buffer.concat([
+            Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+            chunk('IHDR', ihdr),
+            chunk('IDAT', zlib.deflateSync(raw)),
+            chunk('IEND', Buffer.alloc(0)),
+        ]);
+    };
+
+    it('should read back the pixels it wrote', () => {
+        const pixels = Buffer.from([0, 0, 0, 255, 255, 255, 10, 20, 30, 40, 50, 60]);
+
+        const decoded = decodePng(encodePng({ width: 2, height: 2, colorType: 2, channels: 3, pixels }));
+
+        expect(decoded).toEqual({ width: 2, height: 2, colorType: 2, channels: 3, pixels });
+    });
+
+    it('should undo the sub, up, average and paeth row filters', () => {
+        // 3×4 gray image, one filter per row: [10, 20, 30], [15, 25, 35], [20, 30, 40], [25, 35, 45]
+        const raw = Buffer.from([1, 10, 10, 10, 2, 5, 5, 5, 3, 13, 8, 8, 4, 5, 5, 5]);
+
+        const decoded = decodePng(png([3, 4, 8, 0, 0, 0, 0], raw));
+
+        expect(Array.from(decoded!.pixels)).toEqual([10, 20, 30, 15, 25, 35, 20, 30, 40, 25, 35, 45]);
+    });
+
+    it('should not decode palette, 16-bit or interlaced images', () => {
+        const raw = Buffer.alloc(4);
+
+        expect(decodePng(png([1, 1, 8, 3, 0, 0, 0], raw))).toBeUndefined();
+        expect(decodePng(png([1, 1, 16, 0, 0, 0, 0], raw))).toBeUndefined();
+        expect(decodePng(png([1, 1, 8, 0, 0, 0, 1], raw))).toBeUndefined();
+        expect(decodePng(Buffer.from('not a png'))).toBeUndefined();
+    });
+});
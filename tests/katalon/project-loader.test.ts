@@ -0,0 +1,176 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { KatalonProjectLoader } from '../../src/katalon/project-loader';
+
+describe('ProjectLoader', () => {
+    let projectPath: string;
+    let loader: KatalonProjectLoader;
+
+    const profile = (isDefault: boolean, variables: [string, string][]) => `<?xml version="1.0" encoding="UTF-8"?>
+<GlobalVariableEntities>
+   <description></description>
+   <name>Profile</name>
+   <tag></tag>
+   <defaultProfile>${isDefault}</defaultProfile>
+${variables
+    .map(
+        ([name, initValue]) => `   <GlobalVariableEntity>
+      <description>About ${name}</description>
+      <initValue>${initValue}</initValue>
+      <name>${name}</name>
+   </GlobalVariableEntity>`
+    )
+    .join('\n')}
+</GlobalVariableEntities>`;
+
+    beforeEach(async () => {
+        projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-project-'));
+        loader = new KatalonProjectLoader();
+
+        await fs.outputFile(
+            path.join(projectPath, 'Shop.prj'),
+            `<?xml version="1.0" encoding="UTF-8"?>
+<Project>
+   <description>Storefront regression</description>
+   <defaultProfile>default</defaultProfile>
+   <migratedVersion>9.0.0</migratedVersion>
+   <name>Shop</name>
+   <pageLoadTimeout>30</pageLoadTimeout>
+   <type>WEBUI</type>
+   <uuid>5b8c4f1e-0000-0000-0000-000000000000</uuid>
+</Project>`
+        );
+        await fs.outputFile(path.join(projectPath, '.project'), '<projectDescription/>');
+        await fs.outputFile(
+            path.join(projectPath, 'settings', 'internal', 'com.kms.katalon.execution.properties'),
+            '# Execution settings\nexecution.default.timeout=30\nexecution.logTestSteps = true\nurl=http\\://localhost\\:8080\nlist=a,\\\n    b\n'
+        );
+        await fs.outputFile(path.join(projectPath, 'Profiles', 'default.glbl'), profile(false, [['baseUrl', "'http://localhost'"]]));
+        await fs.outputFile(
+            path.join(projectPath, 'Profiles', 'staging.glbl'),
+            profile(true, [
+                ['baseUrl', "'https://staging.example.com'"],
+                ['timeout', '10'],
+            ])
+        );
+        await fs.outputFile(path.join(projectPath, 'Test Cases', 'Login.tc'), '<TestCaseEntity/>');
+        await fs.outputFile(path.join(projectPath, 'Test Cases', 'Checkout', 'Pay.tc'), '<TestCaseEntity/>');
+        await fs.outputFile(path.join(projectPath, 'Test Suites', 'Smoke.ts'), '<TestSuiteEntity/>');
+        await fs.outputFile(path.join(projectPath, 'Test Suites', 'Nightly.tsc'), '<TestSuiteCollectionEntity/>');
+        await fs.outputFile(path.join(projectPath, 'Object Repository', 'Page_Login', 'btn_Login.rs'), '<WebElementEntity/>');
+        await fs.outputFile(path.join(projectPath, 'Keywords', 'com', 'shop', 'Helpers.groovy'), 'class Helpers {}');
+        await fs.outputFile(path.join(projectPath, 'Data Files', 'Users.dat'), '<DataFileEntity/>');
+    });
+
+    afterEach(async () => {
+        await fs.remove(projectPath);
+    });
+
+    it('should read the name, version and type from the .prj file', async () => {
+        const project = await loader.load(projectPath);
+
+        expect(project).toMatchObject({
+            name: 'Shop',
+            path: projectPath,
+            version: '9.0.0',
+            type: 'web',
+            description: 'Storefront regression',
+        });
+    });
+
+    it('should read profiles and their global variables', async () => {
+        const project = await loader.load(projectPath);
+
+        expect(project.profiles).toEqual(['default', 'staging']);
+        expect(project.defaultProfile).toBe('staging');
+        expect(project.globalVariables.staging).toEqual([
+            { name: 'baseUrl', initValue: "'https://staging.example.com'", description: 'About baseUrl' },
+            { name: 'timeout', initValue: '10', description: 'About timeout' },
+        ]);
+    });
+
+    it('should read settings properties', async () => {
+        const project = await loader.load(projectPath);
+
+        expect(project.settings['internal/com.kms.katalon.execution']).toEqual({
+            'execution.default.timeout': '30',
+            'execution.logTestSteps': 'true',
+            url: 'http://localhost:8080',
+            list: 'a,b',
+        });
+    });
+
+    it('should list every entity with its folder', async () => {
+        const project = await loader.load(projectPath);
+
+        expect(project.testCases).toEqual(['Test Cases/Checkout/Pay', 'Test Cases/Login']);
+        expect(project.testSuites).toEqual(['Test Suites/Smoke']);
+        expect(project.objectRepositories).toEqual(['Object Repository/Page_Login/btn_Login']);
+        expect(project.entities.map(entity => [entity.type, entity.id, entity.folder])).toEqual([
+            ['testCase', 'Test Cases/Checkout/Pay', 'Test Cases/Checkout'],
+            ['testCase', 'Test Cases/Login', 'Test Cases'],
+            ['testSuite', 'Test Suites/Smoke', 'Test Suites'],
+            ['testSuiteCollection', 'Test Suites/Nightly', 'Test Suites'],
+            ['testObject', 'Object Repository/Page_Login/btn_Login', 'Object Repository/Page_Login'],
+            ['keyword', 'Keywords/com/shop/Helpers', 'Keywords/com/shop'],
+            ['testData', 'Data Files/Users', 'Data Files'],
+            ['profile', 'Profiles/default', 'Profiles'],
+            ['profile', 'Profiles/staging', 'Profiles'],
+        ]);
+        expect(project.entities[0].path).toBe(path.join(projectPath, 'Test Cases', 'Checkout', 'Pay.tc'));
+    });
+
+    it('should leave generated rerun suites out of the test suites', async () => {
+        await fs.outputFile(
+            path.join(projectPath, 'Test Suites', 'MCP Reruns', 'Rerun_execution_1.ts'),
+            '<TestSuiteEntity/>'
+        );
+
+        const project = await loader.load(projectPath);
+
+        expect(project.testSuites).toEqual(['Test Suites/Smoke']);
+        expect(project.entities.map(entity => entity.id)).not.toContain('Test Suites/MCP Reruns/Rerun_execution_1');
+    });
+
+    it('should reuse a loaded project until it is invalidated', async () => {
+        const first = await loader.load(projectPath);
+        await fs.outputFile(path.join(projectPath, 'Test Cases', 'Search.tc'), '<TestCaseEntity/>');
+
+        expect(await loader.load(projectPath)).toBe(first);
+
+        loader.invalidate(projectPath);
+        expect((await loader.load(projectPath)).testCases).toContain('Test Cases/Search');
+    });
+
+    it('should fall back to the folder name without a .prj file', async () => {
+        await fs.remove(path.join(projectPath, 'Shop.prj'));
+
+        const project = await loader.load(projectPath);
+
+        expect(project).toMatchObject({ name: path.basename(projectPath), version: 'unknown', type: 'generic' });
+    });
+
+    it('should reject a plain Eclipse project', async () => {
+        const eclipsePath = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-eclipse-'));
+        await fs.outputFile(path.join(eclipsePath, '.project'), '<projectDescription/>');
+
+        try {
+            expect(await loader.isKatalonProject(eclipsePath)).toBe(false);
+            await expect(loader.load(eclipsePath)).rejects.toThrow('Invalid Katalon project');
+        } finally {
+            await fs.remove(eclipsePath);
+        }
+    });
+
+    it('should reject a folder that is not a Katalon project', async () => {
+        const emptyPath = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-empty-'));
+
+        try {
+            expect(await loader.isKatalonProject(emptyPath)).toBe(false);
+            await expect(loader.load(emptyPath)).rejects.toThrow('Invalid Katalon project');
+        } finally {
+            await fs.remove(emptyPath);
+        }
+    });
+});
@@ -1,6 +1,8 @@
-import * as fs from 'fs-extra';
 import * as path from 'path';
-import { KatalonProject, AnalysisResult } from '../../src/katalon/project-manager';
+import { KatalonProject, AnalysisResult, KatalonProjectManager } from '../../src/katalon/project-manager';
+import { ExecutionRecord, KatalonExecutionHistory } from '../../src/katalon/execution-history';
+import { KatalonProjectLoader } from '../../src/katalon/project-loader';
+import { TestResult } from '../../src/katalon/test-executor';
 
 // Mock the dependencies
 jest.mock('fs-extra');
@@ -20,10 +22,14 @@ describe('ProjectManager', () => {
                 name: 'Test Project',
                 path: mockProjectPath,
                 version: '1.0.0',
+                type: 'web',
                 testCases: ['TestCase1', 'TestCase2'],
                 testSuites: ['TestSuite1'],
                 objectRepositories: ['OR1', 'OR2'],
-                profiles: ['default']
+                profiles: ['default'],
+                globalVariables: { default: [] },
+                settings: {},
+                entities: []
             };
 
             expect(mockProject.name).toBe('Test Project');
@@ -89,6 +95,10 @@ describe('ProjectManager', () => {
         it('should analyze project health metrics', () => {
             const mockAnalysis: AnalysisResult = {
                 overview: {
+                    name: 'Test Project',
+                    version: '9.0.0',
+                    type: 'web',
+                    profiles: ['default'],
                     totalTestCases: 25,
                     totalTestSuites: 5,
                     totalObjects: 50,
@@ -116,4 +126,73 @@ describe('ProjectManager', () => {
             expect(healthPercentage).toBe(85);
         });
     });
+
+    describe('Test Coverage', () => {
+        it('should report coverage from recorded executions', async () => {
+            const run = (day: number, results: [string, TestResult['status']][]): ExecutionRecord => ({
+                executionId: `execution_${day}`,
+                status: 'FAILED',
+                testSuitePath: 'Test Suites/Regression.ts',
+                options: { projectPath: mockProjectPath, testSuitePath: 'Test Suites/Regression.ts' },
+                success: true,
+                exitCode: 0,
+                startTime: new Date(Date.UTC(2025, 0, day)).toISOString(),
+                endTime: new Date(Date.UTC(2025, 0, day)).toISOString(),
+                duration: 1000,
+                testResults: results.map(([testCaseName, status]) => ({
+                    testCaseName,
+                    status,
+                    duration: 100,
+                })),
+                projectFingerprint: 'v1',
+            });
+
+            const history = new KatalonExecutionHistory();
+            jest.spyOn(history, 'query').mockResolvedValue([
+                run(2, [
+                    ['Test Cases/Login', 'PASSED'],
+                    ['Test Cases/Search', 'FAILED'],
+                ]),
+                run(1, [
+                    ['Test Cases/Login', 'FAILED'],
+                    ['Test Cases/Search', 'FAILED'],
+                    ['Test Cases/Logout', 'PASSED'],
+                    // Deleted from the project since
+                    ['Test Cases/OldCheckout', 'PASSED'],
+                    ['Test Cases/OldSearch', 'PASSED'],
+                ]),
+            ]);
+            const loader = new KatalonProjectLoader();
+            jest.spyOn(loader, 'isKatalonProject').mockResolvedValue(true);
+            jest.spyOn(loader, 'load').mockResolvedValue({
+                name: 'Shop',
+                path: mockProjectPath,
+                version: '9.0.0',
+                type: 'web',
+                testCases: ['Test Cases/Login', 'Test Cases/Search', 'Test Cases/Logout', 'Test Cases/Cart'],
+                testSuites: ['Test Suites/Regression'],
+                objectRepositories: [],
+                profiles: ['default'],
+                globalVariables: { default: [] },
+                settings: {},
+                entities: [],
+            });
+
+            const manager = new KatalonProjectManager(history, loader);
+            const response = await manager.analyzeProject({
+                projectPath: mockProjectPath,
+                analysisType: 'test_coverage',
+            });
+            const analysis = JSON.parse(response.content[0].text.replace('# Katalon Project Analysis', ''));
+
+            expect(analysis.testCoverage).toEqual({
+                executedTests: 3,
+                passedTests: 2,
+                failedTests: 1,
+                coverage: 75,
+                flakyTests: 1,
+                recordedExecutions: 2,
+            });
+        });
+    });
 });
@@ -0,0 +1,112 @@
+import * as fs from 'fs-extra';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { KatalonRemoteWebDriverConfigurator } from '../../src/katalon/remote-webdriver';
+
+describe('RemoteWebDriver', () => {
+    let server: http.Server;
+    let gridUrl: string;
+    let ready: boolean;
+    let configurator: KatalonRemoteWebDriverConfigurator;
+
+    beforeAll(async () => {
+        // Stand-in for a Selenium Grid: only the W3C status endpoint is needed
+        server = http.createServer((request, response) => {
+            if (request.url === '/wd/hub/status') {
+                response.writeHead(200, { 'Content-Type': 'application/json' });
+                response.end(JSON.stringify({ value: { ready, message: 'Grid status' } }));
+            } else {
+                response.writeHead(404);
+                response.end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        gridUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/wd/hub`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        ready = true;
+        configurator = new KatalonRemoteWebDriverConfigurator();
+    });
+
+    describe('Endpoint Check', () => {
+        it('should accept an endpoint that is ready', async () => {
+            expect(await configurator.checkEndpoint({ url: gridUrl })).toBeUndefined();
+        });
+
+        it('should report an endpoint that is busy or missing', async () => {
+            ready = false;
+            expect(await configurator.checkEndpoint({ url: gridUrl })).toContain(
+                'is not ready for new sessions'
+            );
+            expect(await configurator.checkEndpoint({ url: `${gridUrl}/nowhere` })).toContain(
+                'answered 404'
+            );
+        });
+
+        it('should report an endpoint nobody listens on', async () => {
+            const closed = http.createServer();
+            await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+            const port = (closed.address() as AddressInfo).port;
+            await new Promise(resolve => closed.close(resolve));
+
+            expect(await configurator.checkEndpoint({ url: `http://127.0.0.1:${port}` })).toContain(
+                'Remote WebDriver not reachable'
+            );
+        });
+    });
+
+    describe('Project Settings', () => {
+        let projectPath: string;
+        const settingsPath = (): string =>
+            path.join(
+                projectPath,
+                'settings',
+                'internal',
+                'com.kms.katalon.core.webui.remote.properties'
+            );
+
+        beforeEach(async () => {
+            projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-remote-'));
+        });
+
+        afterEach(async () => {
+            await fs.remove(projectPath);
+        });
+
+        it('should write the remote settings for a run and put the old ones back', async () => {
+            await fs.outputFile(settingsPath(), 'remoteWebDriverType=Appium\n');
+
+            const restore = await configurator.apply(projectPath, {
+                url: 'http://grid:4444/wd/hub',
+                type: 'Selenium',
+                desiredCapabilities: { browserName: 'firefox' },
+            });
+            const written = await fs.readFile(settingsPath(), 'utf-8');
+
+            expect(written).toContain('remoteWebDriverUrl=http\\://grid\\:4444/wd/hub');
+            expect(written).toContain('remoteWebDriverType=Selenium');
+            expect(written).toContain('"browserName"\\:"firefox"');
+
+            await restore();
+            expect(await fs.readFile(settingsPath(), 'utf-8')).toBe('remoteWebDriverType=Appium\n');
+        });
+
+        it('should let only one execution at a time claim the project', async () => {
+            const release = configurator.reserve(projectPath);
+
+            expect(() => configurator.reserve(projectPath)).toThrow('already queued or running');
+            expect(configurator.getReservationError(projectPath)).toContain('already queued or running');
+
+            release();
+            expect(configurator.getReservationError(projectPath)).toBeUndefined();
+            configurator.reserve(projectPath)();
+        });
+    });
+});
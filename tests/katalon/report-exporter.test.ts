@@ -0,0 +1,210 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ExecutionRecord, KatalonExecutionHistory } from '../../src/katalon/execution-history';
+import { KatalonReportExporter } from '../../src/katalon/report-exporter';
+import { KatalonTestExecutor } from '../../src/katalon/test-executor';
+
+describe('ReportExporter', () => {
+    let projectPath: string;
+    let outputFolder: string;
+    let exporter: KatalonReportExporter;
+
+    const createRecord = (executionId: string, overrides: Partial<ExecutionRecord> = {}): ExecutionRecord => ({
+        executionId,
+        status: 'FAILED',
+        testSuitePath: 'Test Suites/Smoke.ts',
+        browser: 'Chrome',
+        executionProfile: 'default',
+        options: { projectPath, testSuitePath: 'Test Suites/Smoke.ts' },
+        success: false,
+        exitCode: 1,
+        startTime: '2025-01-01T10:00:00.000Z',
+        endTime: '2025-01-01T10:00:05.000Z',
+        duration: 5000,
+        testResults: [
+            { testCaseName: 'Test Cases/Home', status: 'PASSED', duration: 1500 },
+            {
+                testCaseName: 'Test Cases/Login',
+                status: 'FAILED',
+                duration: 3500,
+                errorMessage: 'Unable to click, "Login" | <button>',
+                stackTrace: 'StepFailedException: Unable to click',
+                screenshots: [path.join(projectPath, 'Reports', 'login.png')],
+                steps: [
+                    { index: 1, depth: 0, keyword: 'openBrowser', status: 'PASSED', durationMs: 1000 },
+                    {
+                        index: 2,
+                        depth: 0,
+                        keyword: 'callTestCase',
+                        object: 'Test Cases/Common/Login',
+                        status: 'FAILED',
+                        durationMs: 2000,
+                    },
+                    {
+                        index: 3,
+                        depth: 1,
+                        keyword: 'click',
+                        object: 'Object Repository/Page_Login/btn_Login',
+                        status: 'FAILED',
+                        durationMs: 500,
+                        message: 'Unable to click',
+                    },
+                ],
+            },
+        ],
+        ...overrides,
+    });
+
+    beforeEach(async () => {
+        projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-export-'));
+        outputFolder = path.join(projectPath, 'export');
+        await fs.outputFile(path.join(projectPath, 'Reports', 'login.png'), 'not really a png');
+
+        const history = new KatalonExecutionHistory();
+        await history.record(createRecord('run_1'));
+        await history.record(
+            createRecord('run_2', {
+                status: 'PASSED',
+                testResults: [{ testCaseName: 'Test Cases/Home', status: 'PASSED', duration: 1200 }],
+            })
+        );
+        exporter = new KatalonReportExporter(new KatalonTestExecutor(history));
+    });
+
+    afterEach(async () => {
+        await fs.remove(projectPath);
+    });
+
+    it('should write every format to the output folder', async () => {
+        const response = await exporter.exportReports({
+            executionIds: ['run_1', 'run_2'],
+            projectPath,
+            outputFolder,
+        });
+        const text = response.content[0].text;
+
+        expect(text).toContain('- **Executions**: run_1, run_2');
+        expect(text).toContain('- **Test Cases**: 3');
+        for (const file of ['allure-results', 'katalon-report.html', 'katalon-results.csv', 'katalon-report.md']) {
+            expect(text).toContain(`- ${path.join(outputFolder, file)}`);
+            expect(await fs.pathExists(path.join(outputFolder, file))).toBe(true);
+        }
+    });
+
+    it('should write Allure results with nested steps and attachments', async () => {
+        await exporter.exportReports({ executionIds: ['run_1'], projectPath, outputFolder, formats: ['allure'] });
+
+        const resultsFolder = path.join(outputFolder, 'allure-results');
+        const files = await fs.readdir(resultsFolder);
+        const results = await Promise.all(
+            files.filter(file => file.endsWith('-result.json')).map(file => fs.readJson(path.join(resultsFolder, file)))
+        );
+        const login = results.find(result => result.fullName === 'Test Cases/Login');
+
+        expect(results).toHaveLength(2);
+        expect(login).toMatchObject({
+            name: 'Login',
+            status: 'failed',
+            statusDetails: { message: 'Unable to click, "Login" | <button>' },
+            start: Date.parse('2025-01-01T10:00:01.500Z'),
+            stop: Date.parse('2025-01-01T10:00:05.000Z'),
+        });
+        expect(login.labels).toContainEqual({ name: 'browser', value: 'Chrome' });
+        expect(login.steps.map((step: any) => [step.name, step.status, step.steps.length])).toEqual([
+            ['openBrowser', 'passed', 0],
+            ['callTestCase', 'failed', 1],
+        ]);
+        expect(login.steps[1].steps[0]).toMatchObject({ name: 'click', status: 'failed' });
+        expect(await fs.readFile(path.join(resultsFolder, login.attachments[0].source), 'utf-8')).toBe(
+            'not really a png'
+        );
+        expect(await fs.readFile(path.join(resultsFolder, 'environment.properties'), 'utf-8')).toContain(
+            'browser=Chrome'
+        );
+    });
+
+    it('should replace the Allure results of an earlier export', async () => {
+        const history = new KatalonExecutionHistory();
+        await history.record(
+            createRecord('run_3', {
+                testSuitePath: 'Test Suites/Checkout.ts',
+                browser: 'Firefox',
+                testResults: [{ testCaseName: 'Test Cases/Search', status: 'PASSED', duration: 800 }],
+            })
+        );
+        const readResults = async (): Promise<string[]> => {
+            const resultsFolder = path.join(outputFolder, 'allure-results');
+            const files = (await fs.readdir(resultsFolder)).filter(file => file.endsWith('-result.json'));
+            return Promise.all(files.map(async file => (await fs.readJson(path.join(resultsFolder, file))).fullName));
+        };
+
+        await exporter.exportReports({ executionIds: ['run_1'], projectPath, outputFolder, formats: ['allure'] });
+        await exporter.exportReports({
+            executionIds: ['run_2', 'run_3'],
+            projectPath,
+            outputFolder,
+            formats: ['allure'],
+        });
+
+        expect((await readResults()).sort()).toEqual(['Test Cases/Home', 'Test Cases/Search']);
+        expect(
+            await fs.readFile(path.join(outputFolder, 'allure-results', 'environment.properties'), 'utf-8')
+        ).toBe(
+            'testSuite=Test Suites/Smoke.ts, Test Suites/Checkout.ts\nbrowser=Chrome, Firefox\nexecutionProfile=default\n'
+        );
+    });
+
+    it('should escape values in CSV, HTML and Markdown', async () => {
+        await exporter.exportReports({
+            executionIds: ['run_1'],
+            projectPath,
+            outputFolder,
+            formats: ['csv', 'html', 'markdown'],
+        });
+
+        const csv = await fs.readFile(path.join(outputFolder, 'katalon-results.csv'), 'utf-8');
+        expect(csv.split('\r\n')[0]).toBe(
+            'executionId,testSuite,browser,executionProfile,testCase,status,durationSeconds,errorMessage,failedStep,failedObject'
+        );
+        expect(csv).toContain(
+            'run_1,Test Suites/Smoke.ts,Chrome,default,Test Cases/Login,FAILED,3.50,"Unable to click, ""Login"" | <button>",#3 click,Object Repository/Page_Login/btn_Login'
+        );
+
+        const html = await fs.readFile(path.join(outputFolder, 'katalon-report.html'), 'utf-8');
+        expect(html).toMatch(/^<!DOCTYPE html>/);
+        expect(html).toContain('Unable to click, &quot;Login&quot; | &lt;button&gt;');
+
+        const markdown = await fs.readFile(path.join(outputFolder, 'katalon-report.md'), 'utf-8');
+        expect(markdown).toContain('| run_1 | Test Suites/Smoke.ts | ❌ FAILED | 1 | 1 | 0 | 5.00s |');
+        expect(markdown).toContain(
+            '| Test Cases/Login | FAILED | Unable to click, "Login" \\| <button> | #3 `click` on `Object Repository/Page_Login/btn_Login` |'
+        );
+    });
+
+    it('should write test management imports and name unmapped test cases', async () => {
+        await fs.outputFile(
+            path.join(projectPath, '.katalon-mcp', 'test-management.json'),
+            JSON.stringify({ xray: { 'Test Cases/Login': 'PROJ-9' } })
+        );
+
+        const response = await exporter.exportReports({
+            executionIds: ['run_1'],
+            projectPath,
+            outputFolder,
+            formats: ['xray'],
+        });
+
+        expect(response.content[0].text).toContain(
+            `- ${path.join(outputFolder, 'xray-import.json')}\n  - ⚠️ No xray ID for: Test Cases/Home`
+        );
+        const payload = await fs.readJson(path.join(outputFolder, 'xray-import.json'));
+        expect(payload.tests).toEqual([expect.objectContaining({ testKey: 'PROJ-9', status: 'FAILED' })]);
+    });
+
+    it('should fail for an unknown execution', async () => {
+        await expect(
+            exporter.exportReports({ executionIds: ['missing'], projectPath, outputFolder })
+        ).rejects.toThrow('Execution not found');
+    });
+});
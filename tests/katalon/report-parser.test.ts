@@ -0,0 +1,165 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { getFailedStep, KatalonReportParser } from '../../src/katalon/report-parser';
+
+describe('ReportParser', () => {
+    let reportFolder: string;
+    let parser: KatalonReportParser;
+
+    const record = (level: string, message: string, millis: number, properties: Record<string, string> = {}) =>
+        `<record>
+  <date>2025-01-01T10:00:00</date>
+  <millis>${millis}</millis>
+  <level>${level}</level>
+  <class>com.kms.katalon.core.logging.XmlKeywordLogger</class>
+  <message>${message}</message>
+${Object.entries(properties)
+    .map(([name, value]) => `  <property name="${name}">${value}</property>`)
+    .join('\n')}
+</record>`;
+
+    const executionLog = (records: string[]) => `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<!DOCTYPE log SYSTEM "logger.dtd">
+<log>
+${record('START', 'Start Test Suite : Test Suites/Smoke', 1000)}
+${records.join('\n')}
+${record('END', 'End Test Suite : Test Suites/Smoke', 9000)}
+</log>`;
+
+    beforeEach(async () => {
+        reportFolder = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-report-'));
+        parser = new KatalonReportParser();
+    });
+
+    afterEach(async () => {
+        await fs.remove(reportFolder);
+    });
+
+    describe('execution0.log', () => {
+        it('should turn log records into steps with status, object, duration and screenshot', async () => {
+            await fs.writeFile(
+                path.join(reportFolder, 'execution0.log'),
+                executionLog([
+                    record('START', 'Start Test Case : Test Cases/Login', 2000, { id: 'Test Cases/Login' }),
+                    record('START', 'Start action : openBrowser', 2100),
+                    record('PASSED', 'Browser is opened with url: &apos;&apos;', 2400),
+                    record('END', 'End action : openBrowser', 2500),
+                    record(
+                        'START',
+                        "Start action : Statement - WebUI.click(findTestObject('Page_Login/btn_Login'))",
+                        2600
+                    ),
+                    record(
+                        'FAILED',
+                        `Unable to click on object 'Object Repository/Page_Login/btn_Login'
+com.kms.katalon.core.exception.StepFailedException: Unable to click
+	at com.kms.katalon.core.keyword.internal.KeywordMain.stepFailed(KeywordMain.groovy:50)
+	at Script1.run(Script1.groovy:22)`,
+                        3100,
+                        { attachment: '1735725603100.png' }
+                    ),
+                    record('END', 'End action : click', 3200),
+                    record('START', 'Start action : closeBrowser', 3300),
+                    record('NOT_RUN', 'Step skipped', 3300),
+                    record('END', 'End action : closeBrowser', 3300),
+                    record('END', 'End Test Case : Test Cases/Login', 3400),
+                ])
+            );
+
+            const steps = (await parser.parseFolder(reportFolder)).get('Test Cases/Login')!;
+
+            expect(steps.map(step => [step.index, step.keyword, step.status])).toEqual([
+                [1, 'openBrowser', 'PASSED'],
+                [2, 'click', 'FAILED'],
+                [3, 'closeBrowser', 'PASSED'],
+            ]);
+            expect(steps[1]).toMatchObject({
+                object: 'Object Repository/Page_Login/btn_Login',
+                durationMs: 600,
+                message: "Unable to click on object 'Object Repository/Page_Login/btn_Login'",
+                screenshot: path.join(reportFolder, '1735725603100.png'),
+            });
+            expect(steps[1].stackTrace).toMatch(/^com\.kms\.katalon\.core\.exception\.StepFailedException/);
+            expect(steps[1].stackTrace).toContain('at Script1.run(Script1.groovy:22)');
+        });
+
+        it('should nest the steps of a called test case and point at the deepest failure', async () => {
+            await fs.writeFile(
+                path.join(reportFolder, 'execution0.log'),
+                executionLog([
+                    record('START', 'Start Test Case : Test Cases/Checkout', 2000),
+                    record('START', 'Start Test Case : Test Cases/Common/Login', 2100),
+                    record('START', 'Start action : setText', 2200),
+                    record('ERROR', "Object 'Object Repository/Page_Login/txt_User' not found", 2300),
+                    record('END', 'End action : setText', 2300),
+                    record('FAILED', 'Test Cases/Common/Login FAILED', 2400),
+                    record('END', 'End Test Case : Test Cases/Common/Login', 2400),
+                    record('END', 'End Test Case : Test Cases/Checkout', 2500),
+                ])
+            );
+
+            const steps = (await parser.parseFolder(reportFolder)).get('Test Cases/Checkout')!;
+
+            expect(steps.map(step => [step.keyword, step.depth, step.status])).toEqual([
+                ['callTestCase', 0, 'FAILED'],
+                ['setText', 1, 'ERROR'],
+            ]);
+            expect(getFailedStep(steps)).toMatchObject({
+                index: 2,
+                object: 'Object Repository/Page_Login/txt_User',
+            });
+        });
+    });
+
+    describe('JSON Report', () => {
+        it('should prefer steps from the JSON report', async () => {
+            await fs.writeFile(
+                path.join(reportFolder, 'execution0.log'),
+                executionLog([
+                    record('START', 'Start Test Case : Test Cases/Login', 2000),
+                    record('END', 'End Test Case : Test Cases/Login', 3000),
+                ])
+            );
+            await fs.writeJson(path.join(reportFolder, 'JSON_Report.json'), {
+                name: 'Smoke',
+                testCases: [
+                    {
+                        id: 'Test Cases/Login',
+                        status: 'FAILED',
+                        steps: [
+                            { keyword: 'openBrowser', status: 'PASSED', duration: 300 },
+                            {
+                                keyword: 'verifyElementPresent',
+                                testObject: 'Object Repository/Page_Home/lbl_Welcome',
+                                status: 'FAILED',
+                                startTime: 1000,
+                                endTime: 1500,
+                                message: 'Element not present',
+                                stackTrace: 'StepFailedException: Element not present',
+                                attachment: 'welcome.png',
+                            },
+                        ],
+                    },
+                ],
+            });
+            await fs.writeJson(path.join(reportFolder, 'settings.json'), { unrelated: true });
+
+            const steps = (await parser.parseFolder(reportFolder)).get('Test Cases/Login')!;
+
+            expect(steps).toHaveLength(2);
+            expect(steps[1]).toEqual({
+                index: 2,
+                depth: 0,
+                keyword: 'verifyElementPresent',
+                object: 'Object Repository/Page_Home/lbl_Welcome',
+                description: undefined,
+                status: 'FAILED',
+                durationMs: 500,
+                message: 'Element not present',
+                stackTrace: 'StepFailedException: Element not present',
+                screenshot: path.join(reportFolder, 'welcome.png'),
+            });
+        });
+    });
+});
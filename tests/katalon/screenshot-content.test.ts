@@ -0,0 +1,62 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { decodePng, encodePng } from '../../src/katalon/png-codec';
+import { KatalonScreenshotContent } from '../../src/katalon/screenshot-content';
+
+describe('ScreenshotContent', () => {
+    let folder: string;
+    let screenshots: KatalonScreenshotContent;
+
+    // An RGBA image whose left half is black and right half white
+    const halfAndHalf = (width: number, height: number): Buffer => {
+        const pixels = Buffer.alloc(width * height * 4);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                pixels.fill(x < width / 2 ? 0 : 255, (y * width + x) * 4, (y * width + x) * 4 + 3);
+                pixels[(y * width + x) * 4 + 3] = 255;
+            }
+        }
+        return encodePng({ width, height, colorType: 6, channels: 4, pixels });
+    };
+
+    beforeEach(async () => {
+        folder = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-screenshots-'));
+        screenshots = new KatalonScreenshotContent();
+    });
+
+    afterEach(async () => {
+        await fs.remove(folder);
+    });
+
+    describe('Image Content', () => {
+        it('should return a PNG as a base64 image block', async () => {
+            const png = halfAndHalf(8, 4);
+            await fs.writeFile(path.join(folder, 'failure.png'), png);
+
+            const image = await screenshots.toImageContent(path.join(folder, 'failure.png'));
+
+            expect(image).toEqual({ type: 'image', data: png.toString('base64'), mimeType: 'image/png' });
+        });
+
+        it('should downscale wide PNGs and keep the picture', async () => {
+            await fs.writeFile(path.join(folder, 'failure.png'), halfAndHalf(16, 8));
+
+            const image = await screenshots.toImageContent(path.join(folder, 'failure.png'), 5);
+            const decoded = decodePng(Buffer.from(image.data, 'base64'))!;
+
+            expect([decoded.width, decoded.height]).toEqual([4, 2]);
+            expect(Array.from(decoded.pixels.subarray(0, 4))).toEqual([0, 0, 0, 255]);
+            expect(Array.from(decoded.pixels.subarray(12, 16))).toEqual([255, 255, 255, 255]);
+        });
+
+        it('should send other formats unchanged', async () => {
+            await fs.writeFile(path.join(folder, 'failure.jpg'), Buffer.from([0xff, 0xd8, 0xff, 0xd9]));
+
+            const image = await screenshots.toImageContent(path.join(folder, 'failure.jpg'), 5);
+
+            expect(image.mimeType).toBe('image/jpeg');
+            expect(image.data).toBe(Buffer.from([0xff, 0xd8, 0xff, 0xd9]).toString('base64'));
+        });
+    });
+});
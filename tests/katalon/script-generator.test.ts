@@ -0,0 +1,190 @@
+import { KatalonScriptGenerator } from '../../src/katalon/script-generator';
+
+describe('ScriptGenerator', () => {
+    const generator = new KatalonScriptGenerator();
+    const objects = [
+        'Object Repository/Page_Login/input_username',
+        'Object Repository/Page_Login/input_password',
+        'Object Repository/Page_Login/btn_Login',
+        'Object Repository/Page_Home/lnk_Login',
+        'Object Repository/Page_Home/div_WelcomeMessage',
+        'Object Repository/Page_Search/select_Category',
+        'Object Repository/Page_Home/btn_Search',
+        'Object Repository/Page_Results/btn_Search',
+        'Object Repository/API/GET_Users',
+    ];
+
+    const statements = (script: string) =>
+        script
+            .split('\n')
+            .filter(line => line && !line.startsWith('import '));
+
+    it('should write the standard imports and web keyword calls', () => {
+        const { script, todos } = generator.generate(
+            [
+                'Enter "john.doe" into the username field',
+                'Type "it\'s secret" in password',
+                'Click the login button on the login page',
+                'Select "Books" in category',
+                'Verify the welcome message is displayed',
+                'Check that text "Hello, John" is shown',
+            ],
+            { type: 'web', targetUrl: 'https://shop.example.com/login', objects }
+        );
+
+        expect(script.split('\n')[0]).toBe(
+            'import static com.kms.katalon.core.checkpoint.CheckpointFactory.findCheckpoint'
+        );
+        expect(script).toContain('import com.kms.katalon.core.webui.keyword.WebUiBuiltInKeywords as WebUI\n');
+        expect(statements(script)).toEqual([
+            "WebUI.openBrowser('')",
+            "WebUI.navigateToUrl('https://shop.example.com/login')",
+            "WebUI.setText(findTestObject('Page_Login/input_username'), 'john.doe')",
+            "WebUI.setText(findTestObject('Page_Login/input_password'), 'it\\'s secret')",
+            "WebUI.click(findTestObject('Page_Login/btn_Login'))",
+            "WebUI.selectOptionByLabel(findTestObject('Page_Search/select_Category'), 'Books', false)",
+            "WebUI.verifyElementPresent(findTestObject('Page_Home/div_WelcomeMessage'), 10)",
+            "WebUI.verifyTextPresent('Hello, John', false)",
+            'WebUI.closeBrowser()',
+        ]);
+        expect(todos).toEqual([]);
+    });
+
+    it('should leave unmappable and ambiguous steps as TODO comments', () => {
+        const { script, todos } = generator.generate(
+            ['Open browser', 'Click search', 'Click the checkout button', 'Drag the slider to 50%'],
+            { type: 'web', objects }
+        );
+
+        expect(statements(script)).toEqual([
+            "WebUI.openBrowser('')",
+            '// TODO: Click search',
+            '// TODO: Click the checkout button',
+            '// TODO: Drag the slider to 50%',
+        ]);
+        expect(todos).toEqual(['Click search', 'Click the checkout button', 'Drag the slider to 50%']);
+    });
+
+    it('should write API and mobile keyword calls', () => {
+        const api = generator.generate(['Send the GET Users request', 'Verify status code is 200'], {
+            type: 'api',
+            objects,
+        });
+        expect(statements(api.script)).toEqual([
+            "response = WS.sendRequest(findTestObject('API/GET_Users'))",
+            'WS.verifyResponseStatusCode(response, 200)',
+        ]);
+
+        const mobile = generator.generate(
+            ['Start the application "apps/shop.apk"', 'Tap login button on login page', 'Close the app'],
+            { type: 'mobile', objects }
+        );
+        expect(statements(mobile.script)).toEqual([
+            "Mobile.startApplication('apps/shop.apk', false)",
+            "Mobile.tap(findTestObject('Page_Login/btn_Login'), 10)",
+            'Mobile.closeApplication()',
+        ]);
+    });
+
+    it('should compile structured steps into keyword calls and manual view steps', () => {
+        const { script, steps } = generator.generate(
+            [
+                { keyword: 'WebUI.openBrowser' },
+                { keyword: 'WebUI.navigateToUrl', inputs: [{ expression: 'GlobalVariable.baseUrl' }] },
+                {
+                    keyword: 'WebUI.setText',
+                    object: 'Object Repository/Page_Login/input_username',
+                    inputs: ['john.doe'],
+                    description: 'Enter the user name',
+                },
+                {
+                    keyword: 'WebUI.verifyElementPresent',
+                    object: 'Page_Home/div_WelcomeMessage',
+                    inputs: [5],
+                    failureHandling: 'CONTINUE_ON_FAILURE',
+                },
+                'Click the login button on the login page',
+            ],
+            { type: 'web', objects }
+        );
+
+        expect(statements(script)).toEqual([
+            "WebUI.openBrowser('')",
+            'WebUI.navigateToUrl(GlobalVariable.baseUrl)',
+            "'Enter the user name'",
+            "WebUI.setText(findTestObject('Page_Login/input_username'), 'john.doe')",
+            "WebUI.verifyElementPresent(findTestObject('Page_Home/div_WelcomeMessage'), 5, FailureHandling.CONTINUE_ON_FAILURE)",
+            "WebUI.click(findTestObject('Page_Login/btn_Login'))",
+        ]);
+        expect(steps[2]).toEqual({
+            keyword: 'WebUI.setText',
+            parameters: ["findTestObject('Page_Login/input_username')", "'john.doe'"],
+            description: 'Enter the user name',
+        });
+        expect(steps[4]).toEqual({
+            keyword: 'WebUI.click',
+            parameters: ["findTestObject('Page_Login/btn_Login')"],
+            description: 'Click the login button on the login page',
+        });
+    });
+
+    it('should reject unknown keywords, missing objects and wrong inputs', () => {
+        expect(() =>
+            generator.generate(
+                [
+                    { keyword: 'WebUI.clickTwice', object: 'Page_Login/btn_Login' },
+                    { keyword: 'WebUI.click', object: 'Page_Login/btn_Missing' },
+                    { keyword: 'WebUI.setText', object: 'Page_Login/input_username' },
+                    { keyword: 'WebUI.delay', inputs: ['soon'] },
+                    { keyword: 'WebUI.closeBrowser', object: 'Page_Login/btn_Login' },
+                    { keyword: 'findTestObject', inputs: ['Page_Login/btn_Login'] },
+                ],
+                { type: 'web', objects }
+            )
+        ).toThrow(
+            [
+                'Invalid test steps:',
+                '- Step 1: Unknown keyword "WebUI.clickTwice"',
+                '- Step 2: Test object "Page_Login/btn_Missing" not found in the Object Repository',
+                '- Step 3: WebUI.setText needs a value for "text"',
+                '- Step 4: "second" must be a whole number',
+                '- Step 5: WebUI.closeBrowser does not take a test object',
+                '- Step 6: Unknown keyword "findTestObject"',
+            ].join('\n')
+        );
+    });
+
+    it('should escape line breaks and tabs in string literals', () => {
+        const { script } = generator.generate(
+            [
+                {
+                    keyword: 'WebUI.setText',
+                    object: 'Page_Login/input_username',
+                    inputs: ['first line\nsecond\r\n\tthird \\ $name'],
+                    description: 'Enter a\nmulti-line value',
+                },
+            ],
+            { type: 'web', objects }
+        );
+
+        expect(statements(script)).toEqual([
+            "'Enter a\\nmulti-line value'",
+            "WebUI.setText(findTestObject('Page_Login/input_username'), 'first line\\nsecond\\r\\n\\tthird \\\\ $name')",
+        ]);
+    });
+
+    it('should pass the response of a structured request step on', () => {
+        const { script } = generator.generate(
+            [
+                { keyword: 'WS.sendRequest', object: 'API/GET_Users' },
+                { keyword: 'WS.verifyResponseStatusCode', inputs: [200], failureHandling: 'STOP_ON_FAILURE' },
+            ],
+            { type: 'api', objects }
+        );
+
+        expect(statements(script)).toEqual([
+            "response = WS.sendRequest(findTestObject('API/GET_Users'))",
+            'WS.verifyResponseStatusCode(response, 200, FailureHandling.STOP_ON_FAILURE)',
+        ]);
+    });
+});
@@ -0,0 +1,153 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { KatalonSimulatedRunner } from '../../src/katalon/simulated-runner';
+import { KatalonTestExecutor } from '../../src/katalon/test-executor';
+
+describe('KatalonSimulatedRunner', () => {
+    let projectPath: string;
+    let executor: KatalonTestExecutor;
+
+    const suite = (name: string, testCaseIds: string[]) => `<TestSuiteEntity>
+   <name>${name}</name>
+${testCaseIds.map(id => `   <testCaseLink><isRun>true</isRun><testCaseId>${id}</testCaseId></testCaseLink>`).join('\n')}
+   <testCaseLink><isRun>false</isRun><testCaseId>Test Cases/Disabled</testCaseId></testCaseLink>
+</TestSuiteEntity>`;
+
+    const writeScript = (script: object) =>
+        fs.outputFile(path.join(projectPath, '.katalon-mcp', 'simulation.json'), JSON.stringify(script));
+
+    const waitForEnd = async (executionId: string): Promise<void> => {
+        while (!executor.getExecutionJob(executionId)!.endTime) {
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+    };
+
+    beforeEach(async () => {
+        projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-simulated-'));
+        await fs.writeFile(path.join(projectPath, '.project'), '');
+        await fs.ensureDir(path.join(projectPath, 'settings'));
+        await fs.outputFile(
+            path.join(projectPath, 'Test Suites', 'Smoke.ts'),
+            suite('Smoke', ['Test Cases/Login', 'Test Cases/Checkout/Pay', 'Test Cases/Checkout/Refund'])
+        );
+        executor = new KatalonTestExecutor();
+    });
+
+    afterEach(async () => {
+        await fs.remove(projectPath);
+    });
+
+    describe('Reports', () => {
+        it('should follow the script and produce reports the executor parses', async () => {
+            await writeScript({
+                testCases: { 'Test Cases/Checkout/*': 'failed', 'Test Cases/Checkout/Refund': 'skipped' },
+                failureMessage: 'Payment button not found',
+            });
+
+            const response = await executor.executeTestSuite({
+                projectPath,
+                testSuitePath: 'Test Suites/Smoke.ts',
+                runner: 'simulated',
+            });
+            const text = response.content[0].text;
+            const reportFolder = path.join(projectPath, 'Reports', /\*\*Execution ID\*\*: (\S+)/.exec(text)![1]);
+
+            expect(text).toContain('❌ FAILED');
+            expect(text).toContain('- **Passed**: 1');
+            expect(text).toContain('- **Failed**: 1');
+            expect(text).toContain('- **Skipped**: 1');
+            expect(text).toContain('Payment button not found');
+            expect(text).toContain(`- **Log Path**: ${path.join(reportFolder, 'execution.log')}`);
+            expect(text).toContain('- **Screenshots**: 1 files');
+            expect(text).not.toContain('Test Cases/Disabled');
+            expect(await fs.readFile(path.join(reportFolder, 'execution.log'), 'utf-8')).toContain(
+                'Test Cases/Checkout/Pay FAILED'
+            );
+        });
+
+        it('should report each member suite of a collection', async () => {
+            await fs.outputFile(
+                path.join(projectPath, 'Test Suites', 'Checkout.ts'),
+                suite('Checkout', ['Test Cases/Cart'])
+            );
+            await fs.outputFile(
+                path.join(projectPath, 'Test Suites', 'Nightly.tsc'),
+                `<TestSuiteCollectionEntity>
+   <name>Nightly</name>
+   <testSuiteRunConfigurations>
+      <TestSuiteRunConfiguration>
+         <configuration><runConfigurationId>Chrome</runConfigurationId></configuration>
+         <runEnabled>true</runEnabled>
+         <testSuiteEntity>Test Suites/Smoke</testSuiteEntity>
+      </TestSuiteRunConfiguration>
+      <TestSuiteRunConfiguration>
+         <configuration><runConfigurationId>Firefox</runConfigurationId></configuration>
+         <runEnabled>true</runEnabled>
+         <testSuiteEntity>Test Suites/Checkout</testSuiteEntity>
+      </TestSuiteRunConfiguration>
+   </testSuiteRunConfigurations>
+</TestSuiteCollectionEntity>`
+            );
+
+            const response = await executor.manageExecution({
+                action: 'start',
+                projectPath,
+                testSuitePath: 'Test Suites/Nightly.tsc',
+                runner: 'simulated',
+            });
+            const executionId = /\*\*Execution ID\*\*: (\S+)/.exec(response.content[0].text)![1];
+            await waitForEnd(executionId);
+
+            const job = executor.getExecutionJob(executionId)!;
+            expect(job.status).toBe('completed');
+            expect(job.progress?.completed).toBe(4);
+            expect(job.result?.success).toBe(true);
+            expect(job.result?.suiteResults?.map(s => [s.testSuiteId, s.browser, s.testResults.length])).toEqual([
+                ['Test Suites/Smoke', 'Chrome', 3],
+                ['Test Suites/Checkout', 'Firefox', 1],
+            ]);
+        });
+
+        it('should reject a script with an unknown outcome', async () => {
+            await writeScript({ defaultOutcome: 'flaky' });
+
+            await expect(new KatalonSimulatedRunner().loadScript(projectPath)).rejects.toThrow(
+                'unknown outcome "flaky"'
+            );
+        });
+
+        it('should fall back to the server script when the project has none', async () => {
+            const scriptFile = path.join(projectPath, 'server-script.json');
+            await fs.writeFile(scriptFile, JSON.stringify({ defaultOutcome: 'error' }));
+
+            expect(await new KatalonSimulatedRunner(scriptFile).loadScript(projectPath)).toEqual({
+                defaultOutcome: 'error',
+            });
+        });
+    });
+
+    describe('Cancellation', () => {
+        it('should stop between test cases and keep the finished ones', async () => {
+            await writeScript({ testCaseDurationMs: 200 });
+
+            const response = await executor.manageExecution({
+                action: 'start',
+                projectPath,
+                testSuitePath: 'Test Suites/Smoke.ts',
+                runner: 'simulated',
+            });
+            const executionId = /\*\*Execution ID\*\*: (\S+)/.exec(response.content[0].text)![1];
+            while ((executor.getExecutionJob(executionId)!.progress?.completed ?? 0) < 1) {
+                await new Promise(resolve => setTimeout(resolve, 10));
+            }
+            await executor.manageExecution({ action: 'cancel', executionId });
+            await waitForEnd(executionId);
+
+            const job = executor.getExecutionJob(executionId)!;
+            expect(job.status).toBe('cancelled');
+            expect(job.result?.stoppedReason).toBe('cancelled');
+            expect(job.result?.testResults.map(t => t.testCaseName)).toEqual(['Test Cases/Login']);
+        });
+    });
+});
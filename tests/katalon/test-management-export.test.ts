@@ -0,0 +1,138 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ExecutionRecord } from '../../src/katalon/execution-history';
+import { KatalonTestManagementExport } from '../../src/katalon/test-management-export';
+
+describe('TestManagementExport', () => {
+    let projectPath: string;
+    let exporter: KatalonTestManagementExport;
+    let record: ExecutionRecord;
+
+    const testCase = (tags: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<TestCaseEntity>
+   <description></description>
+   <name>Test</name>
+   <tag>${tags}</tag>
+   <comment></comment>
+   <testCaseGuid>00000000-0000-0000-0000-000000000000</testCaseGuid>
+</TestCaseEntity>`;
+
+    beforeEach(async () => {
+        projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-test-management-'));
+        await fs.outputFile(path.join(projectPath, 'Test Cases', 'Login.tc'), testCase('smoke, C101, xray:PROJ-1'));
+        await fs.outputFile(path.join(projectPath, 'Test Cases', 'Search.tc'), testCase('zephyr:PROJ-T7'));
+        exporter = new KatalonTestManagementExport();
+
+        record = {
+            executionId: 'run_1',
+            status: 'FAILED',
+            testSuitePath: 'Test Suites/Smoke.ts',
+            browser: 'Chrome',
+            options: { projectPath, testSuitePath: 'Test Suites/Smoke.ts' },
+            success: false,
+            exitCode: 1,
+            startTime: '2025-01-01T10:00:00.000Z',
+            endTime: '2025-01-01T10:01:10.000Z',
+            duration: 70000,
+            testResults: [
+                { testCaseName: 'Test Cases/Login', status: 'PASSED', duration: 400 },
+                { testCaseName: 'Test Cases/Search', status: 'FAILED', duration: 65000, errorMessage: 'No results' },
+                { testCaseName: 'Test Cases/Untracked', status: 'SKIPPED', duration: 0 },
+            ],
+        };
+    });
+
+    afterEach(async () => {
+        await fs.remove(projectPath);
+    });
+
+    describe('Mapping', () => {
+        it('should read external IDs from test case tags', async () => {
+            expect(await exporter.readTagIds(projectPath, 'Test Cases/Login')).toEqual({
+                testrail: 'C101',
+                xray: 'PROJ-1',
+            });
+            expect(await exporter.readTagIds(projectPath, 'Test Cases/Missing')).toEqual({});
+        });
+
+        it('should find the test case of a JUnit name without the Test Cases folder', async () => {
+            await fs.outputFile(path.join(projectPath, 'Test Cases', 'Checkout', 'Pay.tc'), testCase('C202'));
+
+            expect(await exporter.readTagIds(projectPath, 'Login')).toEqual({ testrail: 'C101', xray: 'PROJ-1' });
+            expect(await exporter.readTagIds(projectPath, 'Checkout\\Pay')).toEqual({ testrail: 'C202' });
+        });
+
+        it('should let the mapping file win over tags', async () => {
+            await fs.outputFile(
+                path.join(projectPath, '.katalon-mcp', 'test-management.json'),
+                JSON.stringify({ testrail: { 'Test Cases/Login': 'C555', 'Test Cases/Search': 'C102' } })
+            );
+
+            const mapping = await exporter.loadMapping(projectPath);
+            const { payload, unmapped } = await exporter.build('testrail', [record], mapping);
+
+            expect(payload.results.map((result: any) => result.case_id)).toEqual([555, 102]);
+            expect(unmapped).toEqual(['Test Cases/Untracked']);
+        });
+
+        it('should report a mapping file that is missing or broken', async () => {
+            await expect(exporter.loadMapping(projectPath, 'ids.json')).rejects.toThrow(
+                'Test case mapping file not found'
+            );
+
+            await fs.writeFile(path.join(projectPath, 'ids.json'), '{ nope');
+            await expect(exporter.loadMapping(projectPath, 'ids.json')).rejects.toThrow(
+                'Invalid test case mapping in'
+            );
+        });
+    });
+
+    describe('Formats', () => {
+        it('should build a TestRail results payload', async () => {
+            const { payload } = await exporter.build('testrail', [record], {
+                testrail: { 'Test Cases/Search': 'C102' },
+            });
+
+            expect(payload.results).toEqual([
+                expect.objectContaining({ case_id: 101, status_id: 1, elapsed: '1s' }),
+                expect.objectContaining({ case_id: 102, status_id: 5, elapsed: '1m 5s' }),
+            ]);
+            expect(payload.results[1].comment).toContain('No results');
+        });
+
+        it('should build an Xray JSON import', async () => {
+            const { payload, unmapped } = await exporter.build('xray', [record], {});
+
+            expect(payload.info).toMatchObject({
+                startDate: '2025-01-01T10:00:00.000Z',
+                finishDate: '2025-01-01T10:01:10.000Z',
+                testEnvironments: ['Chrome'],
+            });
+            expect(payload.tests).toEqual([
+                expect.objectContaining({
+                    testKey: 'PROJ-1',
+                    status: 'PASSED',
+                    start: '2025-01-01T10:00:00.000Z',
+                    finish: '2025-01-01T10:00:00.400Z',
+                }),
+            ]);
+            expect(unmapped).toEqual(['Test Cases/Search', 'Test Cases/Untracked']);
+        });
+
+        it('should build a Zephyr Scale custom JSON import', async () => {
+            const { payload } = await exporter.build('zephyr', [record], {});
+
+            expect(payload).toEqual({
+                version: 1,
+                executions: [
+                    {
+                        source: 'Test Cases/Search.tc',
+                        result: 'Failed',
+                        testCase: { key: 'PROJ-T7', comment: expect.stringContaining('No results') },
+                    },
+                ],
+            });
+        });
+    });
+});
@@ -0,0 +1,311 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as xml2js from 'xml2js';
+import { KatalonTestSuiteCollectionParser } from '../../src/katalon/test-suite-collection';
+import { KatalonTestSuiteManager } from '../../src/katalon/test-suite-manager';
+
+describe('TestSuiteManager', () => {
+    let projectPath: string;
+    let manager: KatalonTestSuiteManager;
+
+    const testCase = (variables: string[] = []) => `<?xml version="1.0" encoding="UTF-8"?>
+<TestCaseEntity>
+   <description></description>
+   <name>Test</name>
+   <tag></tag>
+   <comment></comment>
+   <testCaseGuid>00000000-0000-0000-0000-000000000000</testCaseGuid>
+${variables
+    .map(
+        name => `   <variable>
+      <defaultValue>''</defaultValue>
+      <description></description>
+      <id>id-${name}</id>
+      <masked>false</masked>
+      <name>${name}</name>
+   </variable>`
+    )
+    .join('\n')}
+</TestCaseEntity>`;
+
+    const readSuite = async (name: string) =>
+        (await new xml2js.Parser().parseStringPromise(
+            await fs.readFile(path.join(projectPath, 'Test Suites', `${name}.ts`), 'utf-8')
+        )).TestSuiteEntity;
+
+    const linkedIds = async (name: string) =>
+        ((await readSuite(name)).testCaseLink || []).map((link: any) => link.testCaseId[0]);
+
+    beforeEach(async () => {
+        projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'katalon-suites-'));
+        await fs.outputFile(path.join(projectPath, '.project'), '<projectDescription/>');
+        await fs.ensureDir(path.join(projectPath, 'settings'));
+        await fs.outputFile(path.join(projectPath, 'Test Cases', 'Login.tc'), testCase(['username', 'password']));
+        await fs.outputFile(path.join(projectPath, 'Test Cases', 'Search.tc'), testCase());
+        await fs.outputFile(path.join(projectPath, 'Test Cases', 'Checkout', 'Pay.tc'), testCase());
+        await fs.outputFile(path.join(projectPath, 'Data Files', 'Users.dat'), '<DataFileEntity/>');
+        manager = new KatalonTestSuiteManager();
+    });
+
+    afterEach(async () => {
+        await fs.remove(projectPath);
+    });
+
+    it('should create a suite with links and settings', async () => {
+        const response = await manager.manageTestSuite({
+            projectPath,
+            action: 'create',
+            testSuitePath: 'Test Suites/Regression',
+            testCaseIds: ['Test Cases/Login', 'Test Cases/Search'],
+            description: 'Nightly regression',
+            pageLoadTimeout: 60,
+            numberOfRerun: 2,
+            rerunFailedTestCasesOnly: true,
+        });
+
+        const suite = await readSuite('Regression');
+        expect(suite).toMatchObject({
+            description: ['Nightly regression'],
+            name: ['Regression'],
+            isRerun: ['true'],
+            numberOfRerun: ['2'],
+            pageLoadTimeout: ['60'],
+            pageLoadTimeoutDefault: ['false'],
+            rerunFailedTestCasesOnly: ['true'],
+            rerunImmediately: ['false'],
+        });
+        expect(suite.testCaseLink[0]).toMatchObject({ isRun: ['true'], testCaseId: ['Test Cases/Login'] });
+        expect(suite.testCaseLink[0].guid[0]).not.toBe(suite.testCaseLink[1].guid[0]);
+        expect(response.content[0].text).toContain('✅ Created test suite Test Suites/Regression');
+        expect(response.content[0].text).toContain('- **Retries**: 2 (failed test cases only, after the run)');
+        expect(response.content[0].text).toContain('1. Test Cases/Login\n2. Test Cases/Search');
+    });
+
+    it('should refuse unknown test cases and existing suites', async () => {
+        await expect(
+            manager.createTestSuite(projectPath, 'Test Suites/Smoke', ['Test Cases/Missing'])
+        ).rejects.toThrow('Test case not found: Test Cases/Missing');
+
+        await manager.createTestSuite(projectPath, 'Test Suites/Smoke', []);
+        await expect(manager.createTestSuite(projectPath, 'Test Suites/Smoke.ts', [])).rejects.toThrow(
+            'Test suite already exists'
+        );
+        await expect(manager.createTestSuite(projectPath, 'Test Suites/../Smoke', [])).rejects.toThrow(
+            'Invalid test suite path'
+        );
+    });
+
+    it('should add, remove and reorder test cases', async () => {
+        await manager.createTestSuite(projectPath, 'Test Suites/Regression', ['Test Cases/Login']);
+
+        const added = await manager.addTestCases(
+            projectPath,
+            'Test Suites/Regression',
+            ['Test Cases/Search', 'Test Cases/Login', 'Test Cases/Checkout/Pay'],
+            0
+        );
+        expect(added).toEqual(['Test Cases/Search', 'Test Cases/Checkout/Pay']);
+        expect(await linkedIds('Regression')).toEqual([
+            'Test Cases/Search',
+            'Test Cases/Checkout/Pay',
+            'Test Cases/Login',
+        ]);
+
+        await manager.reorderTestCases(projectPath, 'Test Suites/Regression', ['Test Cases/Login']);
+        expect(await linkedIds('Regression')).toEqual([
+            'Test Cases/Login',
+            'Test Cases/Search',
+            'Test Cases/Checkout/Pay',
+        ]);
+
+        await manager.removeTestCases(projectPath, 'Test Suites/Regression', ['Test Cases/Search']);
+        expect(await linkedIds('Regression')).toEqual(['Test Cases/Login', 'Test Cases/Checkout/Pay']);
+        await expect(
+            manager.removeTestCases(projectPath, 'Test Suites/Regression', ['Test Cases/Search'])
+        ).rejects.toThrow('Not in test suite: Test Cases/Search');
+    });
+
+    it('should keep elements it does not know about when editing', async () => {
+        await fs.outputFile(
+            path.join(projectPath, 'Test Suites', 'Legacy.ts'),
+            `<?xml version="1.0" encoding="UTF-8"?>
+<TestSuiteEntity>
+   <description>Old suite</description>
+   <name>Legacy</name>
+   <tag>smoke</tag>
+   <isRerun>false</isRerun>
+   <mailRecipient>qa@example.com</mailRecipient>
+   <numberOfRerun>0</numberOfRerun>
+   <pageLoadTimeout>30</pageLoadTimeout>
+   <pageLoadTimeoutDefault>true</pageLoadTimeoutDefault>
+   <rerunFailedTestCasesOnly>false</rerunFailedTestCasesOnly>
+   <rerunImmediately>false</rerunImmediately>
+   <testSuiteGuid>suite-guid</testSuiteGuid>
+   <testCaseLink>
+      <guid>link-guid</guid>
+      <isReuseDriver>false</isReuseDriver>
+      <isRun>false</isRun>
+      <testCaseId>Test Cases/Search</testCaseId>
+      <usingDataBindingAtTestSuiteLevel>true</usingDataBindingAtTestSuiteLevel>
+   </testCaseLink>
+</TestSuiteEntity>`
+        );
+
+        await manager.updateSettings(projectPath, 'Test Suites/Legacy', { numberOfRerun: 1, rerunImmediately: true });
+
+        const suite = await readSuite('Legacy');
+        expect(suite).toMatchObject({
+            tag: ['smoke'],
+            mailRecipient: ['qa@example.com'],
+            testSuiteGuid: ['suite-guid'],
+            isRerun: ['true'],
+            rerunImmediately: ['true'],
+        });
+        expect(suite.testCaseLink[0]).toMatchObject({ guid: ['link-guid'], isRun: ['false'] });
+        expect((await manager.describeTestSuite(projectPath, 'Test Suites/Legacy')).testCases).toEqual([
+            { testCaseId: 'Test Cases/Search', isRun: false, testData: [] },
+        ]);
+    });
+
+    it('should bind data file columns to test case variables', async () => {
+        await manager.createTestSuite(projectPath, 'Test Suites/Regression', ['Test Cases/Login']);
+
+        await manager.bindData(projectPath, 'Test Suites/Regression', {
+            testCaseId: 'Test Cases/Login',
+            testDataId: 'Data Files/Users',
+            variables: [
+                { variable: 'username', column: 'user' },
+                { variable: 'password', column: 2 },
+            ],
+            iterationType: 'RANGE',
+            iterationValue: '1-3',
+        });
+        await manager.bindData(projectPath, 'Test Suites/Regression', {
+            testCaseId: 'Test Cases/Login',
+            testDataId: 'Data Files/Users',
+            variables: [{ variable: 'username', column: 'email' }],
+        });
+
+        const link = (await readSuite('Regression')).testCaseLink[0];
+        expect(link.testDataLink).toHaveLength(1);
+        expect(link.testDataLink[0]).toMatchObject({
+            combinationType: ['ONE'],
+            iterationEntity: [{ iterationType: ['ALL'], value: [''] }],
+            testDataId: ['Data Files/Users'],
+        });
+        expect(link.variableLink).toEqual([
+            {
+                testDataLinkId: link.testDataLink[0].id,
+                type: ['DATA_COLUMN'],
+                value: ['email'],
+                variableId: ['id-username'],
+            },
+            {
+                testDataLinkId: link.testDataLink[0].id,
+                type: ['DATA_COLUMN_INDEX'],
+                value: ['2'],
+                variableId: ['id-password'],
+            },
+        ]);
+        expect(Object.keys(link)).toEqual([
+            'guid',
+            'isReuseDriver',
+            'isRun',
+            'testCaseId',
+            'testDataLink',
+            'usingDataBindingAtTestSuiteLevel',
+            'variableLink',
+        ]);
+    });
+
+    it('should refuse bindings to unknown data files and variables', async () => {
+        await manager.createTestSuite(projectPath, 'Test Suites/Regression', ['Test Cases/Login']);
+        const bind = (testDataId: string, variable: string) =>
+            manager.bindData(projectPath, 'Test Suites/Regression', {
+                testCaseId: 'Test Cases/Login',
+                testDataId,
+                variables: [{ variable, column: 'user' }],
+            });
+
+        await expect(bind('Data Files/Missing', 'username')).rejects.toThrow('Data file not found');
+        await expect(bind('Data Files/Users', 'email')).rejects.toThrow(
+            'Variable email is not declared in Test Cases/Login'
+        );
+    });
+
+    describe('Collections', () => {
+        beforeEach(async () => {
+            await manager.createTestSuite(projectPath, 'Test Suites/Smoke', ['Test Cases/Login']);
+            await manager.createTestSuite(projectPath, 'Test Suites/Checkout', ['Test Cases/Checkout/Pay']);
+            await fs.outputFile(path.join(projectPath, 'Profiles', 'default.glbl'), '<GlobalVariableEntities/>');
+            await fs.outputFile(path.join(projectPath, 'Profiles', 'staging.glbl'), '<GlobalVariableEntities/>');
+        });
+
+        it('should create a collection the executor can read back', async () => {
+            const response = await manager.manageTestSuiteCollection({
+                projectPath,
+                action: 'create',
+                collectionPath: 'Test Suites/Nightly',
+                executionMode: 'PARALLEL',
+                maxConcurrentInstances: 3,
+                members: [
+                    { testSuiteId: 'Test Suites/Smoke', browser: 'Firefox', executionProfile: 'staging' },
+                    { testSuiteId: 'Test Suites/Checkout.ts' },
+                    { testSuiteId: 'Test Suites/Smoke', browser: 'Android', runEnabled: false },
+                ],
+            });
+
+            const collection = await new KatalonTestSuiteCollectionParser().parse(
+                projectPath,
+                'Test Suites/Nightly.tsc'
+            );
+            expect(collection).toEqual({
+                name: 'Nightly',
+                executionMode: 'PARALLEL',
+                maxConcurrentInstances: 3,
+                runConfigurations: [
+                    {
+                        testSuiteId: 'Test Suites/Smoke',
+                        testSuitePath: 'Test Suites/Smoke.ts',
+                        runEnabled: true,
+                        browser: 'Firefox',
+                        executionProfile: 'staging',
+                        groupName: 'Web Desktop',
+                    },
+                    {
+                        testSuiteId: 'Test Suites/Checkout',
+                        testSuitePath: 'Test Suites/Checkout.ts',
+                        runEnabled: true,
+                        browser: 'Chrome',
+                        executionProfile: 'default',
+                        groupName: 'Web Desktop',
+                    },
+                    {
+                        testSuiteId: 'Test Suites/Smoke',
+                        testSuitePath: 'Test Suites/Smoke.ts',
+                        runEnabled: false,
+                        browser: 'Android',
+                        executionProfile: 'default',
+                        groupName: 'Mobile',
+                    },
+                ],
+            });
+            expect(response.content[0].text).toContain('- **Execution Mode**: PARALLEL (up to 3 at once)');
+            expect(response.content[0].text).toContain('| 1 | Test Suites/Smoke | Firefox | staging | yes |');
+        });
+
+        it('should refuse missing suites and profiles', async () => {
+            const create = (members: any[]) =>
+                manager.createTestSuiteCollection(projectPath, 'Test Suites/Nightly', { members });
+
+            await expect(
+                create([{ testSuiteId: 'Test Suites/Smoke' }, { testSuiteId: 'Test Suites/Missing' }])
+            ).rejects.toThrow('Test suite not found: Test Suites/Missing');
+            await expect(create([{ testSuiteId: 'Test Suites/Smoke', executionProfile: 'prod' }])).rejects.toThrow(
+                'Profile not found: prod'
+            );
+            expect(await fs.pathExists(path.join(projectPath, 'Test Suites', 'Nightly.tsc'))).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import { spawn } from 'child_process';
+import { terminateProcessTree } from '../../src/utils/process-tree';
+
+const isAlive = (pid: number): boolean => {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const describePosix = process.platform === 'win32' ? describe.skip : describe;
+
+describePosix('ProcessTree', () => {
+    it('should kill a process that ignores SIGTERM, and the children it started', async () => {
+        // Parent ignores SIGTERM (like a stuck katalonc) and starts a long-running child (like a browser)
+        const parent = spawn(
+            process.execPath,
+            [
+                '-e',
+                `process.on('SIGTERM', () => {});
+const child = require('child_process').spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });
+console.log(child.pid);
+setInterval(() => {}, 1000);`,
+            ],
+            { detached: true, stdio: ['ignore', 'pipe', 'ignore'] }
+        );
+        const childPid = await new Promise<number>(resolve =>
+            parent.stdout!.once('data', data => resolve(parseInt(data.toString(), 10)))
+        );
+
+        const started = Date.now();
+        await terminateProcessTree(parent, 300);
+
+        expect(Date.now() - started).toBeGreaterThanOrEqual(250);
+        expect(parent.signalCode).toBe('SIGKILL');
+        // The child may take a moment to be reaped after SIGKILL
+        for (let i = 0; i < 50 && isAlive(childPid); i++) {
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        expect(isAlive(childPid)).toBe(false);
+    });
+
+    it('should let a process that handles SIGTERM exit on its own', async () => {
+        const parent = spawn(
+            process.execPath,
+            ['-e', `process.on('SIGTERM', () => process.exit(0)); console.log('ready'); setInterval(() => {}, 1000);`],
+            { detached: true, stdio: ['ignore', 'pipe', 'ignore'] }
+        );
+        await new Promise(resolve => parent.stdout!.once('data', resolve));
+
+        await terminateProcessTree(parent, 5000);
+
+        expect(parent.exitCode).toBe(0);
+    });
+});